@@ -1,2 +1,17 @@
 export * from "./src/calculator-layout.class.ts";
+export * from "./src/calculator-mixed-layout.class.ts";
+export * from "./src/calculator-plan.class.ts";
+export * from "./src/guillotine-solver.class.ts";
+export * from "./src/svg-node.class.ts";
+export * from "./src/color-validator.class.ts";
+export * from "./src/pdf-context.class.ts";
+export * from "./src/dxf-exporter.class.ts";
+export * from "./src/cut-sequence.class.ts";
+export * from "./src/layout-viewer.class.ts";
+export * from "./src/paper-preset.class.ts";
+export * from "./src/layout-job.class.ts";
+export * from "./src/layout-analysis.class.ts";
+export * from "./src/layout-solver.class.ts";
+export * from "./src/layout-error.class.ts";
+export * from "./src/layout-math.class.ts";
 export * from "./src/calculator-layout.interface.ts";
\ No newline at end of file
@@ -1,4 +1,36 @@
-import { ILayoutConfig, ISquareSize, ILayoutInput, IRectMatrixResult, IPaperLayoutSizing, ILayoutCoords, IMatrixGrid, ILayoutResult } from "./calculator-layout.interface";
+import { GuillotineSolverClass } from "./guillotine-solver.class";
+import { SvgNodeClass } from "./svg-node.class";
+import { ColorValidatorClass } from "./color-validator.class";
+import { PdfContextClass } from "./pdf-context.class";
+import { DxfExporterClass } from "./dxf-exporter.class";
+import { CutSequenceClass } from "./cut-sequence.class";
+import { LayoutMathClass } from "./layout-math.class";
+import { LayoutCalculationError, LayoutDrawingError, LayoutFitError, LayoutValidationError } from "./layout-error.class";
+import { ILayoutConfig, ISquareSize, ILayoutInput, IRectMatrixResult, IPaperLayoutSizing, ILayoutCoords, IMatrixGrid, ILayoutResult, ILayoutCandidate, LayoutMethod, LayoutStrategy, RemainPlacement, IRemainRegion, IRectPlotConfig, RemainGroup, ILayoutPlotGroup, ILayoutAllowance, ISheetEdge, ISheetSize, ILayoutStatistics, LayoutUnit, ILayoutCanvasContext, ILayoutPdfInfo, ILayoutCutStep, ILayoutSheetMarks, ILayoutDimension, ILayoutPieceLabel, ILayoutPiece, LayoutNumbering, LayoutValidationCode } from "./calculator-layout.interface";
+
+/**
+ * The length of every {@link LayoutUnit unit} in millimetres.
+ */
+const MILLIMETRES_PER_UNIT: Record<LayoutUnit, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72
+};
+
+/**
+ * The patches of the colour bar: the process solids, their two color overprints and a 50% black tint.
+ */
+const COLOR_BAR = [
+  'rgb(0, 174, 239)', // cyan
+  'rgb(236, 0, 140)', // magenta
+  'rgb(255, 242, 0)', // yellow
+  'rgb(0, 0, 0)', // black
+  'rgb(46, 49, 146)', // cyan + magenta
+  'rgb(0, 166, 81)', // cyan + yellow
+  'rgb(237, 28, 36)', // magenta + yellow
+  'rgb(128, 128, 128)' // 50% black
+];
 
 
 /**
@@ -97,7 +129,7 @@ export class CalculatorLayoutClass {
    * - `set` the {@link config config}
    * - Available `interface` {@link ILayoutConfig ILayoutConfig}. 
    */
-  private _config: ILayoutConfig;
+  protected _config: ILayoutConfig;
   /** 
    *
    * @property {SVGSVGElement | HTMLCanvasElement | null} _Element - The SVG or Canvas element used for drawing.
@@ -106,28 +138,75 @@ export class CalculatorLayoutClass {
    * - Producing `.jpeg` base64 encoded or `<canvas/> Element` {@link drawCanvas Method} 
    */
   private _Element: SVGSVGElement | HTMLCanvasElement | null = null;
-
+  /**
+   *
+   * @property {LayoutStrategy} _strategy - The strategy used by `calculate()`, resolved from the constructor `strategy` param.
+   * @see
+   * - Available strategy {@link LayoutStrategy type}.
+   */
+  private _strategy: LayoutStrategy;
+  /**
+   *
+   * @property {Required<ILayoutAllowance>} _allowance - The blade kerf, bleed and sheet edge, resolved from the constructor `allowance` param.
+   * @see
+   * - Available allowance {@link ILayoutAllowance interface}.
+   */
+  protected _allowance: Required<ILayoutAllowance>;
+  /**
+   *
+   * @property {boolean} _ignoreGrain - `true` while the paper grain rule is lifted, to measure what it costs.
+   * @see
+   * - Grain rule {@link _allowedRotations method}.
+   */
+  private _ignoreGrain: boolean = false;
+  /**
+   *
+   * @property {LayoutUnit} _unit - The unit of every input length and of the calculated layout.
+   * @see
+   * - Available unit {@link LayoutUnit type}.
+   */
+  protected _unit: LayoutUnit;
 
   /**
-   * @param {ISquareSize} [_source.width=null, _source.height=null] - The size of the source rectangle (e.g., paper).
-   * @param {ISquareSize} [_target.width=null, _target.height=null] - The size of the target rectangle (e.g., the piece to cut).
+   * @param {ISheetSize} [_source.width=null, _source.height=null, _source.grain] - The size of the source rectangle (e.g., paper), with its optional grain direction.
+   * @param {ISheetSize} [_target.width=null, _target.height=null, _target.grain] - The size of the target rectangle (e.g., the piece to cut), with the grain direction it requires.
    * @param {ISquareSize} [_margin.width=null, _margin.height=null] - The margin around the target rectangles. Defaults to `0` margin.
-   * @param {boolean} [_useInline=true] - Flag to determine the calculation method (true: inline, false: cross). Defaults to true.
-   * @throws {Error} Throws an error if source, target, or margin dimensions are invalid.
+   * @param {boolean | LayoutStrategy} [strategy=true] - The calculation strategy (`'inline'`, `'cross'` or `'auto'`).
+   * For backward compatibility a boolean is still accepted (true: inline, false: cross). Defaults to true.
+   * @param {ILayoutAllowance} [allowance={}] - The blade `kerf` between adjacent targets, the `bleed` around every target
+   * and the unused `edge` on each side of the source. Defaults to `0` for all of them.
+   * @param {LayoutUnit} [unit='cm'] - The unit of every input length, the calculated layout is in the same unit.
+   * @throws {LayoutValidationError} Throws an error if source, target, margin or allowance dimensions, or the unit are invalid,
+   * or a {@link LayoutFitError} if the target, the margin or the sheet edges don't fit on the source,
+   * its `field` is the refused input, eq. `target.width`, and its `code` the failed rule.
    * @defaultValue 
    * _margin = { width: 0, height: 0 };
-   * _useInline = true;
+   * strategy = true;
+   * allowance = {};
+   * unit = 'cm';
    */
   constructor(
-    private _source: ISquareSize,
-    private _target: ISquareSize,
-    private _margin: ISquareSize = { width: 0, height: 0 },
-    private _useInline: boolean = true,
+    protected _source: ISheetSize,
+    protected _target: ISheetSize,
+    protected _margin: ISquareSize = { width: 0, height: 0 },
+    strategy: boolean | LayoutStrategy = true,
+    allowance: ILayoutAllowance = {},
+    unit: LayoutUnit = 'cm',
   ) {
 
+    this._validateUnit(unit);
+    this._unit = unit;
+
+    /** Resolve the legacy `useInline` flag into a strategy **/
+    if (typeof strategy === 'boolean') {
+      this._strategy = strategy ? 'inline' : 'cross';
+    } else {
+      this._strategy = strategy;
+    }
+
     /** Assign `default configuration` for layouts generation **/
     this._config = {
-      fonts: { size: 3, family: 'sans-serif', unit: 'px' },
+      fonts: { size: CalculatorLayoutClass.convert(3, 'cm', unit), family: 'sans-serif', unit: 'px' },
       textColor: 'rgb(85, 85, 85)',
       lineWidth: 0.18, //default
       strokeColor: 'rgb(85, 85, 85)',
@@ -136,14 +215,49 @@ export class CalculatorLayoutClass {
       mainOuterColor: 'skyblue',
       remainInnerColor: 'lightcoral',
       remainOuterColor: 'lightsalmon',
-      ratio: 28.346 // 1px to 1cm
+      ratio: this._trueSizeRatio(), // 1px to 1pt, eq. 28.346 for cm
+      legend: false,
+      palette: ['lightgreen', 'lightcoral', 'lightskyblue', 'khaki', 'plum', 'aquamarine', 'sandybrown', 'thistle'],
+      bleedColor: 'rgba(220, 20, 60, 0.35)',
+      kerfColor: 'dimgray',
+      edgeColor: 'rgba(0, 0, 0, 0.15)',
+      offcuts: false,
+      offcutColor: 'rgb(85, 85, 85)',
+      cutLines: false,
+      cutLineColor: 'crimson',
+      cropMarks: false,
+      registrationMarks: false,
+      slug: false,
+      colorBar: false,
+      markColor: 'rgb(0, 0, 0)',
+      dimensions: false,
+      dimensionColor: 'rgb(0, 0, 139)',
+      dimensionPrecision: 2,
+      numbering: 'row',
+      label: '{number}',
+      jobCode: '',
+      labelSize: false,
+      unit
     };
 
 
+    /** Resolve the allowance, every missing value is `0` **/
+    this._allowance = {
+      kerf: allowance.kerf ?? 0,
+      bleed: allowance.bleed ?? 0,
+      edge: Object.assign({ top: 0, right: 0, bottom: 0, left: 0 }, allowance.edge)
+    };
+
     // Input Validation in Constructor:
-    this._validateTarget(_target, _source, _margin);
+    /** the source first, the allowance and the target are measured against it **/
     this._validateSource(_source);
-    this._validateMargin(_margin, _source, _target);
+    this._validateAllowance(this._allowance, _source);
+    this._validateGrain(_source, 'Source');
+    this._validateGrain(_target, 'Target');
+    /** only the inline method keeps the target in its orientation, the others may rotate it where the grain allows **/
+    const rotations = this._strategy === 'inline' ? [false] : this._allowedRotations();
+    this._validateTarget(_target, this._usableArea(), this._pieceMargin(), 'target', rotations);
+    this._validateMargin(_margin, _source, _target, rotations);
 
     if (this._margin && (!this._margin.width && !this._margin.height)) {
       this._margin = {
@@ -172,7 +286,10 @@ export class CalculatorLayoutClass {
    *  input: {
    *    "source":{ "width":65, "height":100 },
    *    "target":{ "width":23, "height":12 },
-   *    "margin":{ "width":1, "height":1 }
+   *    "margin":{ "width":1, "height":1 },
+   *    "strategy": "auto",
+   *    "allowance": { "kerf": 0.3, "bleed": 0.3, "edge": { "top": 1, "right": 0.5, "bottom": 0.5, "left": 0.5 } },
+   *    "unit": "cm"
    *  }
    * 
    * ```
@@ -183,7 +300,10 @@ export class CalculatorLayoutClass {
     return {
       source: this._source,
       target: this._target,
-      margin: this._margin
+      margin: this._margin,
+      strategy: this._strategy,
+      allowance: this._allowance,
+      unit: this._unit
     }
   }
 
@@ -201,7 +321,7 @@ export class CalculatorLayoutClass {
    * @property {ILayoutConfig} config - Sets the layout configuration, with validation.
    *
    * @defaultValue 
-   * fonts = { size: 3, family: 'sans-serif', unit: 'px' },
+   * fonts = { size: 3, family: 'sans-serif', unit: 'px' }, // size: 3cm in the input unit
    * textColor = 'rgb(85, 85, 85)',
    * lineWidth =  0.18,
    * strokeColor = 'rgb(85, 85, 85)',
@@ -210,12 +330,36 @@ export class CalculatorLayoutClass {
    * mainInnerColor = 'lightgreen',
    * remainOuterColor = 'lightsalmon',
    * remainInnerColor = 'lightcoral',
-   * ratio = 28.346 // 1px to 1cm
+   * ratio = 28.346, // 1px to 1pt, for the `cm` input unit (2.8346 for `mm`, 72 for `in`, 1 for `pt`)
+   * unit = 'cm', // the output unit, defaults to the input unit
+   * legend = false,
+   * palette = ['lightgreen', 'lightcoral', 'lightskyblue', 'khaki', 'plum', 'aquamarine', 'sandybrown', 'thistle'],
+   * bleedColor = 'rgba(220, 20, 60, 0.35)',
+   * kerfColor = 'dimgray',
+   * edgeColor = 'rgba(0, 0, 0, 0.15)',
+   * offcuts = false,
+   * offcutColor = 'rgb(85, 85, 85)',
+   * cutLines = false,
+   * cutLineColor = 'crimson',
+   * cropMarks = false,
+   * registrationMarks = false,
+   * slug = false,
+   * colorBar = false,
+   * markColor = 'rgb(0, 0, 0)',
+   * dimensions = false,
+   * dimensionColor = 'rgb(0, 0, 139)',
+   * dimensionPrecision = 2,
+   * numbering = 'row',
+   * label = '{number}', // a template, eq. '{job}-{number}', or a callback returning the text
+   * jobCode = '',
+   * labelSize = false
    * 
-   * @throws {Error} 
+   * @throws {LayoutValidationError} Its `field` is the refused property, eq. `config.paperColor`.
    * - Throws an **`error`** if the **`lineWidth`** is not **`positive number (< 0)`** or if any of the color values are invalid.
-   * - Throws an **`error`** if the **`paperColor`**, **`mainInnerColor`**, **`mainOuterColor`**, **`remainInnerColor`**, **`remainOuterColor`** 
-   *   values are **`invalid`**.
+   * - Throws an **`error`** if the **`dimensionPrecision`** is not an integer between `0` and `10`.
+   * - Throws an **`error`** if the **`numbering`** is not `row`, `column`, `serpentine` or `cut`, or if the **`label`** is neither a string nor a function.
+   * - Throws an **`error`** if the **`paperColor`**, **`mainInnerColor`**, **`mainOuterColor`**, **`remainInnerColor`**, **`remainOuterColor`**, 
+   *   **`bleedColor`**, **`kerfColor`**, **`edgeColor`**, **`offcutColor`**, **`cutLineColor`**, **`markColor`**, **`dimensionColor`** values are **`invalid`**.
    * @see 
    * + Configuration {@link ILayoutConfig interface}
    * + [Valid CSS Color](https://www.w3.org/wiki/CSS/Properties/color/keywords). 
@@ -235,16 +379,140 @@ export class CalculatorLayoutClass {
     });
   }
 
+  /**
+   * @public
+   * 
+   * Converts a length from one unit to another.
+   * @param {number} value - The length to convert.
+   * @param {LayoutUnit} from - The unit of the length.
+   * @param {LayoutUnit} to - The unit to convert to.
+   * @returns {number} The converted length.
+   * @example
+   * ```ts
+   * 
+   *  CalculatorLayoutClass.convert(21, 'cm', 'in'); // 8.2677...
+   *  CalculatorLayoutClass.convert(1, 'in', 'pt'); // 72
+   * 
+   * ```
+   */
+  public static convert(value: number, from: LayoutUnit, to: LayoutUnit): number {
+    return value * MILLIMETRES_PER_UNIT[from] / MILLIMETRES_PER_UNIT[to];
+  }
+
+  /**
+   *
+   * 
+   * Gets the ratio drawing the layout at its true size, one pixel per point (72 dpi).
+   * @returns {number} The number of pixels per input unit, eq. `28.346` for `cm`.
+   */
+  private _trueSizeRatio(): number {
+    return Math.round(28.346 * CalculatorLayoutClass.convert(1, this._unit, 'cm') * 1e6) / 1e6;
+  }
+
+  /**
+   *
+   * 
+   * Formats a length of the source as a physical SVG length in the output unit, eq. `65cm`.
+   * @param {number} value - The length, in the input unit.
+   * @returns {string} The length with its output unit.
+   */
+  private _physicalLength(value: number): string {
+    const unit = this.config.unit ?? this._unit;
+    const length = CalculatorLayoutClass.convert(value, this._unit, unit);
+    return `${Math.round(length * 10000) / 10000}${unit}`;
+  }
+
+  /**
+   *
+   * 
+   * Gets the usable area of the source, inside the sheet edges.
+   * @returns {IRectPlotConfig} The position and size of the usable area.
+   */
+  protected _usableArea(): IRectPlotConfig {
+    const edge = this._allowance.edge as Required<ISheetEdge>;
+    return {
+      x: edge.left,
+      y: edge.top,
+      width: this._source.width - edge.left - edge.right,
+      height: this._source.height - edge.top - edge.bottom
+    };
+  }
+
+  /**
+   *
+   * 
+   * Gets the space taken around every target, the margin and the bleed.
+   * @returns {ISquareSize} The space taken on each side of a target.
+   */
+  protected _pieceMargin(): ISquareSize {
+    return {
+      width: this._margin.width + this._allowance.bleed,
+      height: this._margin.height + this._allowance.bleed
+    };
+  }
+
+  /**
+   *
+   * 
+   * Adds the bleed rectangle around the inner rectangle, when a bleed is set.
+   * @param {IRectMatrixResult} rect - The rectangle to complete.
+   * @returns {IRectMatrixResult} The same rectangle.
+   */
+  protected _withBleed(rect: IRectMatrixResult): IRectMatrixResult {
+    const bleed = this._allowance.bleed;
+    if (bleed > 0) {
+      rect.bleed = {
+        x: rect.inner.x as number - bleed,
+        y: rect.inner.y as number - bleed,
+        width: rect.inner.width + (2 * bleed),
+        height: rect.inner.height + (2 * bleed)
+      };
+    }
+    return rect;
+  }
+
+  /**
+   *
+   * 
+   * Lists the orientations a target may be placed in without breaking the paper grain.
+   * A target keeps its orientation when its grain runs the same way as the source grain, and is rotated otherwise.
+   * @param {ISheetSize} [target=this._target] - The target to place.
+   * @returns {boolean[]} The allowed orientations, `true` is rotated by 90°. Both when the source or the target has no grain.
+   */
+  protected _allowedRotations(target: ISheetSize = this._target): boolean[] {
+    if (this._ignoreGrain || !this._source.grain || !target.grain) {
+      return [false, true];
+    }
+    return [target.grain !== this._source.grain];
+  }
+
+  /**
+   *
+   * 
+   * Runs a calculation with the paper grain rule lifted, to measure what the rule costs.
+   * @param {() => T} calculation - The calculation to run.
+   * @returns {T} The result of the calculation.
+   */
+  protected _withoutGrain<T>(calculation: () => T): T {
+    this._ignoreGrain = true;
+    try {
+      return calculation();
+    } finally {
+      this._ignoreGrain = false;
+    }
+  }
+
   /**
    *
    * 
    * Calculates the positions and dimensions of inner and outer rectangles within a grid matrix.
+   * Adjacent outer rectangles are spaced by the blade kerf.
    * @param {IRectMatrixResult[][]} rectMatrixArray - The matrix representing the grid.
-   * @param {IPaperLayoutSizing} sizing - The sizing information for outer, inner, and margin sizes.
+   * @param {IPaperLayoutSizing} sizing - The sizing information for outer, inner, margin and kerf sizes.
    * @param {boolean} [reverse=false] - Flag to reverse the width and height if needed.
    * @param {{ x: number; y: number }} [start] - The starting position for calculating rectangles.
    * @returns {IRectMatrixResult[]} An array of IRectMatrixResult, each representing a rectangle.
-   * @throws {Error} Throws an error if the rectMatrixArray is empty or undefined or not an array.
+   * @throws {LayoutCalculationError} Throws an error if the rectMatrixArray is empty or undefined or not an array.
    */
   private _buildRectMatrix(
     rectMatrixArray: IRectMatrixResult[][],
@@ -276,6 +544,8 @@ export class CalculatorLayoutClass {
       height: (reverse ? sizing.marginSize.width : sizing.marginSize.height)
     };
 
+    const kerf = sizing.kerfSize ? sizing.kerfSize.width : 0;
+
     for (let r = 0; r < rectMatrixArray.length; r++) {
       for (let c = 0; c < rectMatrixArray[r].length; c++) {
 
@@ -287,8 +557,8 @@ export class CalculatorLayoutClass {
 
         let outer = rectMatrixArray[r][c]['outer'];
         outer = {
-          x: (start ? start.x : 0) + c * outerSize.width, // plus start
-          y: (start ? start.y : 0) + r * outerSize.height, // plus start
+          x: (start ? start.x : 0) + c * (outerSize.width + kerf), // plus start
+          y: (start ? start.y : 0) + r * (outerSize.height + kerf), // plus start
           width: outerSize.width,
           height: outerSize.height
         };
@@ -301,7 +571,7 @@ export class CalculatorLayoutClass {
           height: innerSize.height
         };
 
-        results.push({ inner, outer, grid });
+        results.push(this._withBleed({ inner, outer, grid }));
       }
     }
     return results;
@@ -311,50 +581,138 @@ export class CalculatorLayoutClass {
    *
    * 
    * Calculates the remaining space on the source after placing the main grid of targets.
-   * It checks if the remaining space is enough to place more targets.
-   * @param {ISquareSize} source - The size of the source rectangle.
-   * @param {ISquareSize} container - The size of the container for the main grid.
+   * It fills every leftover region that is large enough to place more targets:
+   * + the `remain` strip, running along the full side of the source chosen by `placement`,
+   * + the `remainSecondary` strip, along the other side of the main grid,
+   * + the `remainCorner`, the unused end of the `remain` strip where both strips overlap.
+   * 
+   * Each region uses its own orientation, see {@link _fillRemainRegion}, and is kept a blade kerf away from the main grid.
+   * @param {IRectPlotConfig} area - The position and size of the usable area of the source, inside the sheet edges.
+   * @param {IRectPlotConfig} container - The position and size of the container for the main grid.
    * @param {ISquareSize} target - The size of the target rectangle.
-   * @param {ISquareSize} margin - The margin around the target rectangles.
-   * @returns {{ grid: IMatrixGrid, start: ILayoutCoords } | null} The grid and start position of the remaining part, or null if no space is left.
-   * @throws {Error} Throws an error if a negative `remainX` or `remainY` is calculated.
+   * @param {ISquareSize} margin - The margin around the target rectangles, including the bleed.
+   * @param {number} kerf - The blade kerf between adjacent targets.
+   * @param {RemainPlacement} [placement] - Run the `remain` strip along the `right` or `bottom` side.
+   * When omitted, both placements are tried and the one holding more targets is used (`right` on ties).
+   * @returns {{ regions: IRemainRegion[], placement: RemainPlacement } | null} The filled regions and the placement used, or null if no space is left.
+   * @throws {LayoutCalculationError} Throws an error if a negative `remainX` or `remainY` is calculated.
    */
   private _calculateRemain(
-    source: ISquareSize,
-    container: ISquareSize,
+    area: IRectPlotConfig,
+    container: IRectPlotConfig,
     target: ISquareSize,
-    margin: ISquareSize): { grid: IMatrixGrid, start: ILayoutCoords } | null {
+    margin: ISquareSize,
+    kerf: number,
+    placement?: RemainPlacement): { regions: IRemainRegion[], placement: RemainPlacement } | null {
 
+    const areaX = area.x as number;
+    const areaY = area.y as number;
+    const containerX = container.x as number;
+    const containerY = container.y as number;
+    const remainX = (areaX + area.width) - (containerX + container.width);
+    const remainY = (areaY + area.height) - (containerY + container.height);
 
-    let grid: IMatrixGrid,
-      start: ILayoutCoords,
-      result: { grid: IMatrixGrid, start: ILayoutCoords; } | null;
+    this._validateRemainXY(remainX, remainY);
 
-    const remainX = source.width - container.width;
-    const remainContainerX = { width: remainX, height: source.height };
-    const remainY = source.height - container.height;
-    const remainContainerY = { width: source.width, height: remainY };
+    if (!placement) {
+      const right = this._calculateRemain(area, container, target, margin, kerf, 'right');
+      const bottom = this._calculateRemain(area, container, target, margin, kerf, 'bottom');
+      const count = (remainer: { regions: IRemainRegion[] } | null) => {
+        return remainer ? remainer.regions.reduce((sum, region) => sum + region.grid.row * region.grid.column, 0) : 0;
+      };
+      return count(bottom) > count(right) ? bottom : right;
+    }
 
-    this._validateRemainXY(remainX, remainY);
+    const useRight = placement === 'right';
+    const regions: IRemainRegion[] = [];
 
-    const condition1 = remainY >= target.width;
-    const condition2 = remainX >= target.height;
-
-    if (condition2) {
-      // console.log('match with condition 2', condition2);
-      grid = this._crossCut(remainContainerX, target, margin);
-      start = { x: container.width, y: 0 };
-      result = { grid, start };
-    } else if (condition1) {
-      // console.log('match with condition 1', condition1);
-      grid = this._crossCut(remainContainerY, target, margin);
-      start = { x: 0, y: container.height };
-      result = { grid, start };
-    } else {
-      result = null;
+    /** The strips start one kerf after the main grid **/
+    const rightX = containerX + container.width + kerf;
+    const bottomY = containerY + container.height + kerf;
+
+    /** The strip running along the full side of the source **/
+    const primary = useRight
+      ? { x: rightX, y: areaY, width: remainX - kerf, height: area.height }
+      : { x: areaX, y: bottomY, width: area.width, height: remainY - kerf };
+    /** The strip along the other side of the main grid **/
+    const secondary = useRight
+      ? { x: containerX, y: bottomY, width: container.width, height: remainY - kerf }
+      : { x: rightX, y: containerY, width: remainX - kerf, height: container.height };
+
+    const primaryRegion = this._fillRemainRegion('remain', primary, target, margin, kerf);
+    const secondaryRegion = this._fillRemainRegion('remainSecondary', secondary, target, margin, kerf);
+
+    if (primaryRegion) {
+      regions.push(primaryRegion);
+
+      /** The unused end of the primary strip, where both strips overlap **/
+      const outer = {
+        width: (primaryRegion.reverse ? target.height + (2 * margin.height) : target.width + (2 * margin.width)),
+        height: (primaryRegion.reverse ? target.width + (2 * margin.width) : target.height + (2 * margin.height))
+      };
+      const usedWidth = primaryRegion.grid.column * (outer.width + kerf);
+      const usedHeight = primaryRegion.grid.row * (outer.height + kerf);
+      const corner = useRight
+        ? { x: primary.x, y: primary.y + usedHeight, width: primary.width, height: primary.height - usedHeight }
+        : { x: primary.x + usedWidth, y: primary.y, width: primary.width - usedWidth, height: primary.height };
+
+      const cornerRegion = this._fillRemainRegion('remainCorner', corner, target, margin, kerf);
+      if (cornerRegion) {
+        regions.push(cornerRegion);
+      }
     }
 
-    return result;
+    if (secondaryRegion) {
+      regions.push(secondaryRegion);
+    }
+
+    return regions.length > 0 ? { regions, placement } : null;
+  }
+
+  /**
+   *
+   * 
+   * Fills a single leftover region with as many targets as possible.
+   * Both orientations are tried and the one holding more targets is kept,
+   * the rotated orientation wins on ties (the original remainder behaviour).
+   * The rotated orientation is skipped when the paper grain forbids it, see {@link _allowedRotations}.
+   * @param {RemainGroup} key - The result group the region is returned in.
+   * @param {IRectPlotConfig} container - The position and size of the leftover region.
+   * @param {ISquareSize} target - The size of the target rectangle, oriented as in the main grid.
+   * @param {ISquareSize} margin - The margin around the target rectangles, oriented as in the main grid.
+   * @param {number} kerf - The blade kerf between adjacent targets.
+   * @returns {IRemainRegion | null} The filled region, or null if not a single target fits.
+   */
+  private _fillRemainRegion(
+    key: RemainGroup,
+    container: IRectPlotConfig,
+    target: ISquareSize,
+    margin: ISquareSize,
+    kerf: number): IRemainRegion | null {
+
+    if (container.width <= 0 || container.height <= 0) {
+      return null;
+    }
+
+    /** the main grid already runs with the grain, so rotating it is only allowed without a grain rule **/
+    const canRotate = this._allowedRotations().length > 1;
+    const sameGrid = this._inlineCut(container, target, margin, kerf);
+    const rotatedGrid = canRotate ? this._crossCut(container, target, margin, kerf) : { row: 0, column: 0 };
+    const sameCount = sameGrid.row * sameGrid.column;
+    const rotatedCount = rotatedGrid.row * rotatedGrid.column;
+
+    if (sameCount === 0 && rotatedCount === 0) {
+      return null;
+    }
+
+    const reverse = canRotate && rotatedCount >= sameCount;
+    return {
+      key,
+      container,
+      grid: reverse ? rotatedGrid : sameGrid,
+      start: { x: container.x as number, y: container.y as number },
+      reverse
+    };
   }
 
   /**
@@ -364,24 +722,24 @@ export class CalculatorLayoutClass {
    * @param {ISquareSize} source - The size of the source rectangle.
    * @param {ISquareSize} target - The size of the target rectangle.
    * @param {ISquareSize} margin - The margin around the target rectangles.
+   * @param {number} [kerf=0] - The blade kerf between adjacent targets, `n` targets take `n - 1` kerfs.
    * @returns {IMatrixGrid} The number of rows and columns that can fit.
-   * @throws {Error} Throws an error if a division by zero would occur.
+   * @throws {LayoutCalculationError} Throws an error if a division by zero would occur.
    */
-  private _inlineCut(source: ISquareSize, target: ISquareSize, margin: ISquareSize): IMatrixGrid {
+  private _inlineCut(source: ISquareSize, target: ISquareSize, margin: ISquareSize, kerf: number = 0): IMatrixGrid {
 
     this._validateDivisionByZero(target.width + (2 * margin.width));
     this._validateDivisionByZero(target.height + (2 * margin.height));
 
+    /** every target takes one kerf, the last one gets its kerf back from the source **/
     const input = {
-      width: target.width + (2 * margin.width),
-      height: target.height + (2 * margin.height)
+      width: target.width + (2 * margin.width) + kerf,
+      height: target.height + (2 * margin.height) + kerf
     };
 
-    const remainX = source.width % input.width;
-    const remainY = source.height % input.height;
-
-    const column = (source.width - remainX) / input.width;
-    const row = (source.height - remainY) / input.height;
+    /** count whole targets, a float remainder of `%` could leave a fractional count **/
+    const column = LayoutMathClass.count(source.width + kerf, input.width);
+    const row = LayoutMathClass.count(source.height + kerf, input.height);
     const grid = { row, column };
 
     return grid;
@@ -395,28 +753,28 @@ export class CalculatorLayoutClass {
     * @param {ISquareSize} source - The size of the source rectangle.
     * @param {ISquareSize} target - The size of the target rectangle.
     * @param {ISquareSize} margin - The margin around the target rectangles.
+    * @param {number} [kerf=0] - The blade kerf between adjacent targets, `n` targets take `n - 1` kerfs.
     * @returns {IMatrixGrid} The number of rows and columns that can fit in the grid.
     *                         The `row` property represents the number of rows, and the `column` property represents the number of columns.
-    * @throws {Error} Throws an error if a division by zero would occur due to zero or negative dimensions.
+    * @throws {LayoutCalculationError} Throws an error if a division by zero would occur due to zero or negative dimensions.
     */
   private _crossCut(
     source: ISquareSize,
     target: ISquareSize,
-    margin: ISquareSize): IMatrixGrid {
+    margin: ISquareSize,
+    kerf: number = 0): IMatrixGrid {
 
     this._validateDivisionByZero(target.width + (2 * margin.width));
     this._validateDivisionByZero(target.height + (2 * margin.height));
 
+    /** every target takes one kerf, the last one gets its kerf back from the source **/
     const input = {
-      width: target.width + (2 * margin.width),
-      height: target.height + (2 * margin.height)
+      width: target.width + (2 * margin.width) + kerf,
+      height: target.height + (2 * margin.height) + kerf
     };
 
-    const remainX = source.width % input.height;
-    const remainY = source.height % input.width;
-
-    const column = (source.width - remainX) / input.height;
-    const row = (source.height - remainY) / input.width;
+    const column = LayoutMathClass.count(source.width + kerf, input.height);
+    const row = LayoutMathClass.count(source.height + kerf, input.width);
     const grid = { row, column };
 
     return grid;
@@ -427,91 +785,111 @@ export class CalculatorLayoutClass {
    * 
    * Generates the layout of rectangles based on the calculated grid and sizing information.
    * It calculates the positions and dimensions of the main grid and the remaining rectangles.
+   * The main grid starts at the top-left corner of the usable area, inside the sheet edges.
    * @param {IMatrixGrid} grid - The grid information (rows, columns) for the main layout.
-   * @param {IPaperLayoutSizing} sizing - The sizing information for source, outer, inner, and margin sizes.
-   * @returns {{ ILayoutResult }} An object containing the main and optional remaining rectangles.
-   * @throws {Error} Throws an error if the number of rows or columns in the grid is zero or negative.
+   * @param {IPaperLayoutSizing} sizing - The sizing information for source, outer, inner, margin and kerf sizes.
+   * @param {RemainPlacement} [placement] - The placement of the leftover strips, see {@link _calculateRemain}.
+   * @returns {{ layout: ILayoutResult, placement?: RemainPlacement }} An object containing the main and optional remaining rectangles, with the placement used for the remainder.
+   * @throws {LayoutFitError} Throws an error if the number of rows or columns in the grid is zero or negative.
    */
-  private _generateLayoutMatrix(grid: IMatrixGrid, sizing: IPaperLayoutSizing): ILayoutResult {
-    let remain: IRectMatrixResult[] | undefined, main;
+  private _generateLayoutMatrix(grid: IMatrixGrid, sizing: IPaperLayoutSizing, placement?: RemainPlacement): { layout: ILayoutResult, placement?: RemainPlacement } {
+    let main;
     // console.log('sizing: ', sizing);
     this._validateGrid(grid);
 
+    const area = this._usableArea();
+    const kerf = this._allowance.kerf;
     const mainMatrix = Array(grid.row).fill(Array(grid.column).fill({ inner: {}, outer: {}, grid: {} }));
-    main = this._buildRectMatrix(mainMatrix, sizing);
+    main = this._buildRectMatrix(mainMatrix, sizing, false, { x: area.x as number, y: area.y as number });
     const mainContainer = {
-      x: 0,
-      y: 0,
-      width: sizing.outerSize.width * grid.column,
-      height: sizing.outerSize.height * grid.row
+      x: area.x,
+      y: area.y,
+      width: (sizing.outerSize.width * grid.column) + (kerf * (grid.column - 1)),
+      height: (sizing.outerSize.height * grid.row) + (kerf * (grid.row - 1))
     };
 
-    const remainer = this._calculateRemain(sizing.source, mainContainer, sizing.innerSize, sizing.marginSize);
+    const remainer = this._calculateRemain(area, mainContainer, sizing.innerSize, sizing.marginSize, kerf, placement);
 
-    if (remainer && remainer.grid && remainer.grid.row > 0 && remainer.grid.column > 0) {
-      const remainMatrix = Array(remainer.grid.row).fill(Array(remainer.grid.column).fill({ inner: {}, outer: {}, grid: {} }));
-      remain = this._buildRectMatrix(remainMatrix, sizing, true, remainer.start);
-      return { main, remain: remain ?? [] };
+    if (remainer) {
+      const layout: ILayoutResult = { main };
+      /** Build each leftover region into its own group **/
+      remainer.regions.forEach((region) => {
+        const remainMatrix = Array(region.grid.row).fill(Array(region.grid.column).fill({ inner: {}, outer: {}, grid: {} }));
+        layout[region.key] = this._buildRectMatrix(remainMatrix, sizing, region.reverse, region.start);
+      });
+      return { layout, placement: remainer.placement };
     } else {
-      return { main };
+      return { layout: { main } };
     }
   }
 
   /**
-   * @public
-   * 
-   * Calculates the layout of rectangles based on the source, target, and margin sizes.
-   * It determines the optimal arrangement of target rectangles within the source rectangle,
-   * considering the specified margin and whether to use inline or cross-cutting methods.
-   * @returns {{ main: IRectMatrixResult[]; remain?: IRectMatrixResult[]; total: number }} An object containing the main and optional remaining rectangles, along with the total number of rectangles.
-   * @throws {Error} Throws an `error` if the number of rows or columns in the grid is zero or negative.
    *
-   * @example
-   * ```ts
-   * 
-   *  // class declaration
-   *  const calculator = new CalculatorLayoutClass(A, B, C);
-   *  // run the method         
-   *  result = calculator.calculate(); 
-   *  // calculation results
-   *  console.log(`Calculation result :`, result);
    * 
-   *  ```
-   *  @see
-   *  - Output {@link ILayoutResult Interface}.
+   * Calculates the layout for a single cutting method and remainder placement.
+   * @param {LayoutMethod} method - The cutting method of the main grid (`inline`, `cross` or `guillotine`).
+   * @param {RemainPlacement} [placement] - The placement of the remainder block, see {@link _calculateRemain}. Ignored by the `guillotine` method.
+   * @returns {ILayoutResult & { total: number }} The layout, its total number of rectangles and the arrangement used as `strategy`.
+   * @throws {LayoutFitError} Throws an `error` if the number of rows or columns in the grid is zero or negative,
+   * or if the method places the targets against the paper grain.
    */
-  public calculate(): ILayoutResult & { total: number; } {
+  private _calculateMethod(method: LayoutMethod, placement?: RemainPlacement): ILayoutResult & { total: number; } {
+
+    if (method === 'guillotine') {
+      return this._calculateGuillotine();
+    }
 
-    // console.log('from Calculate() method');
     let results, grid: IMatrixGrid, layout: ILayoutResult;
     let total = 0;
+    const useInline = method === 'inline';
+
+    if (!this._allowedRotations().includes(!useInline)) {
+      throw new LayoutFitError(`The ${method} method places the targets against the paper grain.`, 'target.grain', 'against-grain', {
+        method,
+        source: this._source.grain,
+        target: this._target.grain
+      });
+    }
+    /** the bleed is taken around every target like the margin **/
+    const margin = this._pieceMargin();
+    const area = this._usableArea();
+    const kerf = this._allowance.kerf;
+    const bleed = this._allowance.bleed;
 
     const innerSize = {
-      width: this._useInline ? this._target.width : this._target.height,
-      height: this._useInline ? this._target.height : this._target.width
+      width: useInline ? this._target.width : this._target.height,
+      height: useInline ? this._target.height : this._target.width
     };
 
     const outerSize = {
-      width: this._useInline ? this._target.width + (2 * this._margin.width) : this._target.height + (2 * this._margin?.height),
-      height: this._useInline ? this._target.height + (2 * this._margin.height) : this._target.width + (2 * this._margin?.width)
+      width: useInline ? this._target.width + (2 * margin.width) : this._target.height + (2 * margin.height),
+      height: useInline ? this._target.height + (2 * margin.height) : this._target.width + (2 * margin.width)
     };
 
     const marginSize = {
-      width: this._useInline ? this._margin?.width : this._margin?.height,
-      height: this._useInline ? this._margin?.height : this._margin?.width
+      width: useInline ? margin.width : margin.height,
+      height: useInline ? margin.height : margin.width
     };
 
-    if (this._useInline) {
-      grid = this._inlineCut(this._source, this._target, this._margin);
+    if (useInline) {
+      grid = this._inlineCut(area, this._target, margin, kerf);
     } else {
-      grid = this._crossCut(this._source, this._target, this._margin);
+      grid = this._crossCut(area, this._target, margin, kerf);
     }
 
     this._validateGrid(grid);
 
 
-    const sizing = { source: this._source, outerSize, innerSize, marginSize };
-    layout = this._generateLayoutMatrix(grid, sizing);
+    const sizing = {
+      source: area,
+      outerSize,
+      innerSize,
+      marginSize,
+      bleedSize: { width: bleed, height: bleed },
+      kerfSize: { width: kerf, height: kerf }
+    };
+    const generated = this._generateLayoutMatrix(grid, sizing, placement);
+    layout = generated.layout;
 
     Object.keys(layout).forEach(key => {
       if (key in layout) {
@@ -519,453 +897,2244 @@ export class CalculatorLayoutClass {
       }
     });
 
-    results = Object.assign({}, layout, { total });
+    const strategy: ILayoutCandidate = { method, placement: generated.placement, total };
+    results = Object.assign({}, layout, { total, strategy });
     // console.log(`Results :`, results);
     return results;
   }
 
   /**
-   * @public
+   *
    * 
-   * Draws the calculated layout on the canvas and returns `HTMLCanvasElement` data.
+   * Calculates the layout with the recursive {@link GuillotineSolverClass guillotine solver}.
    * @remarks
-   * - It first calculates the layout, then draws the main and remaining rectangles,
-   * - and finally returns the Canvas drawing data as either a base64 encoded string or a raw Canvas string.
-   * 
-   * *`note`: When generating layouts as a `<canvas/>`, please note that canvas elements are pixel-based. 
-   * This means that the canvas will need to be __resized exponentially__ to achieve the actual size `(1px x 28,346 = 1cm)`. 
-   * which can impact rendering and generating performance and will produce bigger file sizes.
-   * Make sure the {@link _source __canvas size__} and {@link config __ratio__} you use are optimized for performance and provide the best possible user experience.*
-   * 
-   * @param {boolean} [resourceURL=true] 
-   * + If `true`, returns is a base64 encoded data URL.
-   * + If `false`, returns the raw Canvas string. Defaults to `true`.
-   * @defaultValue 
-   * >*resourceURL*: `boolean` =  `true`
-   * @returns {string | HTMLCanvasElement} The data as either a base64 encoded data URL or a raw `HTMLCanvasElement` string.
-   * @throws Throws an `error` if there is an issue during the drawing process.
-   * @example
-   * + Class Declaration
-   * ```ts
-   * 
-   *  // class declaration
-   *  const calculator = new CalculatorLayoutClass(A, B, C);
-   *  // calculate layout. 
-   *  const result = calculator.calculate(); 
-   * 
-   * ```
-   * + `drawing` output as **`base64 .jpeg`**
-   * ```ts
-   * 
-   *  // draw layout
-   *  const layout = calculator.drawCanvas(); // ** this will return base64Image **
-   *  // base64 .jpeg result
-   *  console.log(`image url :`, layout);
-   *  
-   * ```
-   * + `drawing` output as **`<canvas/>`** element
-   * ```ts
-   * 
-   *  // ** If you need to returned `<canvas/>` element, set `param` to `false` **
-   *  const canvasElement: HTMLCanvasElement = calculator.drawCanvas(false);
-   *  
-   *  console.log(`canvas :`, canvasElement);
-   *  
-   *  ```
-   * *`note`: You can skip `calculate()` method if you want, drawing will automatically calculating the layout to plot the rects in.
+   * - The source is split edge to edge into sub-rectangles, each filled with a plain grid in its best orientation.
+   * - Targets in the orientation used the most are returned in `main`, the rotated ones in `remain`.
+   * - The ordered cuts that produce the layout are returned in `cuts`, each one running through the middle of its blade kerf.
+   * - The solver works on the usable area and the outer size both grown by one kerf, so `n` targets take `n - 1` kerfs.
+   * - Only the orientations allowed by the paper grain are used.
+   * @returns {ILayoutResult & { total: number }} The layout, its total number of rectangles, the arrangement used as `strategy` and the `cuts`.
+   * @throws {LayoutFitError} Throws an `error` if not a single target fits in the source.
    */
-  public drawCanvas(resourceURL: boolean = true): string | HTMLCanvasElement {
-    /** Variable Declaration **/
-    const ratio = this.config.ratio as number;
-    const width = this._source.width * ratio;
-    const height = this._source.height * ratio;
-    const lineWidth = this.config.lineWidth as number * ratio;
-    const mainOuterColor = this.config.mainOuterColor as string;
-    const mainInnerColor = this.config.mainInnerColor as string;
-    const remainOuterColor = this.config.remainOuterColor as string;
-    const remainInnerColor = this.config.remainInnerColor as string;
-    const paperColor = this.config.paperColor as string;
-    const strokeColor = this.config.strokeColor as string;
-
-    /** Alert a warning message due too high ratio **/
-    if (ratio > 28.346) {
-      const msg = `Generated Layout has exceeded the actual size (px to cm).\nImage rendering performance will be impacted\ndue to high Ratio ( >28,346 ).`
-      alert(msg);
-    }
-
-    /** initialize canvas drawing by first creating paper using size of the source **/
-    this._Element = document.createElement('canvas') as HTMLCanvasElement;
-    const canvas = this._Element;
-    canvas.setAttribute('id', 'calculation-layout');
-    canvas.width = width;
-    canvas.height = height;
-
-    /** creating canvas context **/
-    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  private _calculateGuillotine(): ILayoutResult & { total: number; } {
+    const margin = this._pieceMargin();
+    const area = this._usableArea();
+    const kerf = this._allowance.kerf;
+    const areaX = area.x as number;
+    const areaY = area.y as number;
+
+    const cellSize = {
+      width: this._target.width + (2 * margin.width) + kerf,
+      height: this._target.height + (2 * margin.height) + kerf
+    };
 
-    /* Draw Paper rect */
-    context.lineWidth = lineWidth as number;
-    context.fillStyle = paperColor;
-    context.beginPath();
-    context.rect(0, 0, width, height);
-    context.fill();
-    context.strokeStyle = strokeColor;
-    context.lineWidth = lineWidth;
-    context.stroke();
-    context.save();
+    const solver = new GuillotineSolverClass({ width: area.width + kerf, height: area.height + kerf }, cellSize, this._allowedRotations());
+    const solution = solver.solve();
+
+    this._validatePlaced(solution.count);
+
+    const same: IRectMatrixResult[] = [];
+    const rotated: IRectMatrixResult[] = [];
+
+    solution.placements.forEach((placement) => {
+      const marginWidth = placement.rotated ? margin.height : margin.width;
+      const marginHeight = placement.rotated ? margin.width : margin.height;
+      const x = areaX + placement.x;
+      const y = areaY + placement.y;
+      const width = placement.width - kerf;
+      const height = placement.height - kerf;
+      const rect: IRectMatrixResult = this._withBleed({
+        outer: { x, y, width, height },
+        inner: {
+          x: x + marginWidth,
+          y: y + marginHeight,
+          width: width - (2 * marginWidth),
+          height: height - (2 * marginHeight)
+        },
+        grid: { row: placement.row, column: placement.column }
+      });
+      (placement.rotated ? rotated : same).push(rect);
+    });
 
-    try {
+    /** move the cuts into the source, through the middle of the kerf **/
+    const cuts = solution.cuts.map((cut) => {
+      const offset = cut.axis === 'vertical' ? areaX : areaY;
+      const across = cut.axis === 'vertical' ? areaY : areaX;
+      return Object.assign({}, cut, {
+        position: offset + cut.position - (kerf / 2),
+        start: across + cut.start,
+        end: across + cut.end - kerf
+      });
+    });
 
-      const calculation = this.calculate();
-      const mainRects = calculation.main;
-      const remainRects = calculation.remain;
+    /** the orientation used the most becomes the main group **/
+    const [main, remain] = rotated.length > same.length ? [rotated, same] : [same, rotated];
+    const layout: ILayoutResult = remain.length > 0 ? { main, remain } : { main };
+    const total = solution.count;
+    const strategy: ILayoutCandidate = { method: 'guillotine', total };
 
-      /**  Draw Layout for Main Plot **/
-      this._plottingCanvasRectLayout(context, mainRects, 0, mainOuterColor, mainInnerColor);
-      if (remainRects) {
-        /** Draw Layout for Remain Plot **/
-        this._plottingCanvasRectLayout(context, remainRects, mainRects.length, remainOuterColor, remainInnerColor);
-      }
+    return Object.assign(layout, { total, strategy, cuts });
+  }
 
-      context.restore();
-      // console.log('Context 2D: ', this.ctx);
-      if (resourceURL) {
-        // return `base64 Image`
-        const base64image = canvas.toDataURL('image/jpeg', 1.0);
-        return base64image;
-      } else {
-        // return `HtmlCanvasElement`
-        return canvas;
+  /**
+   *
+   *
+   * Calculates every cutting method with every remainder placement.
+   * @remarks
+   * - Arrangements whose main grid can't hold a single target are skipped, they are listed in `candidates` with a `total` of `0`.
+   *   Only a {@link LayoutFitError} or a {@link LayoutValidationError} skips an arrangement, any other error is thrown.
+   * - The `guillotine` method is evaluated last, it has no remainder placement.
+   * @returns {{ results: (ILayoutResult & { total: number })[]; candidates: ILayoutCandidate[]; error?: unknown }} The layouts that hold targets,
+   * in evaluation order (`inline` before `cross` before `guillotine`, `right` before `bottom`), every evaluated arrangement
+   * and the `error` of the last arrangement that failed.
+   */
+  private _calculateEvery(): { results: (ILayoutResult & { total: number; })[]; candidates: ILayoutCandidate[]; error?: unknown; } {
+    const methods: LayoutMethod[] = ['inline', 'cross', 'guillotine'];
+    const placements: RemainPlacement[] = ['right', 'bottom'];
+    const results: (ILayoutResult & { total: number; })[] = [];
+    const candidates: ILayoutCandidate[] = [];
+    let error: unknown;
+
+    for (const method of methods) {
+      for (const placement of (method === 'guillotine' ? [undefined] : placements)) {
+        try {
+          const result = this._calculateMethod(method, placement);
+          candidates.push({ method, placement, total: result.total });
+          results.push(result);
+        } catch (e) {
+          /** skip arrangements that can't hold a single target, any other error is a bug to report **/
+          if (!(e instanceof LayoutFitError) && !(e instanceof LayoutValidationError)) {
+            throw e;
+          }
+          error = e;
+          candidates.push({ method, placement, total: 0 });
+        }
       }
-
-    } catch (error) {
-      throw new Error(`Error in drawing process ${error}`);
     }
 
-
+    return { results, candidates, error };
   }
 
   /**
    *
    * 
-   * Plots the rectangles in the layout on the canvas.
+   * Tries every cutting method with every remainder placement and keeps the arrangement with the highest `total`.
    * @remarks
-   * - It first draws the outer rectangles if the margin is greater than 0, and then draws the inner rectangles.
-   * - It also draws the stroke and fills the rectangles with the specified colors.
-   * - Finally, it draws the text on the inner rectangles using the specified font and text color.
-   * @param {CanvasRenderingContext2D} context - The 2D rendering context for drawing on the canvas.
-   * @param {IRectMatrixResult[]} rectangles - An array of IRectMatrixResult, each representing a rectangle.
-   * @param {number} startIndex - The starting index for drawing the text on the inner rectangles.
-   * @param {string} outerColor - The color for drawing the outer rectangles.
-   * @param {string} innerColor - The color for drawing the inner rectangles.
+   * - See {@link _calculateEvery} for the evaluated arrangements.
+   * - When several arrangements share the highest `total`, the first one evaluated wins (`inline` before `cross` before `guillotine`, `right` before `bottom`).
+   * @returns {ILayoutResult & { total: number }} The best layout, with every evaluated arrangement listed in `candidates`.
+   * @throws {LayoutError} Throws the `error` of the last arrangement when none of them can hold a single target.
    */
-  private _plottingCanvasRectLayout(
-    context: CanvasRenderingContext2D,
-    rectangles: IRectMatrixResult[],
-    startIndex: number,
-    outerColor: string,
-    innerColor: string): void {
-    /** Variable declarations **/
-    const ratio = this.config.ratio as number;
-    const marginWidth = this._margin.width * ratio;
-    const marginHeight = this._margin.height * ratio;
-    const strokeColor = this.config.strokeColor as string;
-    const lineWidth = this.config.lineWidth as number * ratio;
-    const textColor = this.config.textColor as string;
+  private _calculateAuto(): ILayoutResult & { total: number; } {
+    const { results, candidates, error } = this._calculateEvery();
+
+    if (results.length === 0) {
+      throw error;
+    }
+    const best = results.reduce((best, result) => result.total > best.total ? result : best);
+
+    /** sort from the highest total, keeping the evaluation order on ties **/
+    candidates.sort((a, b) => b.total - a.total);
+    return Object.assign(best, { candidates });
+  }
+
+  /**
+   * @public
+   * 
+   * Calculates the layout of rectangles based on the source, target, and margin sizes.
+   * It determines the optimal arrangement of target rectangles within the source rectangle,
+   * considering the specified margin and the {@link LayoutStrategy strategy} given to the constructor.
+   * + `inline` or `cross` : only that cutting method is used.
+   * + `guillotine` : the source is recursively split edge to edge, the ordered cuts are returned in `cuts`.
+   * + `auto` : every cutting method and both remainder placements are tried, the arrangement with the highest `total` wins.
+   * 
+   * When both the source and the target have a grain, targets are only placed with the grain,
+   * and `grain` reports how many targets the same strategy would place when rotating freely.
+   * 
+   * The waste and yield of the layout are returned in `statistics`, see {@link statistics}.
+   * @returns {{ main: IRectMatrixResult[]; remain?: IRectMatrixResult[]; total: number; strategy: ILayoutCandidate; candidates?: ILayoutCandidate[] }} 
+   * An object containing the main and optional remaining rectangles, along with the total number of rectangles,
+   * the winning arrangement as `strategy` and, in `auto` strategy, the score of every evaluated arrangement as `candidates`.
+   * @throws {LayoutFitError} Throws an `error` if the number of rows or columns in the grid is zero or negative,
+   * or if the strategy can only place the targets against the paper grain.
+   *
+   * @example
+   * ```ts
+   * 
+   *  // class declaration
+   *  const calculator = new CalculatorLayoutClass(A, B, C, 'auto');
+   *  // run the method         
+   *  result = calculator.calculate(); 
+   *  // calculation results
+   *  console.log(`Calculation result :`, result);
+   *  // winning arrangement, eq. { method: 'cross', placement: 'right', total: 8 }
+   *  console.log(`Strategy :`, result.strategy);
+   * 
+   *  ```
+   *  @see
+   *  - Output {@link ILayoutResult Interface}.
+   */
+  public calculate(): ILayoutResult & { total: number; } {
+
+    // console.log('from Calculate() method');
+    const run = () => this._strategy === 'auto' ? this._calculateAuto() : this._calculateMethod(this._strategy as LayoutMethod);
+    const result = run();
+
+    /** Report what the grain rule cost against the same strategy rotating freely **/
+    if (this._allowedRotations().length === 1) {
+      const unconstrained = this._withoutGrain(run).total;
+      result.grain = {
+        source: this._source.grain,
+        target: this._target.grain,
+        unconstrained,
+        lost: Math.max(unconstrained - result.total, 0)
+      };
+    }
+
+    result.statistics = this.statistics(result);
+    return result;
+  }
+  /**
+   * @public
+   *
+   * Calculates every cutting method with every remainder placement, whatever the strategy given to the constructor,
+   * to compare the arrangements side by side before picking one.
+   * @remarks
+   * - Arrangements that can't hold a single target are left out, a placement that left no remainder is only listed once.
+   * - Each layout has its `statistics`, see {@link statistics}.
+   * - The first layout is the one the `auto` strategy picks.
+   * @returns {(ILayoutResult & { total: number })[]} The layouts, from the highest `total`, keeping the evaluation order on ties.
+   * @throws {LayoutFitError} Throws an `error` if none of the arrangements can hold a single target.
+   *
+   * @example
+   * ```ts
+   *
+   *  calculator.alternatives().forEach((layout) => {
+   *    // eq. cross / right : 8 (waste 41.2%)
+   *    console.log(`${layout.strategy?.method} / ${layout.strategy?.placement} : ${layout.total} (waste ${100 - layout.statistics!.utilisation}%)`);
+   *  });
+   *
+   *  ```
+   */
+  public alternatives(): (ILayoutResult & { total: number; })[] {
+    const { results, error } = this._calculateEvery();
+    if (results.length === 0) {
+      throw error;
+    }
+
+    const seen = new Set<string>();
+    return results
+      .filter((result) => {
+        const key = `${result.strategy?.method}/${result.strategy?.placement}`;
+        return !seen.has(key) && !!seen.add(key);
+      })
+      .map((result) => Object.assign(result, { statistics: this.statistics(result) }))
+      .sort((a, b) => b.total - a.total);
+  }
+
+
+  /**
+   * @public
+   * 
+   * Computes the waste and yield of a layout from its rectangles.
+   * @remarks
+   * - The `usedArea` is the trim area of the targets, everything else on the source is `wasteArea`.
+   * - The waste is split into the margins, the bleed, the blade kerf, the sheet edges and the offcuts.
+   * - The offcuts are the free rectangles of the usable area left after cutting, a blade kerf away from every target.
+   * @param {ILayoutResult} [layout] - The layout to measure, eq. a sheet of a {@link CalculatorPlanClass plan}. Defaults to a new {@link calculate calculation}.
+   * @returns {ILayoutStatistics} The statistics of the layout.
+   * @throws {LayoutError} Throws an `error` if no layout is given and the calculation fails.
+   *
+   * @example
+   * ```ts
+   * 
+   *  const stats = calculator.statistics();
+   *  console.log(`Utilisation : ${stats.utilisation}%`);
+   *  // the largest offcut, eq. { x: 46, y: 0, width: 19, height: 100 }
+   *  console.log(`Offcut :`, stats.offcuts[0]);
+   * 
+   *  ```
+   */
+  public statistics(layout?: ILayoutResult): ILayoutStatistics {
+    const calculation = layout ?? this.calculate();
+    const rects = [calculation.main, ...this._remainGroups(calculation)].flat();
+    const usable = this._usableArea();
+    const area = (rect: IRectPlotConfig) => rect.width * rect.height;
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+    const sheetArea = this._source.width * this._source.height;
+    const usableArea = area(usable);
+    const outerArea = rects.reduce((sum, rect) => sum + area(rect.outer), 0);
+    const bleedOuterArea = rects.reduce((sum, rect) => sum + area(rect.bleed ?? rect.inner), 0);
+    const usedArea = rects.reduce((sum, rect) => sum + area(rect.inner), 0);
+    const offcuts = this._offcuts(rects.map((rect) => rect.outer));
+    const offcutArea = offcuts.reduce((sum, offcut) => sum + area(offcut), 0);
+
+    return {
+      sheetArea: round(sheetArea),
+      usableArea: round(usableArea),
+      usedArea: round(usedArea),
+      wasteArea: round(sheetArea - usedArea),
+      marginArea: round(outerArea - bleedOuterArea),
+      bleedArea: round(bleedOuterArea - usedArea),
+      kerfArea: round(Math.max(usableArea - outerArea - offcutArea, 0)),
+      edgeArea: round(sheetArea - usableArea),
+      offcutArea: round(offcutArea),
+      utilisation: Math.round((usedArea / sheetArea) * 10000) / 100,
+      offcuts
+    };
+  }
+
+  /**
+   *
+   * 
+   * Splits the free space of the usable area into offcuts.
+   * @remarks
+   * - Every target takes a blade kerf on its right and bottom side, cutting it off an offcut costs that kerf.
+   * - The free space is split on the edges of the targets, then the free cells are merged row by row into rectangles.
+   * @param {IRectPlotConfig[]} rects - The outer rectangles of the placed targets.
+   * @returns {IRectPlotConfig[]} The offcuts, from the largest.
+   */
+  private _offcuts(rects: IRectPlotConfig[]): IRectPlotConfig[] {
+    const usable = this._usableArea();
+    const kerf = this._allowance.kerf;
+    const left = usable.x as number;
+    const top = usable.y as number;
+    const right = left + usable.width;
+    const bottom = top + usable.height;
+    const { EPSILON } = LayoutMathClass;
+
+    /** the targets with their kerf, clipped to the usable area **/
+    const taken = rects.map((rect) => ({
+      x1: rect.x as number,
+      y1: rect.y as number,
+      x2: Math.min((rect.x as number) + rect.width + kerf, right),
+      y2: Math.min((rect.y as number) + rect.height + kerf, bottom)
+    }));
+
+    const unique = (values: number[]) => values
+      .sort((a, b) => a - b)
+      .filter((value, i, sorted) => i === 0 || value - sorted[i - 1] > EPSILON);
+    const xs = unique([left, right, ...taken.flatMap((rect) => [rect.x1, rect.x2])]);
+    const ys = unique([top, bottom, ...taken.flatMap((rect) => [rect.y1, rect.y2])]);
+    const indexOf = (values: number[], value: number) => values.findIndex((v) => Math.abs(v - value) <= EPSILON);
+
+    /** mark the cells covered by a target **/
+    const free = ys.slice(1).map(() => xs.slice(1).map(() => true));
+    taken.forEach((rect) => {
+      for (let r = indexOf(ys, rect.y1); r < indexOf(ys, rect.y2); r++) {
+        for (let c = indexOf(xs, rect.x1); c < indexOf(xs, rect.x2); c++) {
+          free[r][c] = false;
+        }
+      }
+    });
+
+    /** merge the free cells, first along the row then down as long as the whole span is free **/
+    const offcuts: IRectPlotConfig[] = [];
+    for (let r = 0; r < free.length; r++) {
+      for (let c = 0; c < free[r].length; c++) {
+        if (!free[r][c]) {
+          continue;
+        }
+        let endColumn = c;
+        while (endColumn + 1 < free[r].length && free[r][endColumn + 1]) {
+          endColumn++;
+        }
+        let endRow = r;
+        while (endRow + 1 < free.length && free[endRow + 1].slice(c, endColumn + 1).every(Boolean)) {
+          endRow++;
+        }
+        for (let rr = r; rr <= endRow; rr++) {
+          for (let cc = c; cc <= endColumn; cc++) {
+            free[rr][cc] = false;
+          }
+        }
+        offcuts.push({ x: xs[c], y: ys[r], width: xs[endColumn + 1] - xs[c], height: ys[endRow + 1] - ys[r] });
+      }
+    }
+
+    return offcuts
+      .filter((offcut) => offcut.width > EPSILON && offcut.height > EPSILON)
+      .sort((a, b) => (b.width * b.height) - (a.width * a.height));
+  }
+
+  /**
+   * @public
+   *
+   * Derives the cutting instructions of a layout, the ordered edge to edge cuts of a guillotine cutter.
+   * @remarks
+   * - The split between the `main` grid and the leftover regions is cut first, then the rows, then the columns of every group.
+   * - On each stack the cut farthest from the back gauge comes first, its `gauge` is the distance from the back gauge to the blade.
+   * - A stack is turned by 90° (`rotate`) when it is cut along the other axis than its last cut.
+   * - Targets spaced by a blade kerf are parted by a single cut, wider gaps (margins, bleed) by one cut along each target.
+   * See {@link CutSequenceClass}.
+   * @param {ILayoutResult} [layout] - The layout to cut, eq. a sheet of a {@link CalculatorPlanClass plan}. Defaults to a new {@link calculate calculation}.
+   * @returns {ILayoutCutStep[]} The ordered cuts.
+   * @throws {LayoutError} Throws an `error` if no layout is given and the calculation fails.
+   *
+   * @example
+   * ```ts
+   *
+   *  const steps = calculator.cutSequence();
+   *  // eq. { step: 1, stack: 1, axis: 'vertical', gauge: 46, kind: 'split', rotate: false, ... }
+   *  console.log(`First cut :`, steps[0]);
+   *
+   *  ```
+   */
+  public cutSequence(layout?: ILayoutResult): ILayoutCutStep[] {
+    return this._cutSequence(layout ?? this.calculate()).steps();
+  }
+
+  /**
+   * @public
+   *
+   * Writes the {@link cutSequence cutting instructions} of a layout as a printable text sheet, one line per cut.
+   * @param {ILayoutResult} [layout] - The layout to cut. Defaults to a new {@link calculate calculation}.
+   * @param {number} [precision=2] - The number of decimals of the lengths.
+   * @returns {string} The cutting instructions.
+   * @throws {LayoutError} Throws an `error` if no layout is given and the calculation fails.
+   *
+   * @example
+   * ```ts
+   *
+   *  console.log(calculator.cutInstructions());
+   *  // Step  Stack  Size            Turn  Cut         Gauge (cm)  Parts
+   *  // 1     #1     65.00 x 100.00        vertical    46.00       split main
+   *
+   *  ```
+   */
+  public cutInstructions(layout?: ILayoutResult, precision: number = 2): string {
+    return this._cutSequence(layout ?? this.calculate()).instructions(precision);
+  }
+  /**
+   * @public
+   *
+   * Lists the drawn targets in the configured `numbering` order, with the values and the text of their label.
+   * @remarks
+   * The number of a target is the `N` of its `<g id="cutting-block-N">` group in an SVG drawing (also set as `data-number`),
+   * so a drawing can be mapped back to the {@link IRectMatrixResult rectangles} behind it, eq. to select or mark pieces on screen.
+   * @param {ILayoutResult} [layout] - The drawn layout. Defaults to a new {@link calculate calculation}.
+   * @returns {ILayoutPiece[]} The targets, by number.
+   * @throws {LayoutError} Throws an `error` if no layout is given and the calculation fails.
+   *
+   * @example
+   * ```ts
+   *
+   *  const pieces = calculator.pieces(result);
+   *  svgElement.addEventListener('click', (event) => {
+   *    const block = (event.target as Element).closest('.cutting-block');
+   *    const piece = pieces[Number(block?.getAttribute('data-number')) - 1];
+   *    console.log(`Clicked :`, piece?.rect);
+   *  });
+   *
+   *  ```
+   */
+  public pieces(layout?: ILayoutResult): ILayoutPiece[] {
+    const calculation = layout ?? this.calculate();
+    return [...this._pieceLabels(calculation, this._plotGroups(calculation)).values()].sort((a, b) => a.number - b.number);
+  }
+
+
+  /**
+   *
+   *
+   * Prepares the cutting instructions of a layout, every result group keeps its own key.
+   * @param {ILayoutResult} calculation - The layout to cut.
+   * @returns {CutSequenceClass} The cut sequence of the layout.
+   */
+  private _cutSequence(calculation: ILayoutResult): CutSequenceClass {
+    const groups = (['main', 'remain', 'remainSecondary', 'remainCorner'] as const)
+      .map((key) => ({ key, rects: (calculation[key] ?? []) as IRectMatrixResult[] }))
+      .filter((group) => group.rects.length > 0);
+    return new CutSequenceClass(groups, this._source, this._allowance.kerf, this._unit);
+  }
+
+  /**
+   * @public
+   *
+   * Draws the calculated layout on the canvas and returns `HTMLCanvasElement` data.
+   * @remarks
+   * - It first calculates the layout (unless a `layout` is given), then draws the main and remaining rectangles,
+   * - and finally returns the Canvas drawing data as either a base64 encoded string or a raw Canvas string.
+   * 
+   * *`note`: When generating layouts as a `<canvas/>`, please note that canvas elements are pixel-based. 
+   * This means that the canvas will need to be __resized exponentially__ to achieve the actual size `(1px x 28,346 = 1cm)`, see the {@link config ratio}. 
+   * which can impact rendering and generating performance and will produce bigger file sizes.
+   * Make sure the {@link _source __canvas size__} and {@link config __ratio__} you use are optimized for performance and provide the best possible user experience.*
+   * 
+   * @param {boolean} [resourceURL=true] 
+   * + If `true`, returns is a base64 encoded data URL.
+   * + If `false`, returns the raw Canvas string. Defaults to `true`.
+   * @param {ILayoutResult} [layout] - A layout to draw instead of calculating one, eq. a sheet of a {@link CalculatorPlanClass plan}.
+   * @defaultValue 
+   * >*resourceURL*: `boolean` =  `true`
+   * @returns {string | HTMLCanvasElement} The data as either a base64 encoded data URL or a raw `HTMLCanvasElement` string.
+   * @throws {LayoutDrawingError} Throws an `error` if there is an issue during the drawing process, the original error is its `cause`.
+   * @example
+   * + Class Declaration
+   * ```ts
+   * 
+   *  // class declaration
+   *  const calculator = new CalculatorLayoutClass(A, B, C);
+   *  // calculate layout. 
+   *  const result = calculator.calculate(); 
+   * 
+   * ```
+   * + `drawing` output as **`base64 .jpeg`**
+   * ```ts
+   * 
+   *  // draw layout
+   *  const layout = calculator.drawCanvas(); // ** this will return base64Image **
+   *  // base64 .jpeg result
+   *  console.log(`image url :`, layout);
+   *  
+   * ```
+   * + `drawing` output as **`<canvas/>`** element
+   * ```ts
+   * 
+   *  // ** If you need to returned `<canvas/>` element, set `param` to `false` **
+   *  const canvasElement: HTMLCanvasElement = calculator.drawCanvas(false);
+   *  
+   *  console.log(`canvas :`, canvasElement);
+   *  
+   *  ```
+   * *`note`: You can skip `calculate()` method if you want, drawing will automatically calculating the layout to plot the rects in.
+   */
+  public drawCanvas(resourceURL: boolean = true, layout?: ILayoutResult): string | HTMLCanvasElement {
+    /** Alert a warning message due too high ratio **/
+    const warning = this._ratioWarning();
+    if (warning) {
+      alert(warning);
+    }
+
+    try {
+
+      const calculation = layout ?? this.calculate();
+
+      /** initialize canvas drawing by first creating paper using size of the source **/
+      this._Element = document.createElement('canvas') as HTMLCanvasElement;
+      const canvas = this._Element;
+      canvas.setAttribute('id', 'calculation-layout');
+
+      /** creating canvas context, the canvas is sized by the plotting **/
+      const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+      this._plottingCanvas(context, calculation);
+
+      // console.log('Context 2D: ', this.ctx);
+      if (resourceURL) {
+        // return `base64 Image`
+        const base64image = canvas.toDataURL('image/jpeg', 1.0);
+        return base64image;
+      } else {
+        // return `HtmlCanvasElement`
+        return canvas;
+      }
+
+    } catch (error) {
+      throw new LayoutDrawingError(error);
+    }
+
+
+  }
+
+  /**
+   * @public
+   * 
+   * Draws the calculated layout on any injected 2D context, without a `document`.
+   * @remarks
+   * - Use it in Node, in a web worker or on a backend, eq. with an `OffscreenCanvas` or a node-canvas-like object.
+   * - When the context has a `canvas`, it is resized to the drawing first, else size it with the returned size beforehand.
+   * - A too high {@link config ratio} is reported with `console.warn` instead of an `alert`.
+   * @param {ILayoutCanvasContext} context - The 2D context to draw on.
+   * @param {ILayoutResult} [layout] - A layout to draw instead of calculating one, eq. a sheet of a {@link CalculatorPlanClass plan}.
+   * @returns {ISquareSize} The size of the drawing, in pixels.
+   * @throws {LayoutDrawingError} Throws an `error` if there is an issue during the drawing process, the original error is its `cause`.
+   * @example
+   * ```ts
+   * 
+   *  // web worker
+   *  const canvas = new OffscreenCanvas(1, 1);
+   *  calculator.renderCanvas(canvas.getContext('2d') as OffscreenCanvasRenderingContext2D);
+   *  const blob = await canvas.convertToBlob({ type: 'image/png' });
+   * 
+   * ```
+   */
+  public renderCanvas(context: ILayoutCanvasContext, layout?: ILayoutResult): ISquareSize {
+    const warning = this._ratioWarning();
+    if (warning) {
+      console.warn(warning);
+    }
+
+    try {
+      return this._plottingCanvas(context, layout ?? this.calculate());
+    } catch (error) {
+      throw new LayoutDrawingError(error);
+    }
+  }
+
+  /**
+   * @public
+   * 
+   * Draws the calculated layout on a vector PDF page at its true physical size, eq. for the RIP or the guillotine station.
+   * @remarks
+   * - The layout is drawn by the same plotting as {@link drawCanvas}, one point per point of the source, whatever the {@link config ratio}.
+   * - The paper, the allowance bands, the offcuts, every target with its number and the legend are vector drawings.
+   * - A title/info block (sizes, strategy, total, utilisation) is printed below the sheet, the `TrimBox` of the page is the sheet only.
+   * - It doesn't need a `document`, so it also runs in Node, in a web worker or on a backend.
+   * @param {boolean} [resourceURL=true] 
+   * + If `true`, returns a base64 encoded `.pdf` data URL.
+   * + If `false`, returns the bytes of the PDF document. Defaults to `true`.
+   * @param {ILayoutResult} [layout] - A layout to draw instead of calculating one, eq. a sheet of a {@link CalculatorPlanClass plan}.
+   * @param {string} [title] - The title of the document, printed in the info block. Defaults to the source and target sizes.
+   * @returns {string | Uint8Array} The PDF as either a base64 encoded data URL or its bytes.
+   * @throws {LayoutDrawingError} Throws an `error` if there is an issue during the drawing process, the original error is its `cause`.
+   * @example
+   * ```ts
+   * 
+   *  // browser, download link
+   *  link.href = calculator.drawPdf() as string;
+   * 
+   *  // Node
+   *  writeFileSync('layout.pdf', calculator.drawPdf(false) as Uint8Array);
+   * 
+   * ```
+   */
+  public drawPdf(resourceURL: boolean = true, layout?: ILayoutResult, title?: string): string | Uint8Array {
+    try {
+
+      const calculation = layout ?? this.calculate();
+      const info = this._pdfInfo(calculation, title);
+      const context = new PdfContextClass();
+
+      /** one pixel per point draws the layout at its true size **/
+      const ratio = CalculatorLayoutClass.convert(1, this._unit, 'pt');
+      const configRatio = this._config.ratio;
+      let size: ISquareSize;
+      try {
+        this._config.ratio = ratio;
+        size = this._plottingCanvas(context, calculation);
+      } finally {
+        this._config.ratio = configRatio;
+      }
+      this._plottingPdfInfo(context, info, size);
+
+      /** the trim box is the source, after the dimension band **/
+      const band = this._dimensionMetrics().band * ratio;
+      const pdf = context.toPdf({ title: info.title, trimBox: { x: band, y: band, width: this._source.width * ratio, height: this._source.height * ratio } });
+      if (resourceURL) {
+        // return `base64 PDF`
+        return `data:application/pdf;base64,${btoa(pdf)}`;
+      } else {
+        // return the PDF bytes
+        return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+      }
+
+    } catch (error) {
+      throw new LayoutDrawingError(error);
+    }
+  }
+
+  /**
+   * @public
+   * 
+   * Exports the cut lines of the calculated layout as a DXF document, for flatbed digital cutters, CNC cutters and plotters.
+   * @remarks
+   * - The trim outlines go on the `CUT` layer, the bleed outlines on the `BLEED` layer,
+   *   the sheet outline on the `SHEET` layer and the target numbers on the `ANNOTATION` layer.
+   * - The shared edges of adjacent targets are merged, so the blade never cuts the same line twice.
+   * - The coordinates are in the input unit, see {@link DxfExporterClass}.
+   * @param {boolean} [resourceURL=true] 
+   * + If `true`, returns the DXF as a data URL.
+   * + If `false`, returns the DXF document. Defaults to `true`.
+   * @param {ILayoutResult} [layout] - A layout to export instead of calculating one, eq. a sheet of a {@link CalculatorPlanClass plan}.
+   * @returns {string} The DXF as either a data URL or the document.
+   * @throws {LayoutDrawingError} Throws an `error` if there is an issue during the export, the original error is its `cause`.
+   * @example
+   * ```ts
+   * 
+   *  // Node
+   *  writeFileSync('layout.dxf', calculator.drawDxf(false));
+   * 
+   * ```
+   */
+  public drawDxf(resourceURL: boolean = true, layout?: ILayoutResult): string {
+    try {
+
+      const calculation = layout ?? this.calculate();
+      /** same numbering as the drawings **/
+      const rectangles = this._plotGroups(calculation).flatMap((group) => group.rects);
+      const dxf = new DxfExporterClass(rectangles, this._source, this._unit).export();
+
+      if (resourceURL) {
+        return `data:image/vnd.dxf;charset=utf-8,${encodeURIComponent(dxf)}`;
+      } else {
+        return dxf;
+      }
+
+    } catch (error) {
+      throw new LayoutDrawingError(error);
+    }
+  }
+
+  /**
+   *
+   * 
+   * Collects the title/info block of a PDF export.
+   * @param {ILayoutResult} calculation - The layout to describe.
+   * @param {string} [title] - The title of the document. Defaults to the source and target sizes.
+   * @returns {ILayoutPdfInfo} The title and the info lines: source and margin, target, strategy and yield, then the allowances when set.
+   */
+  protected _pdfInfo(calculation: ILayoutResult, title?: string): ILayoutPdfInfo {
+    const unit = this._unit;
+    const size = (sheet: ISquareSize) => `${sheet.width} x ${sheet.height} ${unit}`;
+    const statistics = calculation.statistics ?? this.statistics(calculation);
+    const total = calculation.main.length + this._remainGroups(calculation).flat().length;
+
+    const lines = [
+      `Source ${size(this._source)}${this._source.grain ? ` (grain ${this._source.grain})` : ''} | Margin ${size(this._margin)}`,
+      `Target ${size(this._target)}${this._target.grain ? ` (grain ${this._target.grain})` : ''}`,
+      `Strategy ${calculation.strategy?.method ?? '-'}${calculation.strategy?.placement ? ` (remain ${calculation.strategy.placement})` : ''} | Total ${total} | Utilisation ${statistics.utilisation}%`,
+    ];
+    if (this._allowance.kerf > 0 || this._allowance.bleed > 0) {
+      lines.push(`Kerf ${this._allowance.kerf} ${unit} | Bleed ${this._allowance.bleed} ${unit}`);
+    }
+    return { title: title ?? `Layout ${size(this._source)} / ${size(this._target)}`, lines };
+  }
+
+  /**
+   *
+   * 
+   * Prints the title/info block below the drawing and grows the page to hold it.
+   * @param {PdfContextClass} context - The PDF context.
+   * @param {ILayoutPdfInfo} info - The title and the info lines.
+   * @param {ISquareSize} size - The size of the drawing, in points.
+   */
+  private _plottingPdfInfo(context: PdfContextClass, info: ILayoutPdfInfo, size: ISquareSize): void {
+    const fontSize = 9;
+    const lineHeight = fontSize * 1.4;
+    const padding = fontSize;
+    context.canvas.height = size.height + (padding * 2) + (lineHeight * (info.lines.length + 1));
+
+    context.fillStyle = 'white';
+    context.fillRect(0, size.height, size.width, context.canvas.height - size.height);
+    context.fillStyle = this.config.textColor as string;
+    context.textAlign = 'left';
+    context.textBaseline = 'top';
+
+    context.font = `${fontSize * 1.2}px ${this.config.fonts?.family}`;
+    context.fillText(info.title, padding, size.height + padding);
+    context.font = `${fontSize}px ${this.config.fonts?.family}`;
+    info.lines.forEach((line, i) => {
+      context.fillText(line, padding, size.height + padding + (lineHeight * (i + 1)));
+    });
+  }
+
+  /**
+   *
+   * 
+   * Gets the warning shown when the {@link config ratio} draws the layout beyond its true size.
+   * @returns {string | null} The warning message, or `null` when the ratio is fine.
+   */
+  private _ratioWarning(): string | null {
+    if (Number(this.config.ratio) <= this._trueSizeRatio()) {
+      return null;
+    }
+    return `Generated Layout has exceeded the actual size (px to ${this._unit}).\nImage rendering performance will be impacted\ndue to high Ratio ( >${this._trueSizeRatio()} ).`;
+  }
+
+  /**
+   *
+   * 
+   * Plots a whole calculation on a 2D context: the paper, the allowance bands, the offcuts, every group and the legend.
+   * @param {ILayoutCanvasContext} context - The 2D context to draw on, its `canvas` is resized to the drawing when given.
+   * @param {ILayoutResult} calculation - The layout to draw.
+   * @returns {ISquareSize} The size of the drawing, in pixels.
+   */
+  private _plottingCanvas(context: ILayoutCanvasContext, calculation: ILayoutResult): ISquareSize {
+    /** Variable Declaration **/
+    const ratio = this.config.ratio as number;
+    const width = this._source.width * ratio;
+    const height = this._source.height * ratio;
+    const lineWidth = this.config.lineWidth as number * ratio;
+    const paperColor = this.config.paperColor as string;
+    const strokeColor = this.config.strokeColor as string;
+
+    const groups = this._plotGroups(calculation);
+    const legendHeight = this._legendMetrics(groups).height * ratio;
+    const band = this._dimensionMetrics().band * ratio;
+
+    /** size the canvas to the paper, the legend and the dimension band **/
+    if (context.canvas) {
+      context.canvas.width = width + band;
+      context.canvas.height = height + legendHeight + band;
+    }
+
+    /* Draw the dimension band above and left of the paper, then draw from the paper corner */
+    if (band > 0) {
+      context.fillStyle = 'white';
+      context.fillRect(0, 0, width + band, band);
+      context.fillRect(0, band, band, height + legendHeight);
+      context.translate(band, band);
+    }
+
+    /* Draw the legend background below the paper */
+    if (legendHeight > 0) {
+      context.fillStyle = 'white';
+      context.fillRect(0, height, width, legendHeight);
+    }
+
+    /* Draw Paper rect */
+    context.lineWidth = lineWidth as number;
+    context.fillStyle = paperColor;
+    context.beginPath();
+    context.rect(0, 0, width, height);
+    context.fill();
+    context.strokeStyle = strokeColor;
+    context.lineWidth = lineWidth;
+    context.stroke();
+    context.save();
+
+    /** Draw the sheet edges and the blade kerf below the targets **/
+    const bands = this._allowanceBands(calculation);
+    this._plottingCanvasBands(context, bands.edge, this.config.edgeColor as string);
+    this._plottingCanvasBands(context, bands.kerf, this.config.kerfColor as string);
+
+    /** Draw the hatched offcuts **/
+    if (this.config.offcuts) {
+      this._plottingCanvasOffcuts(context, (calculation.statistics ?? this.statistics(calculation)).offcuts);
+    }
+
+    /** Draw Layout for every group, numbered in the configured order **/
+    const labels = this._pieceLabels(calculation, groups);
+    groups.forEach((group) => {
+      this._plottingCanvasRectLayout(context, group.rects, labels, group.outerColor, group.innerColor);
+    });
+
+    /** Draw the registration targets, the colour bar and the slug in the sheet edges **/
+    this._plottingCanvasMarks(context, this._sheetMarks(calculation));
+
+    /** Draw the dimension lines **/
+    if (this.config.dimensions) {
+      this._plottingCanvasDimensions(context, this._dimensions(calculation));
+    }
+
+    /** Draw the legend **/
+    if (legendHeight > 0) {
+      this._plottingCanvasLegend(context, groups);
+    }
+
+    context.restore();
+    context.translate(-band, -band);
+    return { width: width + band, height: height + legendHeight + band };
+  }
+
+  /**
+   *
+   * 
+   * Plots the rectangles in the layout on the canvas.
+   * @remarks
+   * - It first draws the outer rectangles if the margin is greater than 0, then the bleed when it is set, and then draws the inner rectangles.
+   * - It also draws the stroke and fills the rectangles with the specified colors.
+   * - Finally, it draws the text on the inner rectangles using the specified font and text color.
+   * @param {ILayoutCanvasContext} context - The 2D rendering context for drawing on the canvas.
+   * @param {IRectMatrixResult[]} rectangles - An array of IRectMatrixResult, each representing a rectangle.
+   * @param {Map<IRectMatrixResult, ILayoutPiece>} labels - The number and label of every rectangle, see {@link _pieceLabels}.
+   * @param {string} outerColor - The color for drawing the outer rectangles.
+   * @param {string} innerColor - The color for drawing the inner rectangles.
+   */
+  private _plottingCanvasRectLayout(
+    context: ILayoutCanvasContext,
+    rectangles: IRectMatrixResult[],
+    labels: Map<IRectMatrixResult, ILayoutPiece>,
+    outerColor: string,
+    innerColor: string): void {
+    /** Variable declarations **/
+    const ratio = this.config.ratio as number;
+    const marginWidth = this._margin.width * ratio;
+    const marginHeight = this._margin.height * ratio;
+    const strokeColor = this.config.strokeColor as string;
+    const lineWidth = this.config.lineWidth as number * ratio;
+    const textColor = this.config.textColor as string;
     // const fonts = `${this.config.fonts?.size as number * ratio}${this.config.fonts?.unit} ${this.config.fonts?.family}`;
 
-    if (rectangles) {
+    if (rectangles) {
+
+      /** if margin is greater than 0 `draw outer rectangle` first **/
+      if (marginHeight > 0 && marginWidth > 0) {
+        for (let i = 0; i < rectangles.length; i++) {
+
+          const outerRect = rectangles[i].outer;
+          const outerRectWidth = outerRect.width * ratio;
+          const outerRectHeight = outerRect.height * ratio;
+          const outerRectX = outerRect.x as number * ratio;
+          const outerRectY = outerRect.y as number * ratio;
+
+          context.fillStyle = outerColor;
+          context.beginPath();
+          context.rect(outerRectX, outerRectY, outerRectWidth, outerRectHeight);
+          context.fill();
+          context.strokeStyle = strokeColor;
+          context.lineWidth = lineWidth;
+          context.stroke();
+          context.save();
+
+        }
+      }
+      /** Draw the bleed around the inner rectangle **/
+      context.fillStyle = this.config.bleedColor as string;
+      rectangles.forEach((rect) => {
+        if (rect.bleed) {
+          context.fillRect(rect.bleed.x as number * ratio, rect.bleed.y as number * ratio, rect.bleed.width * ratio, rect.bleed.height * ratio);
+        }
+      });
+
+      /** Draw inner rectangle **/
+      for (let i = 0; i < rectangles.length; i++) {
+
+        const innerRect = rectangles[i].inner;
+        const innerRectWidth = innerRect.width * ratio;
+        const innerRectHeight = innerRect.height * ratio;
+        const innerRectX = innerRect.x as number * ratio;
+        const innerRectY = innerRect.y as number * ratio;
+
+        const fontSize = this._calculateFontSize(innerRectWidth, innerRectHeight, true);
+        const fonts = `${fontSize}${this.config.fonts?.unit} ${this.config.fonts?.family}`;
+
+        const textCoordinateX = (innerRectX + (innerRectWidth / 2));
+        const textCoordinateY = (innerRectY + (innerRectHeight / 2));
+
+        context.fillStyle = innerColor;
+        context.beginPath();
+        context.rect(innerRectX, innerRectY, innerRectWidth, innerRectHeight);
+        context.fill();
+
+        /** `Draw Outline Stroke` on Inner Rect only if margin = 0 **/
+        if (marginHeight === 0 && marginWidth === 0) {
+          context.lineWidth = lineWidth;
+          context.strokeStyle = strokeColor;
+          context.stroke();
+        }
+
+        /** `Draw Text` on the middle of inner rect **/
+        context.font = fonts;
+        context.textAlign = "center";
+        context.textBaseline = "middle";
+        context.fillStyle = textColor;
+
+        const piece = labels.get(rectangles[i]) as ILayoutPiece;
+        const label = piece.text;
+        const size = this.config.labelSize ? piece.size : undefined;
+        if (size === undefined) {
+          context.fillText(label, textCoordinateX, textCoordinateY);
+        } else {
+          /** the trim size goes below the label, at half its size **/
+          context.fillText(label, textCoordinateX, textCoordinateY - (fontSize * 0.3));
+          context.font = `${fontSize * 0.5}${this.config.fonts?.unit} ${this.config.fonts?.family}`;
+          context.fillText(size, textCoordinateX, textCoordinateY + (fontSize * 0.5));
+        }
+        context.save();
+      }
+
+      /** Draw the crop marks in the margin around every piece **/
+      if (this.config.cropMarks) {
+        context.strokeStyle = this.config.markColor as string;
+        context.lineWidth = lineWidth;
+        context.beginPath();
+        rectangles.forEach((rect) => {
+          this._cropMarks(rect).forEach(([from, to]) => {
+            context.moveTo(from.x * ratio, from.y * ratio);
+            context.lineTo(to.x * ratio, to.y * ratio);
+          });
+        });
+        context.stroke();
+      }
+    }
+  }
+
+  /**
+  * @public
+  * 
+  * Draws the calculated layout on an SVG document and returns the SVG data.
+  * @remarks
+  * - It first calculates the layout (unless a `layout` is given), then draws the main and remaining rectangles,
+  * - and finally returns the SVG data as either a base64 encoded data URL or a raw SVG string.
+  * 
+  * ***`*note`**: the drawing coordinates are in `pixel` with the *{@link config ratio multiplier}* inside the `viewBox`,
+  * while the `width` and `height` of the **`<svg/>`** carry the physical size in the {@link config output unit}, eq. `65cm`, so it prints at true size.*
+  * 
+  * @param {boolean} [resourceURL=true] 
+  * + If `true`, returns the SVG as a base64 encoded data URL.
+  * + If `false`, returns the raw SVG string. Defaults to `true`.
+  * @param {ILayoutResult} [layout] - A layout to draw instead of calculating one, eq. a sheet of a {@link CalculatorPlanClass plan}.
+  * @defaultValue 
+  * >*resourceURL*: `boolean` =  `true`
+  * @returns {string | SVGSVGElement} The SVG data as either a URI encoded data URL or an `<svg/>` element.
+  * @throws {LayoutDrawingError} Throws an error if there is an issue during the drawing process, the original error is its `cause`,
+  * eq. when the `<svg/>` element is asked for without a `document`.
+  * @example
+  * + Class Declaration
+  * ```ts
+  * 
+  *  // class declaration
+  *  const calculator = new CalculatorLayoutClass(A, B, C);
+  *  // calculate layout. 
+  *  const result = calculator.calculate(); 
+  * 
+  * ```
+  * + `drawing` output as **`base64 .svg`**
+  * ```ts
+  * 
+  *  // draw layout
+  *  const layout = calculator.drawSvg(); // ** this will return base64Image **
+  *  // base64 .svg result
+  *  console.log(`base64 svg url :`, layout);
+  *  
+  * ```
+  * + `drawing` output as **`<svg/>`** element
+  * ```ts
+  * 
+  *  // ** If you need to returned `<svg/>` element, set `param` to `false` **
+  *  const svgElement = calculator.drawSvg(false) as SVGSVGElement;
+  *  
+  *  console.log(`svg :`, svgElement);
+  *  
+  *  ```
+  * *`note`: You can skip `calculate()` method if you want, drawing will automatically calculating the layout to plot the rects in.
+  * 
+  */
+  public drawSvg(resourceURL: boolean = true, layout?: ILayoutResult): string | SVGSVGElement {
+    const svgElement = this._svgDocument(layout);
+
+    if (resourceURL) {
+      /** encoded, a raw `#` eq. in `url(#offcut-hatch)` would end the URL as a fragment **/
+      const base64svg = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgElement.toString())}`;
+      return base64svg;
+    } else {
+      /** the only step needing a `document` **/
+      try {
+        this._Element = svgElement.toElement() as SVGSVGElement;
+      } catch (error) {
+        throw new LayoutDrawingError(error);
+      }
+      return this._Element;
+    }
+  }
+
+  /**
+   * @public
+   * 
+   * Draws the calculated layout as a plain SVG string, without a `document`.
+   * @remarks
+   * Use it in Node, in a web worker or on a backend, the markup is the same as the one of {@link drawSvg}.
+   * @param {ILayoutResult} [layout] - A layout to draw instead of calculating one, eq. a sheet of a {@link CalculatorPlanClass plan}.
+   * @returns {string} The SVG markup, eq. to write into a `.svg` file.
+   * @throws {LayoutDrawingError} Throws an error if there is an issue during the drawing process, the original error is its `cause`.
+   * @example
+   * ```ts
+   * 
+   *  // Node
+   *  writeFileSync('layout.svg', calculator.renderSvg());
+   * 
+   * ```
+   */
+  public renderSvg(layout?: ILayoutResult): string {
+    return this._svgDocument(layout).toString();
+  }
+
+  /**
+   *
+   * 
+   * Builds the SVG document of a layout: the paper, the allowance bands, the offcuts, every group and the legend.
+   * @param {ILayoutResult} [layout] - A layout to draw instead of calculating one.
+   * @returns {SvgNodeClass} The `<svg/>` node.
+   * @throws {LayoutDrawingError} Throws an error if there is an issue during the drawing process, the original error is its `cause`.
+   */
+  private _svgDocument(layout?: ILayoutResult): SvgNodeClass {
+
+    /** Variable Declaration **/
+    const width = this._source.width;
+    const height = this._source.height;
+    const paperColor = this.config.paperColor as string;
+    const strokeColor = this.config.strokeColor as string;
+    const lineWidth = `${this.config.lineWidth as number * 3.5}pt`; // to return 1 point
+    // const unit = 'cm'; /** Causing clipping in webview **/
+    const ratio = this.config.ratio as number; /** ratio px to input unit **/
+
+
+    try {
+
+      const calculation = layout ?? this.calculate();
+      const groups = this._plotGroups(calculation);
+      const legendHeight = this._legendMetrics(groups).height;
+      const band = this._dimensionMetrics().band;
+
+      /** Initialize svg document **/
+      const svgElement = new SvgNodeClass('svg');
+      svgElement.setAttribute('version', '1.1');
+      svgElement.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+      svgElement.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+      svgElement.setAttribute('xml:space', 'preserve');
+      /** the dimension band runs above and left of the source **/
+      svgElement.setAttribute('viewBox', `${-band * ratio} ${-band * ratio} ${(width + band) * ratio} ${(height + legendHeight + band) * ratio}`);
+      svgElement.setAttribute('preserveAspectRatio', `xMidYMid meet`);
+      /** physical size in the output unit, the viewBox scales the drawing into it **/
+      svgElement.setAttribute('width', this._physicalLength(width + band));
+      svgElement.setAttribute('height', this._physicalLength(height + legendHeight + band));
+      svgElement.setAttribute('id', 'calculation-layout');
+
+      /** Create Groups **/
+      const mainGroup = new SvgNodeClass('g');
+      mainGroup.setAttribute('id', 'layout');
+
+      /** by first `creating paper` using size of the source **/
+      const svgPaperRect = new SvgNodeClass('rect');
+      mainGroup.setAttribute('id', 'paper');
+      svgPaperRect.setAttribute('x', `0`);
+      svgPaperRect.setAttribute('y', `0`);
+      svgPaperRect.setAttribute('width', `${width * ratio}`);
+      svgPaperRect.setAttribute('height', `${height * ratio}`);
+      svgPaperRect.setAttribute('fill', `${paperColor}`);
+      svgPaperRect.setAttribute('anchor', 'middle');
+      svgPaperRect.setAttribute('vector-effect', 'non-scaling-stroke'); /** add this for prevent scaling stroke width **/
+      svgPaperRect.setAttribute('stroke', strokeColor);
+      svgPaperRect.setAttribute('stroke-width', String(lineWidth));
+      svgPaperRect.setAttribute('vector-effect', 'non-scaling-stroke');
+      /* Add paperto the group */
+      mainGroup.appendChild(svgPaperRect);
+
+      /** Draw the sheet edges and the blade kerf below the targets **/
+      const bands = this._allowanceBands(calculation);
+      this._plottingSvgBands(mainGroup, bands.edge, this.config.edgeColor as string, 'sheet-edge');
+      this._plottingSvgBands(mainGroup, bands.kerf, this.config.kerfColor as string, 'kerf');
+
+      /** Draw the hatched offcuts **/
+      if (this.config.offcuts) {
+        this._plottingSvgOffcuts(svgElement, mainGroup, (calculation.statistics ?? this.statistics(calculation)).offcuts);
+      }
+
+      /**  Append groups to SVG before plotting **/
+      svgElement.appendChild(mainGroup);
+
+      /** Draw Layout with Group, numbered in the configured order **/
+      const labels = this._pieceLabels(calculation, groups);
+      groups.forEach((group) => {
+        this._plottingSvgRectLayout(mainGroup, group.rects, labels, group.outerColor, group.innerColor);
+      });
 
-      /** if margin is greater than 0 `draw outer rectangle` first **/
-      if (marginHeight > 0 && marginWidth > 0) {
-        for (let i = 0; i < rectangles.length; i++) {
+      /** Draw the registration targets, the colour bar and the slug in the sheet edges **/
+      this._plottingSvgMarks(mainGroup, this._sheetMarks(calculation));
 
-          const outerRect = rectangles[i].outer;
-          const outerRectWidth = outerRect.width * ratio;
-          const outerRectHeight = outerRect.height * ratio;
-          const outerRectX = outerRect.x as number * ratio;
-          const outerRectY = outerRect.y as number * ratio;
+      /** Draw the dimension lines **/
+      if (this.config.dimensions) {
+        this._plottingSvgDimensions(svgElement, this._dimensions(calculation));
+      }
 
-          context.fillStyle = outerColor;
-          context.beginPath();
-          context.rect(outerRectX, outerRectY, outerRectWidth, outerRectHeight);
-          context.fill();
-          context.strokeStyle = strokeColor;
-          context.lineWidth = lineWidth;
-          context.stroke();
-          context.save();
+      /** Draw the numbered cut lines over the targets **/
+      if (this.config.cutLines) {
+        this._plottingSvgCuts(mainGroup, this._cutSequence(calculation).steps());
+      }
 
-        }
+      /** Draw the legend **/
+      if (legendHeight > 0) {
+        this._plottingSvgLegend(svgElement, groups);
       }
-      /** Draw inner rectangle **/
-      for (let i = 0; i < rectangles.length; i++) {
 
-        const innerRect = rectangles[i].inner;
-        const innerRectWidth = innerRect.width * ratio;
-        const innerRectHeight = innerRect.height * ratio;
-        const innerRectX = innerRect.x as number * ratio;
-        const innerRectY = innerRect.y as number * ratio;
+      return svgElement;
 
-        const fontSize = this._calculateFontSize(innerRectWidth, innerRectHeight, true);
-        const fonts = `${fontSize}${this.config.fonts?.unit} ${this.config.fonts?.family}`;
+    } catch (error) {
+      throw new LayoutDrawingError(error);
+    }
+  }
 
-        const textCoordinateX = (innerRectX + (innerRectWidth / 2));
-        const textCoordinateY = (innerRectY + (innerRectHeight / 2));
+  /**
+   *
+   * Draws the rectangles on an SVG document. 
+   * - It first draws the outer rectangle, 
+   * - then the bleed rectangle when a bleed is set,
+   * - then the inner rectangle, 
+   * - and finally the text in the middle of the inner rectangle.
+   * @param {SvgNodeClass} svgElement - The SVG element to draw on.
+   * @param {IRectMatrixResult[]} rectangles - The array of rectangles to draw.
+   * @param {Map<IRectMatrixResult, ILayoutPiece>} labels - The number and label of every rectangle, see {@link _pieceLabels}.
+   * @param {string} outerColor - The color for the outer rectangle.
+   * @param {string} innerColor - The color for the inner rectangle.
+   * @returns {SvgNodeClass} The SVG element with the rectangles drawn.
+   */
+  private _plottingSvgRectLayout(
+    svgElement: SvgNodeClass,
+    rectangles: IRectMatrixResult[],
+    labels: Map<IRectMatrixResult, ILayoutPiece>,
+    outerColor: string,
+    innerColor: string): SvgNodeClass {
 
-        context.fillStyle = innerColor;
-        context.beginPath();
-        context.rect(innerRectX, innerRectY, innerRectWidth, innerRectHeight);
-        context.fill();
+    // console.log('Rectangles :', rectangles)
 
-        /** `Draw Outline Stroke` on Inner Rect only if margin = 0 **/
-        if (marginHeight === 0 && marginWidth === 0) {
-          context.lineWidth = lineWidth;
-          context.strokeStyle = strokeColor;
-          context.stroke();
+    const strokeColor = this.config.strokeColor as string;
+    const lineWidth = `${this.config.lineWidth as number * 4}pt`; // to return 1 point
+    const textColor = this.config.textColor as string;
+
+    const fontFamily = this.config.fonts?.family;
+    // const unit = 'cm'; // switch `unit` to `ratio` to fix webview clipping issue
+    const ratio = this.config.ratio as number; // ** Ratio px to cm **
+
+
+    for (let i = 0; i < rectangles.length; i++) {
+      const outerRect = rectangles[i].outer;
+      const outerRectWidth = outerRect.width * ratio;
+      const outerRectHeight = outerRect.height * ratio;
+      const outerRectX = outerRect.x as number * ratio;
+      const outerRectY = outerRect.y as number * ratio;
+
+      const innerRect = rectangles[i].inner;
+      const innerRectWidth = innerRect.width * ratio;
+      const innerRectHeight = innerRect.height * ratio;
+      const innerRectX = innerRect.x as number * ratio;
+      const innerRectY = innerRect.y as number * ratio;
+
+      const fontSize = this._calculateFontSize(innerRectWidth, innerRectHeight);
+      const textCoordinateX = (innerRectX + (innerRectWidth / 2));
+      const textCoordinateY = (innerRectY + (innerRectHeight / 2));
+
+      /** Draw SVG Outer Rectangles **/
+      const svgOuterRect = new SvgNodeClass('rect');
+      svgOuterRect.setAttribute('x', `${outerRectX}`);
+      svgOuterRect.setAttribute('y', `${outerRectY}`);
+      svgOuterRect.setAttribute('width', `${outerRectWidth}`);
+      svgOuterRect.setAttribute('height', `${outerRectHeight}`);
+      svgOuterRect.setAttribute('fill', outerColor);
+      svgOuterRect.setAttribute('stroke', strokeColor);
+      svgOuterRect.setAttribute('stroke-width', String(lineWidth));
+      svgOuterRect.setAttribute('vector-effect', 'non-scaling-stroke');
+
+      /** Draw SVG Inner Rectangles **/
+      const svgInnerRect = new SvgNodeClass('rect');
+      svgInnerRect.setAttribute('x', `${innerRectX}`);
+      svgInnerRect.setAttribute('y', `${innerRectY}`);
+      svgInnerRect.setAttribute('width', `${innerRectWidth}`);
+      svgInnerRect.setAttribute('height', `${innerRectHeight}`);
+      svgInnerRect.setAttribute('fill', innerColor);
+      svgInnerRect.setAttribute('vector-effect', 'non-scaling-stroke');
+
+      /** Draw SVG Bleed Rectangles between the outer and the inner ones **/
+      const bleedRect = rectangles[i].bleed;
+      const svgBleedRect = bleedRect ? new SvgNodeClass('rect') : null;
+      if (bleedRect && svgBleedRect) {
+        svgBleedRect.setAttribute('x', `${bleedRect.x as number * ratio}`);
+        svgBleedRect.setAttribute('y', `${bleedRect.y as number * ratio}`);
+        svgBleedRect.setAttribute('width', `${bleedRect.width * ratio}`);
+        svgBleedRect.setAttribute('height', `${bleedRect.height * ratio}`);
+        svgBleedRect.setAttribute('fill', this.config.bleedColor as string);
+      }
+
+      /** Draw SVG Text in the middle of inner rect, the trim size goes below it at half its size **/
+      const piece = labels.get(rectangles[i]) as ILayoutPiece;
+      const label = piece.text;
+      const size = this.config.labelSize ? piece.size : undefined;
+      const svgText = new SvgNodeClass('text');
+      svgText.setAttribute('x', `${textCoordinateX}`);
+      svgText.setAttribute('y', `${size === undefined ? textCoordinateY : textCoordinateY - (fontSize * ratio * 0.3)}`); // 10 is adjustment hack for centering `text`.
+      svgText.setAttribute('text-anchor', 'middle');
+      svgText.setAttribute('font-size', `${fontSize * ratio}`);
+      svgText.setAttribute('font-family', `${fontFamily}`);
+      svgText.setAttribute('fill', `${textColor}`);
+      svgText.textContent = label;
+      // ADD this for fixing text position
+      svgText.setAttribute('dominant-baseline', 'middle');
+
+      const svgSize = size === undefined ? null : new SvgNodeClass('text');
+      if (svgSize) {
+        svgSize.setAttribute('x', `${textCoordinateX}`);
+        svgSize.setAttribute('y', `${textCoordinateY + (fontSize * ratio * 0.5)}`);
+        svgSize.setAttribute('text-anchor', 'middle');
+        svgSize.setAttribute('dominant-baseline', 'middle');
+        svgSize.setAttribute('font-size', `${fontSize * ratio * 0.5}`);
+        svgSize.setAttribute('font-family', `${fontFamily}`);
+        svgSize.setAttribute('fill', `${textColor}`);
+        svgSize.textContent = piece.size;
+      }
+
+      /** Create a Group for each Rectangle Set (Outer, Inner, Text) **/
+      const rectGroup = new SvgNodeClass('g');
+      rectGroup.setAttribute('id', `cutting-block-${piece.number}`);
+      rectGroup.setAttribute('class', 'cutting-block');
+      rectGroup.setAttribute('data-number', `${piece.number}`);
+      rectGroup.setAttribute('data-group', piece.group);
+
+      /* Add `Outer Rect` to the group */
+      rectGroup.appendChild(svgOuterRect);
+
+      /* Add `Bleed Rect` to the group */
+      if (svgBleedRect) {
+        rectGroup.appendChild(svgBleedRect);
+      }
+
+      /* Add `Inner Rect` to the group */
+      rectGroup.appendChild(svgInnerRect);
+
+      /* Add `Text` to the group */
+      rectGroup.appendChild(svgText);
+      if (svgSize) {
+        rectGroup.appendChild(svgSize);
+      }
+
+      /* Add the `Crop Marks` in the margin around the piece */
+      if (this.config.cropMarks) {
+        this._cropMarks(rectangles[i]).forEach(([from, to]) => {
+          const svgMark = new SvgNodeClass('line');
+          svgMark.setAttribute('x1', `${from.x * ratio}`);
+          svgMark.setAttribute('y1', `${from.y * ratio}`);
+          svgMark.setAttribute('x2', `${to.x * ratio}`);
+          svgMark.setAttribute('y2', `${to.y * ratio}`);
+          svgMark.setAttribute('stroke', this.config.markColor as string);
+          svgMark.setAttribute('stroke-width', String(lineWidth));
+          svgMark.setAttribute('vector-effect', 'non-scaling-stroke');
+          rectGroup.appendChild(svgMark);
+        });
+      }
+
+      /* Add the Group to the passed `svgElement` */
+      svgElement.appendChild(rectGroup);
+    }
+
+    return svgElement;
+  }
+
+  /**
+   *
+   * 
+   * Splits a calculation into the groups drawn by the renderers, each with its own colors and legend label.
+   * @param {ILayoutResult} calculation - The result of {@link calculate}.
+   * @returns {ILayoutPlotGroup[]} The `main` group and, when targets were placed in the leftover regions, the `remain` group.
+   */
+  protected _plotGroups(calculation: ILayoutResult): ILayoutPlotGroup[] {
+    const groups: ILayoutPlotGroup[] = [{
+      key: 'main',
+      label: `Main (${calculation.main.length})`,
+      rects: calculation.main,
+      outerColor: this.config.mainOuterColor as string,
+      innerColor: this.config.mainInnerColor as string
+    }];
+
+    const remainRects = this._remainGroups(calculation).flat();
+    if (remainRects.length > 0) {
+      groups.push({
+        key: 'remain',
+        label: `Remain (${remainRects.length})`,
+        rects: remainRects,
+        outerColor: this.config.remainOuterColor as string,
+        innerColor: this.config.remainInnerColor as string
+      });
+    }
+    return groups;
+  }
+
+  /**
+   *
+   *
+   * Numbers every plotted target in the configured `numbering` order.
+   * @param {ILayoutResult} calculation - The result of {@link calculate}.
+   * @param {ILayoutPlotGroup[]} groups - The plotted groups, see {@link _plotGroups}.
+   * @returns {Map<IRectMatrixResult, number>} The number of every target, from `1`.
+   */
+  private _pieceNumbers(calculation: ILayoutResult, groups: ILayoutPlotGroup[]): Map<IRectMatrixResult, number> {
+    const numbering = this.config.numbering as LayoutNumbering;
+    /** compare the positions with a tolerance, to absorb floating point errors **/
+    const compare = (a: number, b: number) => Math.abs(a - b) < 1e-9 ? 0 : a - b;
+    const byRow = (a: IRectMatrixResult, b: IRectMatrixResult) =>
+      compare(a.inner.y as number, b.inner.y as number) || compare(a.inner.x as number, b.inner.x as number);
+    let ordered: IRectMatrixResult[];
+
+    if (numbering === 'cut') {
+      /** a target comes off the cutter with the last cut through the stack holding it **/
+      const steps = this._cutSequence(calculation).steps();
+      const freedBy = (rect: IRectMatrixResult) => {
+        const x = (rect.inner.x as number) + (rect.inner.width / 2);
+        const y = (rect.inner.y as number) + (rect.inner.height / 2);
+        return steps.reduce((last, step) => (x > (step.area.x as number) && x < (step.area.x as number) + step.area.width
+          && y > (step.area.y as number) && y < (step.area.y as number) + step.area.height) ? step.step : last, 0);
+      };
+      ordered = groups
+        .flatMap((group) => group.rects.map((rect) => ({ rect, step: freedBy(rect) })))
+        .sort((a, b) => (a.step - b.step) || byRow(a.rect, b.rect))
+        .map((piece) => piece.rect);
+    } else {
+      ordered = groups.flatMap((group) => {
+        if (numbering === 'column') {
+          return [...group.rects].sort((a, b) =>
+            compare(a.inner.x as number, b.inner.x as number) || compare(a.inner.y as number, b.inner.y as number));
+        }
+        if (numbering === 'serpentine') {
+          const rows: IRectMatrixResult[][] = [];
+          [...group.rects].sort(byRow).forEach((rect) => {
+            const row = rows[rows.length - 1];
+            if (row && compare(row[0].inner.y as number, rect.inner.y as number) === 0) {
+              row.push(rect);
+            } else {
+              rows.push([rect]);
+            }
+          });
+          return rows.flatMap((row, index) => index % 2 ? row.reverse() : row);
         }
+        /** `row`, the order of the result **/
+        return group.rects;
+      });
+    }
 
-        /** `Draw Text` on the middle of inner rect **/
-        context.font = fonts;
-        console.log(`ctx font`, context.font)
-        context.textAlign = "center";
-        context.textBaseline = "middle";
-        context.fillStyle = textColor;
+    return new Map(ordered.map((rect, index) => [rect, index + 1]));
+  }
+
+  /**
+   *
+   *
+   * Numbers and labels every plotted target, from the `label` template or callback and the `jobCode`.
+   * @param {ILayoutResult} calculation - The result of {@link calculate}.
+   * @param {ILayoutPlotGroup[]} groups - The plotted groups, see {@link _plotGroups}.
+   * @returns {Map<IRectMatrixResult, ILayoutPiece>} The number, label values and label text of every target.
+   */
+  private _pieceLabels(calculation: ILayoutResult, groups: ILayoutPlotGroup[]): Map<IRectMatrixResult, ILayoutPiece> {
+    const numbers = this._pieceNumbers(calculation, groups);
+    const label = this.config.label as ILayoutConfig['label'];
+    const precision = this.config.dimensionPrecision as number;
+    const labels = new Map<IRectMatrixResult, ILayoutPiece>();
+
+    groups.forEach((group) => group.rects.forEach((rect) => {
+      const width = Number(rect.inner.width.toFixed(precision));
+      const height = Number(rect.inner.height.toFixed(precision));
+      const piece: ILayoutPieceLabel = {
+        number: numbers.get(rect) as number,
+        row: rect.grid.row + 1,
+        column: rect.grid.column + 1,
+        group: group.key,
+        job: this.config.jobCode as string,
+        width,
+        height,
+        size: `${width} x ${height} ${this._unit}`,
+        unit: this._unit
+      };
+
+      /** unknown `{key}` in a template are kept as they are **/
+      const text = typeof label === 'function'
+        ? String(label(piece))
+        : (label as string).replace(/\{(\w+)\}/g, (token, key: string) => key in piece ? String(piece[key as keyof ILayoutPieceLabel]) : token);
+      labels.set(rect, { ...piece, text, rect });
+    }));
+
+    return labels;
+  }
+
+  /**
+   *
+   * 
+   * Calculates the size of the legend drawn below the source, in source units.
+   * @param {ILayoutPlotGroup[]} groups - The plotted groups, one legend entry each.
+   * @returns {{ height: number; fontSize: number; rowHeight: number }} The legend height (`0` when the legend is disabled), its font size and row height.
+   */
+  private _legendMetrics(groups: ILayoutPlotGroup[]): { height: number; fontSize: number; rowHeight: number; } {
+    /** keep the legend readable on small sources **/
+    const fontSize = Math.min(this.config.fonts?.size as number, Math.max(this._source.width, this._source.height) * 0.03);
+    const rowHeight = fontSize * 1.6;
+    const height = this.config.legend ? (groups.length * rowHeight) + rowHeight : 0;
+    return { height, fontSize, rowHeight };
+  }
+
+  /**
+   *
+   *
+   * Calculates the size of the dimension band drawn above and left of the source, in source units.
+   * @returns {{ band: number; fontSize: number }} The band size (`0` when the dimensions are disabled) and the font size of the labels.
+   */
+  private _dimensionMetrics(): { band: number; fontSize: number; } {
+    /** keep the labels readable on small sources **/
+    const fontSize = Math.min(this.config.fonts?.size as number, Math.max(this._source.width, this._source.height) * 0.02);
+    const band = this.config.dimensions ? fontSize * 3 : 0;
+    return { band, fontSize };
+  }
+
+  /**
+   *
+   *
+   * Draws the legend below the source on an SVG document, one swatch and label per group.
+   * @param {SvgNodeClass} svgElement - The SVG element to draw on.
+   * @param {ILayoutPlotGroup[]} groups - The plotted groups.
+   */
+  private _plottingSvgLegend(svgElement: SvgNodeClass, groups: ILayoutPlotGroup[]): void {
+    const ratio = this.config.ratio as number;
+    const { fontSize, rowHeight } = this._legendMetrics(groups);
+    const strokeColor = this.config.strokeColor as string;
+    const textColor = this.config.textColor as string;
+    const lineWidth = `${this.config.lineWidth as number * 4}pt`;
+
+    const legendGroup = new SvgNodeClass('g');
+    legendGroup.setAttribute('id', 'legend');
+
+    groups.forEach((group, i) => {
+      const top = this._source.height + (rowHeight / 2) + (i * rowHeight);
+
+      /** Draw the color swatch **/
+      const swatch = new SvgNodeClass('rect');
+      swatch.setAttribute('x', `${(rowHeight / 2) * ratio}`);
+      swatch.setAttribute('y', `${top * ratio}`);
+      swatch.setAttribute('width', `${fontSize * ratio}`);
+      swatch.setAttribute('height', `${fontSize * ratio}`);
+      swatch.setAttribute('fill', group.innerColor);
+      swatch.setAttribute('stroke', strokeColor);
+      swatch.setAttribute('stroke-width', String(lineWidth));
+      swatch.setAttribute('vector-effect', 'non-scaling-stroke');
+
+      /** Draw the label next to the swatch **/
+      const text = new SvgNodeClass('text');
+      text.setAttribute('x', `${((rowHeight / 2) + (fontSize * 1.5)) * ratio}`);
+      text.setAttribute('y', `${(top + (fontSize / 2)) * ratio}`);
+      text.setAttribute('font-size', `${fontSize * ratio}`);
+      text.setAttribute('font-family', `${this.config.fonts?.family}`);
+      text.setAttribute('fill', textColor);
+      text.setAttribute('dominant-baseline', 'middle');
+      text.textContent = group.label;
+
+      const entry = new SvgNodeClass('g');
+      entry.setAttribute('id', `legend-${group.key}`);
+      entry.appendChild(swatch);
+      entry.appendChild(text);
+      legendGroup.appendChild(entry);
+    });
+
+    svgElement.appendChild(legendGroup);
+  }
+
+  /**
+   *
+   * 
+   * Draws the legend below the source on the canvas, one swatch and label per group.
+   * @param {ILayoutCanvasContext} context - The 2D rendering context for drawing on the canvas.
+   * @param {ILayoutPlotGroup[]} groups - The plotted groups.
+   */
+  private _plottingCanvasLegend(context: ILayoutCanvasContext, groups: ILayoutPlotGroup[]): void {
+    const ratio = this.config.ratio as number;
+    const { fontSize, rowHeight } = this._legendMetrics(groups);
+
+    groups.forEach((group, i) => {
+      const top = this._source.height + (rowHeight / 2) + (i * rowHeight);
+
+      /** Draw the color swatch **/
+      context.fillStyle = group.innerColor;
+      context.beginPath();
+      context.rect((rowHeight / 2) * ratio, top * ratio, fontSize * ratio, fontSize * ratio);
+      context.fill();
+      context.strokeStyle = this.config.strokeColor as string;
+      context.lineWidth = this.config.lineWidth as number * ratio;
+      context.stroke();
+
+      /** Draw the label next to the swatch **/
+      context.font = `${fontSize * ratio}px ${this.config.fonts?.family}`;
+      context.textAlign = 'left';
+      context.textBaseline = 'middle';
+      context.fillStyle = this.config.textColor as string;
+      context.fillText(group.label, ((rowHeight / 2) + (fontSize * 1.5)) * ratio, (top + (fontSize / 2)) * ratio);
+    });
+  }
+
+  /**
+   *
+   * 
+   * Collects the rectangles of every leftover region of a calculation, in drawing order.
+   * @param {ILayoutResult} calculation - The result of {@link calculate}.
+   * @returns {IRectMatrixResult[][]} The non-empty `remain`, `remainSecondary` and `remainCorner` groups.
+   */
+  protected _remainGroups(calculation: ILayoutResult): IRectMatrixResult[][] {
+    const keys: RemainGroup[] = ['remain', 'remainSecondary', 'remainCorner'];
+    return keys
+      .map((key) => calculation[key] as IRectMatrixResult[] | undefined)
+      .filter((rects): rects is IRectMatrixResult[] => !!rects && rects.length > 0);
+  }
+
+  /**
+   *
+   * 
+   * Collects the bands of the source taken by the allowances, drawn below the targets.
+   * + `edge` : the unused strip on each side of the source.
+   * + `kerf` : the blade kerf between every two adjacent targets.
+   * @param {ILayoutResult} calculation - The result of {@link calculate}.
+   * @returns {{ edge: IRectPlotConfig[]; kerf: IRectPlotConfig[] }} The bands, in source units.
+   */
+  private _allowanceBands(calculation: ILayoutResult): { edge: IRectPlotConfig[]; kerf: IRectPlotConfig[]; } {
+    const edge = this._allowance.edge as Required<ISheetEdge>;
+    const kerf = this._allowance.kerf;
+    const { width, height } = this._source;
+
+    const edges = [
+      { x: 0, y: 0, width, height: edge.top },
+      { x: width - edge.right, y: edge.top, width: edge.right, height: height - edge.top - edge.bottom },
+      { x: 0, y: height - edge.bottom, width, height: edge.bottom },
+      { x: 0, y: edge.top, width: edge.left, height: height - edge.top - edge.bottom }
+    ].filter((band) => band.width > 0 && band.height > 0);
+
+    const kerfs: IRectPlotConfig[] = [];
+    if (kerf > 0) {
+      const rects = [calculation.main, ...this._remainGroups(calculation)].flat().map((rect) => rect.outer);
+      const key = (value: number) => value.toFixed(6);
+      const byLeft = new Map<string, IRectPlotConfig[]>();
+      const byTop = new Map<string, IRectPlotConfig[]>();
+      rects.forEach((rect) => {
+        byLeft.set(key(rect.x as number), [...(byLeft.get(key(rect.x as number)) ?? []), rect]);
+        byTop.set(key(rect.y as number), [...(byTop.get(key(rect.y as number)) ?? []), rect]);
+      });
+
+      /** a kerf band runs between a target and every neighbour starting one kerf after it **/
+      rects.forEach((rect) => {
+        const x = rect.x as number;
+        const y = rect.y as number;
+        (byLeft.get(key(x + rect.width + kerf)) ?? []).forEach((next) => {
+          const top = Math.max(y, next.y as number);
+          const bottom = Math.min(y + rect.height, (next.y as number) + next.height);
+          if (bottom > top) {
+            kerfs.push({ x: x + rect.width, y: top, width: kerf, height: bottom - top });
+          }
+        });
+        (byTop.get(key(y + rect.height + kerf)) ?? []).forEach((next) => {
+          const left = Math.max(x, next.x as number);
+          const right = Math.min(x + rect.width, (next.x as number) + next.width);
+          if (right > left) {
+            kerfs.push({ x: left, y: y + rect.height, width: right - left, height: kerf });
+          }
+        });
+      });
+    }
+
+    return { edge: edges, kerf: kerfs };
+  }
+
+  /**
+   *
+   * 
+   * Draws plain filled bands on an SVG document, eq. the {@link _allowanceBands allowance bands}.
+   * @param {SvgNodeClass} svgElement - The SVG element to draw on.
+   * @param {IRectPlotConfig[]} bands - The bands to draw, in source units.
+   * @param {string} color - The fill color of the bands.
+   * @param {string} id - The id of the group holding the bands.
+   */
+  private _plottingSvgBands(svgElement: SvgNodeClass, bands: IRectPlotConfig[], color: string, id: string): void {
+    if (bands.length === 0) {
+      return;
+    }
+    const ratio = this.config.ratio as number;
+    const bandGroup = new SvgNodeClass('g');
+    bandGroup.setAttribute('id', id);
+
+    bands.forEach((band) => {
+      const svgBand = new SvgNodeClass('rect');
+      svgBand.setAttribute('x', `${band.x as number * ratio}`);
+      svgBand.setAttribute('y', `${band.y as number * ratio}`);
+      svgBand.setAttribute('width', `${band.width * ratio}`);
+      svgBand.setAttribute('height', `${band.height * ratio}`);
+      svgBand.setAttribute('fill', color);
+      bandGroup.appendChild(svgBand);
+    });
+
+    svgElement.appendChild(bandGroup);
+  }
+
+  /**
+   *
+   * 
+   * Draws plain filled bands on the canvas, eq. the {@link _allowanceBands allowance bands}.
+   * @param {ILayoutCanvasContext} context - The 2D rendering context for drawing on the canvas.
+   * @param {IRectPlotConfig[]} bands - The bands to draw, in source units.
+   * @param {string} color - The fill color of the bands.
+   */
+  private _plottingCanvasBands(context: ILayoutCanvasContext, bands: IRectPlotConfig[], color: string): void {
+    const ratio = this.config.ratio as number;
+    context.fillStyle = color;
+    bands.forEach((band) => {
+      context.fillRect(band.x as number * ratio, band.y as number * ratio, band.width * ratio, band.height * ratio);
+    });
+  }
+
+  /**
+   *
+   * 
+   * Calculates the spacing of the offcut hatching, in source units.
+   * @returns {number} The distance between two hatch lines.
+   */
+  private _hatchSpacing(): number {
+    return Math.max(this._source.width, this._source.height) * 0.015;
+  }
+
+  /**
+   *
+   * 
+   * Draws the offcuts as hatched regions on an SVG document.
+   * @param {SvgNodeClass} svgElement - The SVG element holding the hatch pattern.
+   * @param {SvgNodeClass} group - The group to draw the offcuts in.
+   * @param {IRectPlotConfig[]} offcuts - The offcuts, in source units.
+   */
+  private _plottingSvgOffcuts(svgElement: SvgNodeClass, group: SvgNodeClass, offcuts: IRectPlotConfig[]): void {
+    if (offcuts.length === 0) {
+      return;
+    }
+    const ratio = this.config.ratio as number;
+    const color = this.config.offcutColor as string;
+    const lineWidth = `${this.config.lineWidth as number * 4}pt`;
+    const spacing = this._hatchSpacing() * ratio;
+
+    /** Create the hatch pattern **/
+    const defs = new SvgNodeClass('defs');
+    const pattern = new SvgNodeClass('pattern');
+    pattern.setAttribute('id', 'offcut-hatch');
+    pattern.setAttribute('patternUnits', 'userSpaceOnUse');
+    pattern.setAttribute('width', `${spacing}`);
+    pattern.setAttribute('height', `${spacing}`);
+    pattern.setAttribute('patternTransform', 'rotate(45)');
+    const line = new SvgNodeClass('line');
+    line.setAttribute('x1', '0');
+    line.setAttribute('y1', '0');
+    line.setAttribute('x2', '0');
+    line.setAttribute('y2', `${spacing}`);
+    line.setAttribute('stroke', color);
+    line.setAttribute('stroke-width', `${spacing / 6}`);
+    pattern.appendChild(line);
+    defs.appendChild(pattern);
+    svgElement.insertBefore(defs, svgElement.firstChild);
+
+    const offcutGroup = new SvgNodeClass('g');
+    offcutGroup.setAttribute('id', 'offcuts');
+    offcuts.forEach((offcut, i) => {
+      const svgOffcut = new SvgNodeClass('rect');
+      svgOffcut.setAttribute('id', `offcut-${i + 1}`);
+      svgOffcut.setAttribute('x', `${offcut.x as number * ratio}`);
+      svgOffcut.setAttribute('y', `${offcut.y as number * ratio}`);
+      svgOffcut.setAttribute('width', `${offcut.width * ratio}`);
+      svgOffcut.setAttribute('height', `${offcut.height * ratio}`);
+      svgOffcut.setAttribute('fill', 'url(#offcut-hatch)');
+      svgOffcut.setAttribute('stroke', color);
+      svgOffcut.setAttribute('stroke-width', String(lineWidth));
+      svgOffcut.setAttribute('stroke-dasharray', `${spacing / 2}`);
+      svgOffcut.setAttribute('vector-effect', 'non-scaling-stroke');
+      offcutGroup.appendChild(svgOffcut);
+    });
+    group.appendChild(offcutGroup);
+  }
+
+  /**
+   *
+   *
+   * Places the crop marks of a target, along its trim lines and inside its own margin,
+   * so they never overlap the bleed of the target nor a neighbouring target.
+   * Each mark runs from the outer edge over three quarters of the margin, a side without margin gets no mark.
+   * @param {IRectMatrixResult} rect - The target.
+   * @returns {[ILayoutCoords, ILayoutCoords][]} The start and end of every mark, in source units.
+   */
+  private _cropMarks(rect: IRectMatrixResult): [ILayoutCoords, ILayoutCoords][] {
+    const trim = rect.inner;
+    const printed = rect.bleed ?? rect.inner;
+    const outer = rect.outer;
+    const outerX = outer.x as number;
+    const outerY = outer.y as number;
+    const outerRight = outerX + outer.width;
+    const outerBottom = outerY + outer.height;
+
+    /** the free room between the printed area and the outer edge, on each side **/
+    const left = (printed.x as number) - outerX;
+    const right = outerRight - ((printed.x as number) + printed.width);
+    const top = (printed.y as number) - outerY;
+    const bottom = outerBottom - ((printed.y as number) + printed.height);
+
+    const marks: [ILayoutCoords, ILayoutCoords][] = [];
+    [trim.y as number, (trim.y as number) + trim.height].forEach((y) => {
+      if (left > 0) {
+        marks.push([{ x: outerX, y }, { x: outerX + (left * 0.75), y }]);
+      }
+      if (right > 0) {
+        marks.push([{ x: outerRight - (right * 0.75), y }, { x: outerRight, y }]);
+      }
+    });
+    [trim.x as number, (trim.x as number) + trim.width].forEach((x) => {
+      if (top > 0) {
+        marks.push([{ x, y: outerY }, { x, y: outerY + (top * 0.75) }]);
+      }
+      if (bottom > 0) {
+        marks.push([{ x, y: outerBottom - (bottom * 0.75) }, { x, y: outerBottom }]);
+      }
+    });
+    return marks;
+  }
 
-        context.fillText(`${startIndex + i + 1}`, textCoordinateX, textCoordinateY);
-        context.save();
+  /**
+   *
+   *
+   * Places the printer's marks of the sheet in the sheet edges, the only room of the source never cut into targets.
+   * + A registration target in the middle of every edge.
+   * + The colour bar along the bottom edge, from the left, up to the middle registration target.
+   * + The info slug along the top edge from the left, or along the bottom edge from the right when there is no top edge.
+   * @param {ILayoutResult} calculation - The layout to mark.
+   * @returns {ILayoutSheetMarks} The marks turned on in the config that find room, in source units.
+   */
+  private _sheetMarks(calculation: ILayoutResult): ILayoutSheetMarks {
+    const edge = this._allowance.edge as Required<ISheetEdge>;
+    const { width, height } = this._source;
+    /** a registration target is at most 8mm wide **/
+    const maxRadius = CalculatorLayoutClass.convert(4, 'mm', this._unit);
+    const marks: ILayoutSheetMarks = { registration: [], colorBar: [], slug: null };
+
+    if (this.config.registrationMarks) {
+      [
+        { x: width / 2, y: edge.top / 2, room: edge.top },
+        { x: width - (edge.right / 2), y: height / 2, room: edge.right },
+        { x: width / 2, y: height - (edge.bottom / 2), room: edge.bottom },
+        { x: edge.left / 2, y: height / 2, room: edge.left }
+      ].filter((side) => side.room > 0).forEach((side) => {
+        marks.registration.push({ x: side.x, y: side.y, radius: Math.min(side.room * 0.35, maxRadius) });
+      });
+    }
+
+    /** the top and bottom edges, starting after the left edge and ending before the right one **/
+    const strip = (side: 'top' | 'bottom') => ({
+      y: side === 'top' ? 0 : height - edge.bottom,
+      height: edge[side],
+      start: Math.max(edge.left, edge[side] * 0.2),
+      end: width - Math.max(edge.right, edge[side] * 0.2)
+    });
+    const barSide = edge.bottom > 0 ? 'bottom' : 'top';
+    const slugSide = edge.top > 0 ? 'top' : 'bottom';
+
+    if (this.config.colorBar && edge[barSide] > 0) {
+      const band = strip(barSide);
+      const size = Math.min(band.height * 0.6, maxRadius * 2);
+      const center = marks.registration.find((mark) => Math.abs(mark.y - (band.y + (band.height / 2))) < size);
+      const limit = center ? center.x - (center.radius * 1.4) - (size / 2) : band.end;
+      const count = Math.max(Math.min(COLOR_BAR.length, Math.floor((limit - band.start) / size)), 0);
+      for (let i = 0; i < count; i++) {
+        marks.colorBar.push({ x: band.start + (i * size), y: band.y + ((band.height - size) / 2), width: size, height: size, color: COLOR_BAR[i] });
       }
     }
+
+    if (this.config.slug && edge[slugSide] > 0) {
+      const band = strip(slugSide);
+      const size = Math.min(band.height * 0.5, this.config.fonts?.size as number);
+      /** share the bottom edge with the colour bar by starting from the right **/
+      const align = slugSide === barSide && marks.colorBar.length > 0 ? 'end' : 'start';
+      marks.slug = {
+        x: align === 'start' ? band.start : band.end,
+        y: band.y + (band.height / 2) + (size * 0.35),
+        size,
+        align,
+        text: this._pdfInfo(calculation).lines.join(' | ')
+      };
+    }
+
+    return marks;
   }
 
   /**
-  * @public
-  * 
-  * Draws the calculated layout on an SVG document and returns the SVG data.
-  * @remarks
-  * - It first calculates the layout, then draws the main and remaining rectangles,
-  * - and finally returns the SVG data as either a base64 encoded data URL or a raw SVG string.
-  * 
-  * ***`*note`**: although **`<svg/>`** can work using **`cm`** unit, but it is set based on `pixel` unit with *{@link config ratio multiplier}* to achieve the same result. 
-  * because cm unit will cause clipping **`issue`** when viewing in browser for unknown reason.*
-  * 
-  * @param {boolean} [resourceURL=true] 
-  * + If `true`, returns the SVG as a base64 encoded data URL.
-  * + If `false`, returns the raw SVG string. Defaults to `true`.
-  * @defaultValue 
-  * >*resourceURL*: `boolean` =  `true`
-  * @returns {string | SVGSVGElement} The SVG data as either a base64 encoded data URL or a raw SVG string.
-  * @throws Throws an error if there is an issue during the drawing process.
-  * @example
-  * + Class Declaration
-  * ```ts
-  * 
-  *  // class declaration
-  *  const calculator = new CalculatorLayoutClass(A, B, C);
-  *  // calculate layout. 
-  *  const result = calculator.calculate(); 
-  * 
-  * ```
-  * + `drawing` output as **`base64 .svg`**
-  * ```ts
-  * 
-  *  // draw layout
-  *  const layout = calculator.drawSvg(); // ** this will return base64Image **
-  *  // base64 .svg result
-  *  console.log(`base64 svg url :`, layout);
-  *  
-  * ```
-  * + `drawing` output as **`<svg/>`** element
-  * ```ts
-  * 
-  *  // ** If you need to returned `<svg/>` element, set `param` to `false` **
-  *  const svgElement: SVGSVGElement = calculator.drawSvg(false);
-  *  
-  *  console.log(`svg :`, svgElement);
-  *  
-  *  ```
-  * *`note`: You can skip `calculate()` method if you want, drawing will automatically calculating the layout to plot the rects in.
-  * 
-  */
-  public drawSvg(resourceURL: boolean = true): string | SVGSVGElement {
-
-    /** Variable Declaration **/
-    const width = this._source.width;
-    const height = this._source.height;
-    const paperColor = this.config.paperColor as string;
-    const mainInnerColor = this.config.mainInnerColor as string;
-    const mainOuterColor = this.config.mainOuterColor as string;
-    const remainInnerColor = this.config.remainInnerColor as string;
-    const remainOuterColor = this.config.remainOuterColor as string;
-    const strokeColor = this.config.strokeColor as string;
-    const lineWidth = `${this.config.lineWidth as number * 3.5}pt`; // to return 1 point
-    // const unit = 'cm'; /** Causing clipping in webview **/
-    const ratio = this.config.ratio as number; /** ratio px to cm **/
-
-
-    /** Initialize svg document **/
-    this._Element = document.createElementNS('http://www.w3.org/2000/svg', 'svg') as SVGSVGElement;
-    const svgElement = this._Element;
-    svgElement.setAttribute('version', '1.1');
-    svgElement.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-    svgElement.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
-    svgElement.setAttribute('xml:space', 'preserve');
-    svgElement.setAttribute('viewBox', `0 0 ${width * ratio} ${height * ratio}`);
-    svgElement.setAttribute('preserveAspectRatio', `xMidYMid meet`);
-    svgElement.setAttribute('width', `${width * ratio}`);
-    svgElement.setAttribute('height', `${height * ratio}`);
-    svgElement.setAttribute('id', 'calculation-layout');
-
-    /** Create Groups **/
-    const mainGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-    mainGroup.setAttribute('id', 'layout');
-
-    /** by first `creating paper` using size of the source **/
-    const svgPaperRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    mainGroup.setAttribute('id', 'paper');
-    svgPaperRect.setAttribute('x', `0`);
-    svgPaperRect.setAttribute('y', `0`);
-    svgPaperRect.setAttribute('width', `${width * ratio}`);
-    svgPaperRect.setAttribute('height', `${height * ratio}`);
-    svgPaperRect.setAttribute('fill', `${paperColor}`);
-    svgPaperRect.setAttribute('anchor', 'middle');
-    svgPaperRect.setAttribute('vector-effect', 'non-scaling-stroke'); /** add this for prevent scaling stroke width **/
-    svgPaperRect.setAttribute('stroke', strokeColor);
-    svgPaperRect.setAttribute('stroke-width', String(lineWidth));
-    svgPaperRect.setAttribute('vector-effect', 'non-scaling-stroke');
-    /* Add paperto the group */
-    mainGroup.appendChild(svgPaperRect);
+   *
+   *
+   * Draws the printer's marks of the sheet on an SVG document.
+   * @param {SvgNodeClass} svgElement - The SVG element to draw on.
+   * @param {ILayoutSheetMarks} marks - The marks, see {@link _sheetMarks}.
+   */
+  private _plottingSvgMarks(svgElement: SvgNodeClass, marks: ILayoutSheetMarks): void {
+    if (marks.registration.length === 0 && marks.colorBar.length === 0 && !marks.slug) {
+      return;
+    }
+    const ratio = this.config.ratio as number;
+    const color = this.config.markColor as string;
+    const lineWidth = `${this.config.lineWidth as number * 4}pt`;
+
+    const markGroup = new SvgNodeClass('g');
+    markGroup.setAttribute('id', 'printer-marks');
+
+    marks.registration.forEach((mark) => {
+      const x = mark.x * ratio;
+      const y = mark.y * ratio;
+      const radius = mark.radius * ratio;
+      const svgCircle = new SvgNodeClass('circle');
+      svgCircle.setAttribute('cx', `${x}`);
+      svgCircle.setAttribute('cy', `${y}`);
+      svgCircle.setAttribute('r', `${radius}`);
+      svgCircle.setAttribute('fill', 'none');
+      svgCircle.setAttribute('stroke', color);
+      svgCircle.setAttribute('stroke-width', String(lineWidth));
+      svgCircle.setAttribute('vector-effect', 'non-scaling-stroke');
+      /** the cross hair runs past the circle **/
+      const svgCross = new SvgNodeClass('path');
+      svgCross.setAttribute('d', `M ${x - (radius * 1.4)} ${y} H ${x + (radius * 1.4)} M ${x} ${y - (radius * 1.4)} V ${y + (radius * 1.4)}`);
+      svgCross.setAttribute('stroke', color);
+      svgCross.setAttribute('stroke-width', String(lineWidth));
+      svgCross.setAttribute('vector-effect', 'non-scaling-stroke');
+      markGroup.appendChild(svgCircle);
+      markGroup.appendChild(svgCross);
+    });
 
-    try {
+    marks.colorBar.forEach((patch) => {
+      const svgPatch = new SvgNodeClass('rect');
+      svgPatch.setAttribute('x', `${patch.x as number * ratio}`);
+      svgPatch.setAttribute('y', `${patch.y as number * ratio}`);
+      svgPatch.setAttribute('width', `${patch.width * ratio}`);
+      svgPatch.setAttribute('height', `${patch.height * ratio}`);
+      svgPatch.setAttribute('fill', patch.color);
+      markGroup.appendChild(svgPatch);
+    });
 
-      const calculation = this.calculate();
-      const mainRects = calculation.main;
-      const remainRects = calculation.remain;
+    if (marks.slug) {
+      const svgSlug = new SvgNodeClass('text');
+      svgSlug.setAttribute('x', `${marks.slug.x * ratio}`);
+      svgSlug.setAttribute('y', `${marks.slug.y * ratio}`);
+      svgSlug.setAttribute('text-anchor', marks.slug.align);
+      svgSlug.setAttribute('font-size', `${marks.slug.size * ratio}`);
+      svgSlug.setAttribute('font-family', `${this.config.fonts?.family}`);
+      svgSlug.setAttribute('fill', color);
+      svgSlug.textContent = marks.slug.text;
+      markGroup.appendChild(svgSlug);
+    }
 
-      /**  Append groups to SVG before plotting **/
-      svgElement.appendChild(mainGroup);
-      if (remainRects) {
-        svgElement.appendChild(mainGroup);
-      }
+    svgElement.appendChild(markGroup);
+  }
 
-      /** Draw Layout with Group **/
-      this._plottingSvgRectLayout(mainGroup as SVGSVGElement, mainRects, 0, mainOuterColor, mainInnerColor);
-      if (remainRects) {
-        this._plottingSvgRectLayout(mainGroup as SVGSVGElement, remainRects, mainRects.length, remainOuterColor, remainInnerColor);
-      }
+  /**
+   *
+   *
+   * Draws the printer's marks of the sheet on the canvas.
+   * @param {ILayoutCanvasContext} context - The 2D rendering context for drawing on the canvas.
+   * @param {ILayoutSheetMarks} marks - The marks, see {@link _sheetMarks}.
+   */
+  private _plottingCanvasMarks(context: ILayoutCanvasContext, marks: ILayoutSheetMarks): void {
+    const ratio = this.config.ratio as number;
+    const color = this.config.markColor as string;
+
+    context.strokeStyle = color;
+    context.lineWidth = this.config.lineWidth as number * ratio;
+    marks.registration.forEach((mark) => {
+      const x = mark.x * ratio;
+      const y = mark.y * ratio;
+      const radius = mark.radius * ratio;
+      context.beginPath();
+      context.moveTo(x + radius, y);
+      context.arc(x, y, radius, 0, 2 * Math.PI);
+      /** the cross hair runs past the circle **/
+      context.moveTo(x - (radius * 1.4), y);
+      context.lineTo(x + (radius * 1.4), y);
+      context.moveTo(x, y - (radius * 1.4));
+      context.lineTo(x, y + (radius * 1.4));
+      context.stroke();
+    });
 
-      // console.log('SVG Element', svgElement);
-      if (resourceURL) {
-        const serializedSvg = new XMLSerializer().serializeToString(svgElement);
-        const base64svg = `data:image/svg+xml;charset=utf-8, ${serializedSvg}`;
-        return base64svg;
-      } else {
-        return svgElement;
-      }
+    marks.colorBar.forEach((patch) => {
+      context.fillStyle = patch.color;
+      context.fillRect(patch.x as number * ratio, patch.y as number * ratio, patch.width * ratio, patch.height * ratio);
+    });
 
-    } catch (error) {
-      throw new Error(`Error in drawing process ${error}`);
+    if (marks.slug) {
+      context.font = `${marks.slug.size * ratio}px ${this.config.fonts?.family}`;
+      context.textAlign = marks.slug.align === 'start' ? 'left' : 'right';
+      context.textBaseline = 'alphabetic';
+      context.fillStyle = color;
+      context.fillText(marks.slug.text, marks.slug.x * ratio, marks.slug.y * ratio);
     }
   }
 
   /**
    *
-   * Draws the rectangles on an SVG document. 
-   * - It first draws the outer rectangle, 
-   * - then the inner rectangle, 
-   * - and finally the text in the middle of the inner rectangle.
-   * @param {SVGSVGElement} svgElement - The SVG element to draw on.
-   * @param {IRectMatrixResult[]} rectangles - The array of rectangles to draw.
-   * @param {number} startIndex - The starting index for numbering the rectangles.
-   * @param {string} outerColor - The color for the outer rectangle.
-   * @param {string} innerColor - The color for the inner rectangle.
-   * @returns {SVGSVGElement} The SVG element with the rectangles drawn.
+   *
+   * Measures a layout for the annotation layer:
+   * + the source width and height, in the dimension band above and left of it,
+   * + the trim size of the first target, a quarter into it so the lines clear its number,
+   * + the margin on its left and top side, and the gutter to the next target of its row and of its column,
+   * + the width and height of every leftover group, along its bottom and right side.
+   * @param {ILayoutResult} calculation - The layout to measure.
+   * @returns {ILayoutDimension[]} The dimension lines, labelled in the input unit with the configured precision.
    */
-  private _plottingSvgRectLayout(
-    svgElement: SVGSVGElement,
-    rectangles: IRectMatrixResult[],
-    startIndex: number,
-    outerColor: string,
-    innerColor: string): SVGSVGElement {
+  private _dimensions(calculation: ILayoutResult): ILayoutDimension[] {
+    const { band, fontSize } = this._dimensionMetrics();
+    const precision = this.config.dimensionPrecision as number;
+    const dimensions: ILayoutDimension[] = [];
+    const add = (from: ILayoutCoords, to: ILayoutCoords) => {
+      const value = Math.hypot(to.x - from.x, to.y - from.y);
+      if (value > 0) {
+        dimensions.push({ from, to, value, label: `${Number(value.toFixed(precision))} ${this._unit}` });
+      }
+    };
 
-    // console.log('Rectangles :', rectangles)
+    /** the source, in the band **/
+    add({ x: 0, y: -band / 2 }, { x: this._source.width, y: -band / 2 });
+    add({ x: -band / 2, y: 0 }, { x: -band / 2, y: this._source.height });
+
+    const piece = calculation.main[0];
+    if (piece) {
+      const inner = piece.inner;
+      const printed = piece.bleed ?? piece.inner;
+      const x = inner.x as number;
+      const y = inner.y as number;
+      const right = x + inner.width;
+      const bottom = y + inner.height;
+
+      /** the trim size **/
+      add({ x, y: y + (inner.height / 4) }, { x: right, y: y + (inner.height / 4) });
+      add({ x: x + (inner.width / 4), y }, { x: x + (inner.width / 4), y: bottom });
+
+      /** the margin, from the outer edge to the bleed **/
+      add({ x: piece.outer.x as number, y: y + (inner.height * 0.75) }, { x: printed.x as number, y: y + (inner.height * 0.75) });
+      add({ x: x + (inner.width * 0.75), y: piece.outer.y as number }, { x: x + (inner.width * 0.75), y: printed.y as number });
+
+      /** the gutter, from trim to trim **/
+      const next = calculation.main.find((rect) => rect.grid.row === piece.grid.row && rect.grid.column === piece.grid.column + 1);
+      const below = calculation.main.find((rect) => rect.grid.column === piece.grid.column && rect.grid.row === piece.grid.row + 1);
+      if (next && (next.inner.x as number) > right) {
+        add({ x: right, y: y + (inner.height * 0.75) }, { x: next.inner.x as number, y: y + (inner.height * 0.75) });
+      }
+      if (below && (below.inner.y as number) > bottom) {
+        add({ x: x + (inner.width * 0.75), y: bottom }, { x: x + (inner.width * 0.75), y: below.inner.y as number });
+      }
+    }
 
-    const strokeColor = this.config.strokeColor as string;
-    const lineWidth = `${this.config.lineWidth as number * 4}pt`; // to return 1 point
-    const textColor = this.config.textColor as string;
+    /** every leftover group, one label height inside its bottom and right side **/
+    this._remainGroups(calculation).forEach((rects) => {
+      const left = Math.min(...rects.map((rect) => rect.outer.x as number));
+      const top = Math.min(...rects.map((rect) => rect.outer.y as number));
+      const right = Math.max(...rects.map((rect) => (rect.outer.x as number) + rect.outer.width));
+      const bottom = Math.max(...rects.map((rect) => (rect.outer.y as number) + rect.outer.height));
+      add({ x: left, y: bottom - fontSize }, { x: right, y: bottom - fontSize });
+      add({ x: right - fontSize, y: top }, { x: right - fontSize, y: bottom });
+    });
 
-    const fontFamily = this.config.fonts?.family;
-    // const unit = 'cm'; // switch `unit` to `ratio` to fix webview clipping issue
-    const ratio = this.config.ratio as number; // ** Ratio px to cm **
+    return dimensions;
+  }
 
+  /**
+   *
+   *
+   * Gets the arrowheads and the label box of a dimension line, in source units.
+   * @param {ILayoutDimension} dimension - The dimension line.
+   * @returns {{ arrows: ILayoutCoords[][]; box: IRectPlotConfig; fontSize: number }} The two arrowheads as triangles,
+   * the box behind the label, centered on the line, and the font size of the label.
+   */
+  private _dimensionShapes(dimension: ILayoutDimension): { arrows: ILayoutCoords[][]; box: IRectPlotConfig; fontSize: number; } {
+    const fontSize = this._dimensionMetrics().fontSize;
+    const { from, to, value } = dimension;
+    /** the unit vector along the line and across it **/
+    const ux = (to.x - from.x) / value;
+    const uy = (to.y - from.y) / value;
+    const length = Math.min(fontSize * 0.6, value / 3);
+    const half = length * 0.35;
+    const arrow = (tip: ILayoutCoords, direction: number) => [
+      tip,
+      { x: tip.x - (direction * ux * length) - (uy * half), y: tip.y - (direction * uy * length) + (ux * half) },
+      { x: tip.x - (direction * ux * length) + (uy * half), y: tip.y - (direction * uy * length) - (ux * half) }
+    ];
+
+    /** the label width is estimated, about 0.6 font size per character **/
+    const boxWidth = (dimension.label.length * fontSize * 0.6) + (fontSize * 0.4);
+    const boxHeight = fontSize * 1.2;
+    return {
+      arrows: [arrow(from, -1), arrow(to, 1)],
+      box: {
+        x: ((from.x + to.x) / 2) - (boxWidth / 2),
+        y: ((from.y + to.y) / 2) - (boxHeight / 2),
+        width: boxWidth,
+        height: boxHeight
+      },
+      fontSize
+    };
+  }
 
-    for (let i = 0; i < rectangles.length; i++) {
-      const outerRect = rectangles[i].outer;
-      const outerRectWidth = outerRect.width * ratio;
-      const outerRectHeight = outerRect.height * ratio;
-      const outerRectX = outerRect.x as number * ratio;
-      const outerRectY = outerRect.y as number * ratio;
+  /**
+   *
+   *
+   * Draws the dimension lines on an SVG document, with their arrowheads and labels.
+   * @param {SvgNodeClass} svgElement - The SVG element to draw on.
+   * @param {ILayoutDimension[]} dimensions - The dimension lines, see {@link _dimensions}.
+   */
+  private _plottingSvgDimensions(svgElement: SvgNodeClass, dimensions: ILayoutDimension[]): void {
+    const ratio = this.config.ratio as number;
+    const color = this.config.dimensionColor as string;
+    const lineWidth = `${this.config.lineWidth as number * 4}pt`;
+
+    const dimensionGroup = new SvgNodeClass('g');
+    dimensionGroup.setAttribute('id', 'dimensions');
+
+    dimensions.forEach((dimension) => {
+      const { arrows, box, fontSize } = this._dimensionShapes(dimension);
+
+      const svgLine = new SvgNodeClass('line');
+      svgLine.setAttribute('x1', `${dimension.from.x * ratio}`);
+      svgLine.setAttribute('y1', `${dimension.from.y * ratio}`);
+      svgLine.setAttribute('x2', `${dimension.to.x * ratio}`);
+      svgLine.setAttribute('y2', `${dimension.to.y * ratio}`);
+      svgLine.setAttribute('stroke', color);
+      svgLine.setAttribute('stroke-width', String(lineWidth));
+      svgLine.setAttribute('vector-effect', 'non-scaling-stroke');
+      dimensionGroup.appendChild(svgLine);
+
+      arrows.forEach((arrow) => {
+        const svgArrow = new SvgNodeClass('polygon');
+        svgArrow.setAttribute('points', arrow.map((point) => `${point.x * ratio},${point.y * ratio}`).join(' '));
+        svgArrow.setAttribute('fill', color);
+        dimensionGroup.appendChild(svgArrow);
+      });
+
+      /** the label sits on a paper colored box over the middle of the line **/
+      const svgBox = new SvgNodeClass('rect');
+      svgBox.setAttribute('x', `${box.x as number * ratio}`);
+      svgBox.setAttribute('y', `${box.y as number * ratio}`);
+      svgBox.setAttribute('width', `${box.width * ratio}`);
+      svgBox.setAttribute('height', `${box.height * ratio}`);
+      svgBox.setAttribute('fill', this.config.paperColor as string);
+      dimensionGroup.appendChild(svgBox);
+
+      const svgLabel = new SvgNodeClass('text');
+      svgLabel.setAttribute('x', `${((dimension.from.x + dimension.to.x) / 2) * ratio}`);
+      svgLabel.setAttribute('y', `${((dimension.from.y + dimension.to.y) / 2) * ratio}`);
+      svgLabel.setAttribute('text-anchor', 'middle');
+      svgLabel.setAttribute('dominant-baseline', 'middle');
+      svgLabel.setAttribute('font-size', `${fontSize * ratio}`);
+      svgLabel.setAttribute('font-family', `${this.config.fonts?.family}`);
+      svgLabel.setAttribute('fill', color);
+      svgLabel.textContent = dimension.label;
+      dimensionGroup.appendChild(svgLabel);
+    });
 
-      const innerRect = rectangles[i].inner;
-      const innerRectWidth = innerRect.width * ratio;
-      const innerRectHeight = innerRect.height * ratio;
-      const innerRectX = innerRect.x as number * ratio;
-      const innerRectY = innerRect.y as number * ratio;
+    svgElement.appendChild(dimensionGroup);
+  }
 
-      const fontSize = this._calculateFontSize(innerRectWidth, innerRectHeight);
-      console.log('svg fontsize:', fontSize);
-      const textCoordinateX = (innerRectX + (innerRectWidth / 2));
-      const textCoordinateY = (innerRectY + (innerRectHeight / 2));
+  /**
+   *
+   *
+   * Draws the dimension lines on the canvas, with their arrowheads and labels.
+   * @param {ILayoutCanvasContext} context - The 2D rendering context for drawing on the canvas.
+   * @param {ILayoutDimension[]} dimensions - The dimension lines, see {@link _dimensions}.
+   */
+  private _plottingCanvasDimensions(context: ILayoutCanvasContext, dimensions: ILayoutDimension[]): void {
+    const ratio = this.config.ratio as number;
+    const color = this.config.dimensionColor as string;
 
-      /** Draw SVG Outer Rectangles **/
-      const svgOuterRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-      svgOuterRect.setAttribute('x', `${outerRectX}`);
-      svgOuterRect.setAttribute('y', `${outerRectY}`);
-      svgOuterRect.setAttribute('width', `${outerRectWidth}`);
-      svgOuterRect.setAttribute('height', `${outerRectHeight}`);
-      svgOuterRect.setAttribute('fill', outerColor);
-      svgOuterRect.setAttribute('stroke', strokeColor);
-      svgOuterRect.setAttribute('stroke-width', String(lineWidth));
-      svgOuterRect.setAttribute('vector-effect', 'non-scaling-stroke');
+    dimensions.forEach((dimension) => {
+      const { arrows, box, fontSize } = this._dimensionShapes(dimension);
 
-      /** Draw SVG Inner Rectangles **/
-      const svgInnerRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-      svgInnerRect.setAttribute('x', `${innerRectX}`);
-      svgInnerRect.setAttribute('y', `${innerRectY}`);
-      svgInnerRect.setAttribute('width', `${innerRectWidth}`);
-      svgInnerRect.setAttribute('height', `${innerRectHeight}`);
-      svgInnerRect.setAttribute('fill', innerColor);
-      svgInnerRect.setAttribute('vector-effect', 'non-scaling-stroke');
+      context.strokeStyle = color;
+      context.lineWidth = this.config.lineWidth as number * ratio;
+      context.beginPath();
+      context.moveTo(dimension.from.x * ratio, dimension.from.y * ratio);
+      context.lineTo(dimension.to.x * ratio, dimension.to.y * ratio);
+      context.stroke();
 
-      /** Draw SVG Text in the middle of inner rect **/
-      const svgText = document.createElementNS('http://www.w3.org/2000/svg', 'text');
-      svgText.setAttribute('x', `${textCoordinateX}`);
-      svgText.setAttribute('y', `${textCoordinateY}`); // 10 is adjustment hack for centering `text`.
+      context.fillStyle = color;
+      arrows.forEach((arrow) => {
+        context.beginPath();
+        context.moveTo(arrow[0].x * ratio, arrow[0].y * ratio);
+        arrow.slice(1).forEach((point) => context.lineTo(point.x * ratio, point.y * ratio));
+        context.fill();
+      });
+
+      /** the label sits on a paper colored box over the middle of the line **/
+      context.fillStyle = this.config.paperColor as string;
+      context.fillRect(box.x as number * ratio, box.y as number * ratio, box.width * ratio, box.height * ratio);
+      context.font = `${fontSize * ratio}px ${this.config.fonts?.family}`;
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillStyle = color;
+      context.fillText(dimension.label, ((dimension.from.x + dimension.to.x) / 2) * ratio, ((dimension.from.y + dimension.to.y) / 2) * ratio);
+    });
+  }
+
+  /**
+   *
+   *
+   * Draws the cutting instructions over an SVG document, one dashed line per cut numbered at its start.
+   * @param {SvgNodeClass} svgElement - The SVG element to draw on.
+   * @param {ILayoutCutStep[]} steps - The ordered cuts, see {@link cutSequence}.
+   */
+  private _plottingSvgCuts(svgElement: SvgNodeClass, steps: ILayoutCutStep[]): void {
+    if (steps.length === 0) {
+      return;
+    }
+    const ratio = this.config.ratio as number;
+    const color = this.config.cutLineColor as string;
+    const lineWidth = `${this.config.lineWidth as number * 6}pt`;
+    /** keep the numbers readable on small sources **/
+    const fontSize = Math.min(this.config.fonts?.size as number, Math.max(this._source.width, this._source.height) * 0.02);
+    const dash = this._hatchSpacing() * ratio;
+
+    const cutGroup = new SvgNodeClass('g');
+    cutGroup.setAttribute('id', 'cut-lines');
+
+    steps.forEach((step) => {
+      const horizontal = step.axis === 'horizontal';
+      const position = step.position * ratio;
+      const start = step.start * ratio;
+      const end = step.end * ratio;
+
+      const svgLine = new SvgNodeClass('line');
+      svgLine.setAttribute('id', `cut-${step.step}`);
+      svgLine.setAttribute('x1', `${horizontal ? start : position}`);
+      svgLine.setAttribute('y1', `${horizontal ? position : start}`);
+      svgLine.setAttribute('x2', `${horizontal ? end : position}`);
+      svgLine.setAttribute('y2', `${horizontal ? position : end}`);
+      svgLine.setAttribute('stroke', color);
+      svgLine.setAttribute('stroke-width', String(lineWidth));
+      svgLine.setAttribute('stroke-dasharray', `${dash} ${dash / 2}`);
+      svgLine.setAttribute('vector-effect', 'non-scaling-stroke');
+
+      /** the number sits on the line, one font size after its start **/
+      const svgText = new SvgNodeClass('text');
+      svgText.setAttribute('x', `${horizontal ? start + (fontSize * ratio) : position}`);
+      svgText.setAttribute('y', `${horizontal ? position : start + (fontSize * ratio)}`);
       svgText.setAttribute('text-anchor', 'middle');
-      svgText.setAttribute('font-size', `${fontSize * ratio}`);
-      svgText.setAttribute('font-family', `${fontFamily}`);
-      svgText.setAttribute('fill', `${textColor}`);
-      svgText.textContent = `${startIndex + i + 1}`;
-      // ADD this for fixing text position
       svgText.setAttribute('dominant-baseline', 'middle');
+      svgText.setAttribute('font-size', `${fontSize * ratio}`);
+      svgText.setAttribute('font-family', `${this.config.fonts?.family}`);
+      svgText.setAttribute('font-weight', 'bold');
+      svgText.setAttribute('fill', color);
+      /** outline the number with the paper color so it stays readable over the targets **/
+      svgText.setAttribute('stroke', this.config.paperColor as string);
+      svgText.setAttribute('stroke-width', `${fontSize * ratio * 0.2}`);
+      svgText.setAttribute('paint-order', 'stroke');
+      svgText.textContent = `${step.step}`;
+
+      cutGroup.appendChild(svgLine);
+      cutGroup.appendChild(svgText);
+    });
 
-      /** Create a Group for each Rectangle Set (Outer, Inner, Text) **/
-      const rectGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-      rectGroup.setAttribute('id', `cutting-block-${startIndex + i + 1}`);
-
-      /* Add `Outer Rect` to the group */
-      rectGroup.appendChild(svgOuterRect);
-
-      /* Add `Inner Rect` to the group */
-      rectGroup.appendChild(svgInnerRect);
-
-      /* Add `Text` to the group */
-      rectGroup.appendChild(svgText);
+    svgElement.appendChild(cutGroup);
+  }
 
-      /* Add the Group to the passed `svgElement` */
-      svgElement.appendChild(rectGroup);
-    }
+  /**
+   *
+   *
+   * Draws the offcuts as hatched regions on the canvas.
+   * @param {ILayoutCanvasContext} context - The 2D rendering context for drawing on the canvas.
+   * @param {IRectPlotConfig[]} offcuts - The offcuts, in source units.
+   */
+  private _plottingCanvasOffcuts(context: ILayoutCanvasContext, offcuts: IRectPlotConfig[]): void {
+    const ratio = this.config.ratio as number;
+    const spacing = this._hatchSpacing() * ratio;
+    context.strokeStyle = this.config.offcutColor as string;
+
+    offcuts.forEach((offcut) => {
+      const x = offcut.x as number * ratio;
+      const y = offcut.y as number * ratio;
+      const width = offcut.width * ratio;
+      const height = offcut.height * ratio;
+
+      /** Draw the diagonal hatch lines, clipped to the offcut **/
+      context.save();
+      context.beginPath();
+      context.rect(x, y, width, height);
+      context.clip();
+      context.beginPath();
+      context.lineWidth = spacing / 6;
+      for (let d = -height; d < width; d += spacing) {
+        context.moveTo(x + d, y + height);
+        context.lineTo(x + d + height, y);
+      }
+      context.stroke();
+      context.restore();
 
-    return svgElement;
+      /** Draw the dashed outline **/
+      context.beginPath();
+      context.setLineDash([spacing / 2]);
+      context.lineWidth = this.config.lineWidth as number * ratio;
+      context.rect(x, y, width, height);
+      context.stroke();
+      context.setLineDash([]);
+    });
   }
 
   /**
@@ -984,7 +3153,7 @@ export class CalculatorLayoutClass {
   *  const calculator = new CalculatorLayoutClass(A, B, C);
   * 
   *  // draw layout to returned `<svg/>` element
-  *  const svgElement: SVGSVGElement = calculator.drawSvg(false);
+  *  const svgElement = calculator.drawSvg(false) as SVGSVGElement;
   *  console.log(`svg :`, svgElement);
   * 
   * ```
@@ -1050,10 +3219,8 @@ export class CalculatorLayoutClass {
    * @param color - The color string to validate.
    * @returns boolean - True if the color is valid, false otherwise.
    */
-  private _isValidColor(color: string): boolean {
-    const s = new Option().style;
-    s.color = color;
-    return s.color !== '';
+  protected _isValidColor(color: string): boolean {
+    return ColorValidatorClass.isValid(color);
   }
 
   /**
@@ -1061,14 +3228,15 @@ export class CalculatorLayoutClass {
    * 
    * Validates the source size.
    * @param {ISquareSize} source - The source size to validate.
-   * @throws {Error} Throws an error if the source dimensions are invalid.
+   * @throws {LayoutValidationError} Throws an error on `source.width` or `source.height` if the source dimensions are invalid.
    */
   private _validateSource(source: ISquareSize): void {
+    const side = (invalid: (value: number) => boolean) => invalid(source.width) ? 'source.width' : 'source.height';
     if (isNaN(source.width) || isNaN(source.height)) {
-      throw new Error("Please provide source width and height.");
+      throw new LayoutValidationError("Please provide source width and height.", side(isNaN), 'required', { source });
     }
     if (source.width <= 0 || source.height <= 0) {
-      throw new Error("Source width and height must be positive values.");
+      throw new LayoutValidationError("Source width and height must be positive values.", side((value) => value <= 0), 'not-positive', { source });
     }
   }
 
@@ -1079,23 +3247,46 @@ export class CalculatorLayoutClass {
    * @param {ISquareSize} target - The target size to validate.
    * @param {ISquareSize} source - The source size to use for validation.
    * @param {ISquareSize} margin - The margin size to validate.
-   * @throws {Error} Throws an error if the target dimensions are invalid.
+   * @param {string} [field='target'] - The path of the target in the input, eq. `targets[1].size` for an item of a mixed-size job.
+   * @param {boolean[]} [rotations=[false]] - The orientations the target may be placed in, `true` is rotated by 90°, see {@link _allowedRotations}.
+   * @throws {LayoutValidationError} Throws an error on the width or the height of the target if the target dimensions are invalid,
+   * or a {@link LayoutFitError} if the target is too large for the source with its margin in every orientation.
    */
-  private _validateTarget(target: ISquareSize, source: ISquareSize, margin: ISquareSize): void {
+  protected _validateTarget(target: ISquareSize, source: ISquareSize, margin: ISquareSize, field: string = 'target', rotations: boolean[] = [false]): void {
     if (!source && !target) {
-      throw new Error("Please provide source and target size.");
+      throw new LayoutValidationError("Please provide source and target size.", field, 'required', { source, target });
     }
     if (isNaN(source.width) || isNaN(source.height) || isNaN(target.width) || isNaN(target.height)) {
-      throw new Error("Incorrect input value! The input must contain a number greater than 0.");
+      const invalid = isNaN(target.width) ? `${field}.width` : isNaN(target.height) ? `${field}.height` : isNaN(source.width) ? 'source.width' : 'source.height';
+      throw new LayoutValidationError("Incorrect input value! The input must contain a number greater than 0.", invalid, 'not-a-number', { source, target });
     }
     if (target.width <= 0 || target.height <= 0) {
-      throw new Error("Target width and height must be positive values.");
+      throw new LayoutValidationError("Target width and height must be positive values.", `${field}.${target.width <= 0 ? 'width' : 'height'}`, 'not-positive', { target });
     }
     // Check if target size is larger than source size with margin
-    if ((target.width + (2 * margin.width) > source.width) || (target.height + (2 * margin.height) > source.height)) {
-      throw new Error("Target size is too large for the source with margin.");
+    if (!this._fitsSource(target, source, margin, rotations)) {
+      const side = target.width + (2 * margin.width) > source.width ? 'width' : 'height';
+      throw new LayoutFitError("Target size is too large for the source with margin.", `${field}.${side}`, 'too-large', { target, source, margin });
     }
   }
+
+  /**
+   *
+   * 
+   * Checks if a target with its margin fits on the source in one of its orientations, the margin turns with the target.
+   * @param {ISquareSize} target - The target size.
+   * @param {ISquareSize} source - The source size.
+   * @param {ISquareSize} margin - The margin around the target.
+   * @param {boolean[]} rotations - The orientations to check, `true` is rotated by 90°.
+   * @returns {boolean} `true` when one of the orientations fits.
+   */
+  private _fitsSource(target: ISquareSize, source: ISquareSize, margin: ISquareSize, rotations: boolean[]): boolean {
+    const width = target.width + (2 * margin.width);
+    const height = target.height + (2 * margin.height);
+    return rotations.some((rotated) => rotated
+      ? height <= source.width && width <= source.height
+      : width <= source.width && height <= source.height);
+  }
   /**
    *
    * 
@@ -1103,14 +3294,73 @@ export class CalculatorLayoutClass {
    * @param {ISquareSize} margin - The margin size to validate.
    * @param {ISquareSize} source - The source size to use for validation.
    * @param {ISquareSize} target - The target size to use for validation.
-   * @throws {Error} Throws an error if the margin dimensions are invalid.
+   * @param {boolean[]} [rotations=[false]] - The orientations the target may be placed in, `true` is rotated by 90°.
+   * @throws {LayoutValidationError} Throws an error on `margin.width` or `margin.height` if the margin dimensions are invalid,
+   * or a {@link LayoutFitError} if the margin is too large in every orientation.
    */
-  private _validateMargin(margin: ISquareSize, source: ISquareSize, target: ISquareSize): void {
+  private _validateMargin(margin: ISquareSize, source: ISquareSize, target: ISquareSize, rotations: boolean[] = [false]): void {
     if (margin.width < 0 || margin.height < 0) {
-      throw new Error("Margin width and height must be non-negative values.");
+      throw new LayoutValidationError("Margin width and height must be non-negative values.", margin.width < 0 ? 'margin.width' : 'margin.height', 'negative', { margin });
+    }
+    if (!this._fitsSource(target, source, margin, rotations)) {
+      const side = target.width + (2 * margin.width) > source.width ? 'margin.width' : 'margin.height';
+      throw new LayoutFitError("Margin values are too large", side, 'too-large', { margin, source, target });
+    }
+  }
+
+  /**
+   *
+   * 
+   * Validates a unit.
+   * @param {LayoutUnit} unit - The unit to validate.
+   * @param {string} [field='unit'] - The path of the unit, `config.unit` for the drawing unit.
+   * @throws {LayoutValidationError} Throws an error if the unit is not one of `mm`, `cm`, `in` or `pt`.
+   */
+  private _validateUnit(unit: LayoutUnit, field: string = 'unit'): void {
+    if (!(unit in MILLIMETRES_PER_UNIT)) {
+      throw new LayoutValidationError("Unit must be one of 'mm', 'cm', 'in' or 'pt'.", field, 'invalid-value', { unit });
+    }
+  }
+
+  /**
+   *
+   * 
+   * Validates the grain direction of a sheet.
+   * @param {ISheetSize} sheet - The source or target to validate.
+   * @param {string} name - The name of the sheet used in the error message.
+   * @param {string} [field] - The path of the sheet in the input, defaults to the lower case `name`.
+   * @throws {LayoutValidationError} Throws an error on the `grain` of the sheet if it is neither `horizontal` nor `vertical`.
+   */
+  protected _validateGrain(sheet: ISheetSize, name: string, field: string = name.toLowerCase()): void {
+    if (sheet.grain !== undefined && sheet.grain !== 'horizontal' && sheet.grain !== 'vertical') {
+      throw new LayoutValidationError(`${name} grain must be either 'horizontal' or 'vertical'.`, `${field}.grain`, 'invalid-value', { grain: sheet.grain });
+    }
+  }
+
+  /**
+   *
+   * 
+   * Validates the blade kerf, the bleed and the sheet edges.
+   * @param {Required<ILayoutAllowance>} allowance - The allowance to validate.
+   * @param {ISquareSize} source - The source size to use for validation.
+   * @throws {LayoutValidationError} Throws an error on the refused `allowance` field if a value is negative,
+   * or a {@link LayoutFitError} if the sheet edges leave no usable area.
+   */
+  private _validateAllowance(allowance: Required<ILayoutAllowance>, source: ISquareSize): void {
+    const edge = allowance.edge as Required<ISheetEdge>;
+    if (isNaN(allowance.kerf) || allowance.kerf < 0) {
+      throw new LayoutValidationError("Kerf must be a non-negative value.", 'allowance.kerf', 'negative', { kerf: allowance.kerf });
+    }
+    if (isNaN(allowance.bleed) || allowance.bleed < 0) {
+      throw new LayoutValidationError("Bleed must be a non-negative value.", 'allowance.bleed', 'negative', { bleed: allowance.bleed });
     }
-    if ((target.width + (2 * margin.width) > source.width) || (target.height + (2 * margin.height) > source.height)) {
-      throw new Error("Margin values are too large");
+    const negative = (['top', 'right', 'bottom', 'left'] as const).find((side) => isNaN(edge[side]) || edge[side] < 0);
+    if (negative) {
+      throw new LayoutValidationError("Sheet edges must be non-negative values.", `allowance.edge.${negative}`, 'negative', { edge });
+    }
+    if ((edge.left + edge.right >= source.width) || (edge.top + edge.bottom >= source.height)) {
+      const side = edge.left + edge.right >= source.width ? 'left' : 'top';
+      throw new LayoutFitError("Sheet edges are too large, no usable area is left on the source.", `allowance.edge.${side}`, 'too-large', { edge, source });
     }
   }
 
@@ -1119,38 +3369,81 @@ export class CalculatorLayoutClass {
    * 
    * Validates the configuration object.
    * @param {ILayoutConfig} config - The configuration object to validate.
-   * @throws {Error} Throws an error if any configuration property is invalid.
+   * @throws {LayoutValidationError} Throws an error on `config.<property>` if any configuration property is invalid.
    */
   private _validateConfig(config: ILayoutConfig): void {
+    const invalid = (key: keyof ILayoutConfig, message: string, code: LayoutValidationCode = 'invalid-color') =>
+      new LayoutValidationError(message, `config.${key}`, code, { [key]: config[key] });
+
     if (config.lineWidth && config.lineWidth <= 0) {
-      throw new Error("lineWidth must be positive number");
+      throw invalid('lineWidth', "lineWidth must be positive number", 'not-positive');
     }
     if (config.paperColor && !this._isValidColor(config.paperColor)) {
-      throw new Error("paperColor has invalid value");
+      throw invalid('paperColor', "paperColor has invalid value");
     }
     if (config.strokeColor && !this._isValidColor(config.strokeColor)) {
-      throw new Error("strokeColor has invalid value");
+      throw invalid('strokeColor', "strokeColor has invalid value");
     }
     if (config.textColor && !this._isValidColor(config.textColor)) {
-      throw new Error("textColor has invalid value");
+      throw invalid('textColor', "textColor has invalid value");
     }
     if (config.mainOuterColor && !this._isValidColor(config.mainOuterColor)) {
-      throw new Error("mainOuterColor has invalid value");
+      throw invalid('mainOuterColor', "mainOuterColor has invalid value");
     }
     if (config.mainInnerColor && !this._isValidColor(config.mainInnerColor)) {
-      throw new Error("mainInnerColor has invalid value");
+      throw invalid('mainInnerColor', "mainInnerColor has invalid value");
     }
     if (config.remainOuterColor && !this._isValidColor(config.remainOuterColor)) {
-      throw new Error("remainOuterColor has invalid value");
+      throw invalid('remainOuterColor', "remainOuterColor has invalid value");
     }
     if (config.remainInnerColor && !this._isValidColor(config.remainInnerColor)) {
-      throw new Error("remainInnerColor has invalid value");
+      throw invalid('remainInnerColor', "remainInnerColor has invalid value");
+    }
+    if (config.palette && config.palette.some((color) => !this._isValidColor(color))) {
+      throw invalid('palette', "palette has invalid value");
+    }
+    if (config.bleedColor && !this._isValidColor(config.bleedColor)) {
+      throw invalid('bleedColor', "bleedColor has invalid value");
+    }
+    if (config.kerfColor && !this._isValidColor(config.kerfColor)) {
+      throw invalid('kerfColor', "kerfColor has invalid value");
+    }
+    if (config.edgeColor && !this._isValidColor(config.edgeColor)) {
+      throw invalid('edgeColor', "edgeColor has invalid value");
+    }
+    if (config.offcutColor && !this._isValidColor(config.offcutColor)) {
+      throw invalid('offcutColor', "offcutColor has invalid value");
+    }
+    if (config.cutLineColor && !this._isValidColor(config.cutLineColor)) {
+      throw invalid('cutLineColor', "cutLineColor has invalid value");
+    }
+    if (config.markColor && !this._isValidColor(config.markColor)) {
+      throw invalid('markColor', "markColor has invalid value");
+    }
+    if (config.dimensionColor && !this._isValidColor(config.dimensionColor)) {
+      throw invalid('dimensionColor', "dimensionColor has invalid value");
+    }
+    if (config.dimensionPrecision !== undefined
+      && (!Number.isInteger(config.dimensionPrecision) || config.dimensionPrecision < 0 || config.dimensionPrecision > 10)) {
+      throw invalid('dimensionPrecision', "dimensionPrecision must be an integer between 0 and 10", 'invalid-value');
+    }
+    if (config.numbering !== undefined && !['row', 'column', 'serpentine', 'cut'].includes(config.numbering)) {
+      throw invalid('numbering', "numbering must be one of row, column, serpentine or cut", 'invalid-value');
+    }
+    if (config.label !== undefined && typeof config.label !== 'string' && typeof config.label !== 'function') {
+      throw invalid('label', "label must be a template string or a function", 'invalid-value');
+    }
+    if (config.jobCode !== undefined && typeof config.jobCode !== 'string') {
+      throw invalid('jobCode', "jobCode must be a string", 'invalid-value');
     }
     if (isNaN(config.ratio as number)) {
-      throw new Error("invalid value! ratio must be a number");
+      throw invalid('ratio', "invalid value! ratio must be a number", 'not-a-number');
     }
-    if (Number(config.ratio) > 28.346) {
-      const msg = `Generated Layout has exceeded the actual size (px to cm).\nImage rendering performance will be impacted\ndue to high Ratio ( >28.346 ).`
+    if (config.unit !== undefined) {
+      this._validateUnit(config.unit, 'config.unit');
+    }
+    if (Number(config.ratio) > this._trueSizeRatio()) {
+      const msg = `Generated Layout has exceeded the actual size (px to ${this._unit}).\nImage rendering performance will be impacted\ndue to high Ratio ( >${this._trueSizeRatio()} ).`
       console.warn(msg);
     }
   }
@@ -1160,14 +3453,14 @@ export class CalculatorLayoutClass {
    * 
    * Validates the rect matrix array.
    * @param {IRectMatrixResult[][]} rectMatrixArray - The matrix array to validate.
-   * @throws {Error} Throws an error if the matrixArray is empty or undefined or not an array.
+   * @throws {LayoutCalculationError} Throws an error if the matrixArray is empty or undefined or not an array.
    */
   private _validateRectMatrixArray(rectMatrixArray: IRectMatrixResult[][]): void {
     if (!rectMatrixArray || !Array.isArray(rectMatrixArray) || rectMatrixArray.length === 0) {
-      throw new Error("rectMatrixArray is empty or undefined or not an array");
+      throw new LayoutCalculationError("rectMatrixArray is empty or undefined or not an array", 'empty-layout');
     }
     if (rectMatrixArray[0].length === 0) {
-      throw new Error("rectMatrixArray is empty");
+      throw new LayoutCalculationError("rectMatrixArray is empty", 'empty-layout');
     }
   }
 
@@ -1176,14 +3469,27 @@ export class CalculatorLayoutClass {
    * 
    * Validates the grid object.
    * @param {IMatrixGrid} grid - The grid to validate.
-   * @throws {Error} Throws an error if the grid row or column values are invalid.
+   * @throws {LayoutFitError} Throws an error if the grid row or column values are invalid.
    */
   private _validateGrid(grid: IMatrixGrid): void {
     if (grid.row <= 0) {
-      throw new Error("the number of rows in grid cannot be zero or negative number");
+      throw new LayoutFitError("the number of rows in grid cannot be zero or negative number", 'target', 'no-fit', { grid, target: this._target });
     }
     if (grid.column <= 0) {
-      throw new Error("the number of columns in grid cannot be zero or negative number");
+      throw new LayoutFitError("the number of columns in grid cannot be zero or negative number", 'target', 'no-fit', { grid, target: this._target });
+    }
+  }
+
+  /**
+   *
+   * 
+   * Validates the number of targets placed by a packing that is not a grid, eq. the guillotine solver or a mixed-size job.
+   * @param {number} count - The number of placed targets.
+   * @throws {LayoutFitError} Throws an error if not a single target is placed.
+   */
+  protected _validatePlaced(count: number): void {
+    if (count <= 0) {
+      throw new LayoutFitError("Not a single target fits in the source.", 'target', 'no-fit', { count, target: this._target });
     }
   }
 
@@ -1192,11 +3498,11 @@ export class CalculatorLayoutClass {
    * 
    * Checks if a division by zero is about to occur.
    * @param {number} dividend - The value to be divided.
-   * @throws {Error} Throws an error if the division would result in a division by zero.
+   * @throws {LayoutCalculationError} Throws an error if the division would result in a division by zero.
    */
   private _validateDivisionByZero(dividend: number): void {
     if (dividend === 0) {
-      throw new Error('Division by zero');
+      throw new LayoutCalculationError('Division by zero', 'division-by-zero', { dividend });
     }
   }
 
@@ -1206,14 +3512,15 @@ export class CalculatorLayoutClass {
    * Checks if the remainX or remainY has negative value.
    * @param {number} remainX - The remainX value.
    * @param {number} remainY - The remainY value.
-   * @throws {Error} Throws an error if a negative remainX or remainY is calculated.
+   * @throws {LayoutCalculationError} Throws an error if a negative remainX or remainY is calculated.
    */
   private _validateRemainXY(remainX: number, remainY: number): void {
-    if (remainX < 0) {
-      throw new Error("there is a negative remainX");
+    /** a grid counted within the tolerance may overrun the area by a float error **/
+    if (remainX < -LayoutMathClass.EPSILON) {
+      throw new LayoutCalculationError("there is a negative remainX", 'negative-remain', { remainX, remainY });
     }
-    if (remainY < 0) {
-      throw new Error("there is a negative remainY");
+    if (remainY < -LayoutMathClass.EPSILON) {
+      throw new LayoutCalculationError("there is a negative remainY", 'negative-remain', { remainX, remainY });
     }
   }
 
@@ -24,6 +24,34 @@ export interface ISquareSize {
   height: number;
 }
 
+/**
+ * @type LayoutUnit
+ * The unit of a length.
+ * - `mm` : millimetre.
+ * - `cm` : centimetre.
+ * - `in` : inch, `25.4mm`.
+ * - `pt` : PostScript point, `1/72in`.
+ */
+export type LayoutUnit = 'mm' | 'cm' | 'in' | 'pt';
+
+/**
+ * @type GrainDirection
+ * The direction of the paper grain, measured on the sheet as it is given (before any rotation).
+ * - `horizontal` : the grain runs along the width.
+ * - `vertical` : the grain runs along the height.
+ */
+export type GrainDirection = 'horizontal' | 'vertical';
+
+/**
+ * @interface ISheetSize
+ * Represents the size of a source or target sheet, with its optional paper grain.
+ * @property {GrainDirection} [grain] - The grain direction of the source, or the grain direction a target requires.
+ * When both the source and the target have a grain, a target may only be placed with its grain along the source grain.
+ */
+export interface ISheetSize extends ISquareSize {
+  grain?: GrainDirection;
+}
+
 /**
  * @interface IPaperLayoutSizing
  * Defines the sizing for various components of the paper layout, such as source, target, and margins.
@@ -49,7 +77,33 @@ export interface IPaperLayoutSizing {
  * @property {string} [mainInnerColor] - The fill color of the main inner rectangles. Defaults to 'lightgreen'. valid css color
  * @property {string} [remainOuterColor] - The fill color of the remaining outer rectangles. Defaults to 'lightsalmon'. valid css color
  * @property {string} [remainInnerColor] - The fill color of the remaining inner rectangles. Defaults to 'lightcoral'. valid css color
- * @property {number} [ratio] - The aspect ratio of the rectangles. Defaults to 1 (affects both width and height quality). 
+ * @property {number} [ratio] - The number of pixels per input unit used to draw, it sets the resolution of the canvas and of the SVG `viewBox`.
+ * Defaults to the true size at 72 dpi, `28.346` for `cm` (`1cm = 28.346px`).
+ * @property {LayoutUnit} [unit] - The output unit of the drawings, the physical `width` / `height` of an exported SVG are given in this unit.
+ * Defaults to the input unit of the calculator.
+ * @property {boolean} [legend] - Draw a legend with one entry per plotted group below the source. Defaults to `false`, `true` for mixed-size jobs.
+ * @property {string[]} [palette] - The fill colors given to each target size of a mixed-size job, in order. valid css colors
+ * @property {string} [bleedColor] - The fill color of the bleed band around every target. Defaults to 'rgba(220, 20, 60, 0.35)'. valid css color
+ * @property {string} [kerfColor] - The fill color of the blade kerf between adjacent targets. Defaults to 'dimgray'. valid css color
+ * @property {string} [edgeColor] - The fill color of the non-printable edge / gripper strips of the source. Defaults to 'rgba(0, 0, 0, 0.15)'. valid css color
+ * @property {boolean} [offcuts] - Draw the offcuts left after cutting as hatched regions. Defaults to `false`.
+ * @property {string} [offcutColor] - The color of the offcut hatching. Defaults to 'rgb(85, 85, 85)'. valid css color
+ * @property {boolean} [cutLines] - Draw the cutting instructions over the SVG layout, one numbered line per cut. Defaults to `false`.
+ * @property {string} [cutLineColor] - The color of the numbered cut lines. Defaults to 'crimson'. valid css color
+ * @property {boolean} [cropMarks] - Draw crop marks at every corner of every target, in the margin around it. Defaults to `false`.
+ * @property {boolean} [registrationMarks] - Draw a registration target in the middle of every sheet edge. Defaults to `false`.
+ * @property {boolean} [slug] - Write the sheet info slug (source, target, strategy and yield) in the top or bottom sheet edge. Defaults to `false`.
+ * @property {boolean} [colorBar] - Draw a colour bar of process solids and overprints in the bottom or top sheet edge. Defaults to `false`.
+ * @property {string} [markColor] - The color of the crop marks, registration targets and slug. Defaults to 'rgb(0, 0, 0)'. valid css color
+ * @property {boolean} [dimensions] - Draw dimension lines for the source, one target, its margins and gutters and every leftover group.
+ * The source dimensions are drawn in a band above and left of the source. Defaults to `false`.
+ * @property {string} [dimensionColor] - The color of the dimension lines and labels. Defaults to 'rgb(0, 0, 139)'. valid css color
+ * @property {number} [dimensionPrecision] - The number of decimals of the dimension labels, between `0` and `10`. Defaults to `2`.
+ * @property {LayoutNumbering} [numbering] - The order the targets are numbered in. Defaults to `row`.
+ * @property {string | ((piece: ILayoutPieceLabel) => string)} [label] - The label of every target, a template where `{key}` is replaced
+ * by the {@link ILayoutPieceLabel value} of the target (eq. `{job}-{number}`), or a callback returning the text. Defaults to `{number}`.
+ * @property {string} [jobCode] - The job code available to the labels as `{job}`. Defaults to `''`.
+ * @property {boolean} [labelSize] - Write the trim size of every target below its label. Defaults to `false`.
  * @see {@link https://www.w3.org/wiki/CSS/Properties/color/keywords Click here}, to learn CSS valid color string.
  * 
  * 
@@ -65,6 +119,56 @@ export interface ILayoutConfig {
   remainOuterColor?: string;
   remainInnerColor?: string;
   ratio?: number;
+  unit?: LayoutUnit;
+  legend?: boolean;
+  palette?: string[];
+  bleedColor?: string;
+  kerfColor?: string;
+  edgeColor?: string;
+  offcuts?: boolean;
+  offcutColor?: string;
+  cutLines?: boolean;
+  cutLineColor?: string;
+  cropMarks?: boolean;
+  registrationMarks?: boolean;
+  slug?: boolean;
+  colorBar?: boolean;
+  markColor?: string;
+  dimensions?: boolean;
+  dimensionColor?: string;
+  dimensionPrecision?: number;
+  numbering?: LayoutNumbering;
+  label?: string | ((piece: ILayoutPieceLabel) => string);
+  jobCode?: string;
+  labelSize?: boolean;
+}
+
+/**
+ * @interface ISheetEdge
+ * The unused strip on each side of the source, eq. a non-printable edge or the gripper margin of the press.
+ * @property {number} [top] - The strip along the top side. Defaults to `0`.
+ * @property {number} [right] - The strip along the right side. Defaults to `0`.
+ * @property {number} [bottom] - The strip along the bottom side. Defaults to `0`.
+ * @property {number} [left] - The strip along the left side. Defaults to `0`.
+ */
+export interface ISheetEdge {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+}
+
+/**
+ * @interface ILayoutAllowance
+ * The allowances taken on the source besides the `margin` around every target.
+ * @property {number} [kerf] - The width of the blade cut between two adjacent targets, not taken at the outside of the layout. Defaults to `0`.
+ * @property {number} [bleed] - The bleed printed around every target, beyond its trim size. Defaults to `0`.
+ * @property {ISheetEdge} [edge] - The unused strip on each side of the source. Defaults to `0` on every side.
+ */
+export interface ILayoutAllowance {
+  kerf?: number;
+  bleed?: number;
+  edge?: ISheetEdge;
 }
 
 /**
@@ -80,17 +184,387 @@ export interface IMatrixGrid {
   container?: IRectPlotConfig;
 }
 
+/**
+ * @interface IRemainRegion
+ * Represents a leftover region of the source filled with targets after the main grid.
+ * @property {RemainGroup} key - The result group the region is returned in.
+ * @property {IRectPlotConfig} container - The position and size of the leftover region.
+ * @property {IMatrixGrid} grid - The number of rows and columns of targets placed in the region.
+ * @property {ILayoutCoords} start - The top-left position of the first target in the region.
+ * @property {boolean} reverse - `true` when the targets are rotated relative to the main grid.
+ */
+export interface IRemainRegion {
+  key: RemainGroup;
+  container: IRectPlotConfig;
+  grid: IMatrixGrid;
+  start: ILayoutCoords;
+  reverse: boolean;
+}
+
+/**
+ * @type RemainGroup
+ * The keys of {@link ILayoutResult} holding the targets placed in the leftover regions.
+ * - `remain` : the strip placed by {@link RemainPlacement}, running along the full side of the source.
+ * - `remainSecondary` : the strip along the other side of the main grid.
+ * - `remainCorner` : the unused end of the `remain` strip, where both strips overlap.
+ */
+export type RemainGroup = 'remain' | 'remainSecondary' | 'remainCorner';
+
 /**
  * @interface IRectMatrixResult
  * Represents the result of a single rectangle calculation within a grid.
  * @property {IRectConfig} inner - Configuration for the inner rectangle (position, dimensions).
  * @property {IRectConfig} outer - Configuration for the outer rectangle (position, dimensions).
+ * @property {IRectConfig} [bleed] - The inner rectangle with its bleed, only when a bleed is set.
  * @property {{ row: number; column: number }} grid - Information about the rectangle's position within the grid (row, column).
+ * @property {number} [item] - The index of the job item the rectangle belongs to, only for mixed-size jobs.
+ * @property {boolean} [rotated] - `true` when the target is rotated by 90°, only for mixed-size jobs.
  */
 export interface IRectMatrixResult {
   inner: IRectPlotConfig;
   outer: IRectPlotConfig;
+  bleed?: IRectPlotConfig;
   grid: { row: number; column: number; };
+  item?: number;
+  rotated?: boolean;
+}
+
+/**
+ * @interface ILayoutPlotGroup
+ * Represents a group of rectangles drawn with the same colors, and its legend entry.
+ * @property {string} key - The identifier of the group, used in the drawing element ids.
+ * @property {string} label - The legend label of the group.
+ * @property {IRectMatrixResult[]} rects - The rectangles of the group.
+ * @property {string} outerColor - The fill color of the outer rectangles.
+ * @property {string} innerColor - The fill color of the inner rectangles.
+ */
+export interface ILayoutPlotGroup {
+  key: string;
+  label: string;
+  rects: IRectMatrixResult[];
+  outerColor: string;
+  innerColor: string;
+}
+
+/**
+ * @interface ILayoutJobItem
+ * Represents one target size of a mixed-size job.
+ * @property {ISheetSize} size - The size of the target, with the grain direction it requires.
+ * @property {number} [quantity] - The required quantity. When omitted, as many as fit are placed.
+ * @property {string} [label] - The legend label. Defaults to the size, eq. `9 x 5`.
+ * @property {string} [color] - The fill color of the target. Defaults to the next color of the {@link ILayoutConfig palette}. valid css color
+ */
+export interface ILayoutJobItem {
+  size: ISheetSize;
+  quantity?: number;
+  label?: string;
+  color?: string;
+}
+
+/**
+ * @interface ILayoutItemResult
+ * Reports how many targets of a mixed-size job item fit on the source.
+ * @property {number} index - The index of the item in the job.
+ * @property {string} label - The label of the item.
+ * @property {ISquareSize} size - The size of the target.
+ * @property {number} [quantity] - The required quantity, `undefined` when as many as fit were requested.
+ * @property {number} placed - The number of targets placed on the source.
+ * @property {number} remaining - The number of required targets that didn't fit, `0` when no quantity was required.
+ */
+export interface ILayoutItemResult {
+  index: number;
+  label: string;
+  size: ISquareSize;
+  quantity?: number;
+  placed: number;
+  remaining: number;
+}
+
+/**
+ * @type LayoutMethod
+ * The cutting method used to arrange the targets on the source.
+ * - `inline` : targets keep their orientation (target width along source width).
+ * - `cross` : targets are rotated (target width along source height).
+ * - `guillotine` : the source is recursively split edge to edge into sub-rectangles, each solved on its own.
+ */
+export type LayoutMethod = 'inline' | 'cross' | 'guillotine';
+
+/**
+ * @type LayoutStrategy
+ * The strategy used by `calculate()`, either a single {@link LayoutMethod} or `auto`,
+ * which tries every method and remainder placement then keeps the arrangement with the highest `total`.
+ */
+export type LayoutStrategy = LayoutMethod | 'auto';
+
+/**
+ * @type RemainPlacement
+ * Which leftover strip runs along the full side of the source after the main grid.
+ * - `right` : the strip on the right-hand side of the main grid, the strip below it stops at the main grid.
+ * - `bottom` : the strip below the main grid, the strip on its right-hand side stops at the main grid.
+ */
+export type RemainPlacement = 'right' | 'bottom';
+
+/**
+ * @type LayoutNumbering
+ * The order the targets are numbered in on the drawings.
+ * - `row` : row by row from the top-left, the order of the result, numbering continues from one group to the next.
+ * - `column` : column by column from the top-left, within each group.
+ * - `serpentine` : row by row, every other row from the right, within each group.
+ * - `cut` : the order the targets come off the cutter, following the {@link ILayoutCutStep cutting instructions}.
+ */
+export type LayoutNumbering = 'row' | 'column' | 'serpentine' | 'cut';
+
+/**
+ * @interface ILayoutCandidate
+ * Describes one arrangement evaluated by `calculate()` and how many targets it produced.
+ * @property {LayoutMethod} method - The cutting method of the main grid.
+ * @property {RemainPlacement} [placement] - The placement of the leftover strips, `undefined` when no remainder was placed.
+ * @property {number} total - The total number of targets of the arrangement.
+ */
+export interface ILayoutCandidate {
+  method: LayoutMethod;
+  placement?: RemainPlacement;
+  total: number;
+}
+
+/**
+ * @interface IGuillotineCut
+ * Represents a single edge to edge cut of the guillotine cutter.
+ * @property {'vertical' | 'horizontal'} axis - `vertical` cuts run along the source height at `x = position`, `horizontal` cuts run along the source width at `y = position`.
+ * @property {number} position - The coordinate of the cut, measured from the top-left of the source.
+ * @property {number} start - Where the cut starts along its axis.
+ * @property {number} end - Where the cut ends along its axis.
+ * @property {'split' | 'row' | 'column' | 'trim'} kind - `split` separates two sub-rectangles, `row` and `column` separate the targets of a block, `trim` separates a block from its unused leftover.
+ * @property {number} depth - The recursion depth of the sub-rectangle the cut belongs to, `0` is the whole source.
+ */
+export interface IGuillotineCut {
+  axis: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+  kind: 'split' | 'row' | 'column' | 'trim';
+  depth: number;
+}
+
+/**
+ * @interface ILayoutCutStep
+ * Represents one step of the cutting instructions, a single edge to edge cut through a stack.
+ * `position`, `start` and `end` place the cut on the source, `kind` is `split` between two result groups (eq. `main` and `remain`),
+ * `row` or `column` between two rows or columns of a group, `trim` between the targets and the waste, and `depth` counts the stacks cut before.
+ * @property {number} step - The number of the step, from `1`.
+ * @property {number} stack - The number of the stack being cut, `1` is the whole source.
+ * @property {IRectPlotConfig} area - The position and size of the stack on the source, as it lies on the cutter.
+ * @property {number} gauge - The distance from the back gauge to the blade, the top edge of the stack for `horizontal` cuts and its left edge for `vertical` cuts.
+ * @property {boolean} rotate - `true` when the stack must be turned by 90° before the cut.
+ * @property {number} pieces - The number of targets in the stack.
+ * @property {string} group - The result group of the targets along the cut, on the back gauge side when there are any.
+ * @property {number} [after] - The row (`horizontal`) or column (`vertical`) of the group the cut follows, from `1`, only for `row` and `column` cuts.
+ */
+export interface ILayoutCutStep extends IGuillotineCut {
+  step: number;
+  stack: number;
+  area: IRectPlotConfig;
+  gauge: number;
+  rotate: boolean;
+  pieces: number;
+  group: string;
+  after?: number;
+}
+
+/**
+ * @interface IGuillotinePlacement
+ * Represents a single cell placed by the guillotine solver.
+ * @property {number} x - The x-coordinate of the cell's top-left corner.
+ * @property {number} y - The y-coordinate of the cell's top-left corner.
+ * @property {number} width - The width of the cell, as placed.
+ * @property {number} height - The height of the cell, as placed.
+ * @property {boolean} rotated - `true` when the cell is rotated by 90°.
+ * @property {number} row - The row of the cell within its block.
+ * @property {number} column - The column of the cell within its block.
+ */
+export interface IGuillotinePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotated: boolean;
+  row: number;
+  column: number;
+}
+
+/**
+ * @interface IGuillotineSolution
+ * Represents the result of the guillotine solver.
+ * @property {number} count - The number of cells placed.
+ * @property {IGuillotinePlacement[]} placements - The placed cells.
+ * @property {IGuillotineCut[]} cuts - The ordered cuts that produce the placed cells.
+ */
+export interface IGuillotineSolution {
+  count: number;
+  placements: IGuillotinePlacement[];
+  cuts: IGuillotineCut[];
+}
+
+/**
+ * @interface ILayoutCanvasContext
+ * The part of a 2D context used to draw a layout, so any context can be injected,
+ * eq. a `CanvasRenderingContext2D`, an `OffscreenCanvasRenderingContext2D` or a node-canvas-like object.
+ * @property {{ width: number; height: number }} [canvas] - The canvas of the context, resized to the drawing when given.
+ */
+export interface ILayoutCanvasContext extends Pick<CanvasRenderingContext2D,
+  'fillStyle' | 'strokeStyle' | 'lineWidth' | 'font' | 'textAlign' | 'textBaseline' |
+  'beginPath' | 'rect' | 'fill' | 'stroke' | 'fillRect' | 'fillText' | 'clip' | 'moveTo' | 'lineTo' | 'arc' |
+  'setLineDash' | 'save' | 'restore' | 'translate'> {
+  canvas?: { width: number; height: number; };
+}
+
+/**
+ * @interface IRgbaColor
+ * The channels of a parsed CSS color.
+ * @property {number} r - The red channel, between `0` and `255`.
+ * @property {number} g - The green channel, between `0` and `255`.
+ * @property {number} b - The blue channel, between `0` and `255`.
+ * @property {number} a - The alpha channel, between `0` and `1`.
+ */
+export interface IRgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * @interface ILayoutPdfInfo
+ * The title/info block printed below the sheet of a PDF export.
+ * @property {string} title - The title of the document, also stored in the document properties.
+ * @property {string[]} lines - The info lines printed below the title.
+ */
+export interface ILayoutPdfInfo {
+  title: string;
+  lines: string[];
+}
+
+/**
+ * @interface ILayoutDimension
+ * A dimension line of the annotation layer, with an arrowhead at each end, in source units.
+ * @property {ILayoutCoords} from - The start of the line.
+ * @property {ILayoutCoords} to - The end of the line.
+ * @property {number} value - The measured length.
+ * @property {string} label - The length with the input unit, eq. `29.7 cm`.
+ */
+export interface ILayoutDimension {
+  from: ILayoutCoords;
+  to: ILayoutCoords;
+  value: number;
+  label: string;
+}
+
+/**
+ * @interface ILayoutPieceLabel
+ * The values a target label is made of, given to the `label` callback and used by the `label` template as `{key}`.
+ * @property {number} number - The number of the target, in the configured `numbering` order, from `1`.
+ * @property {number} row - The row of the target within its group, from `1`.
+ * @property {number} column - The column of the target within its group, from `1`.
+ * @property {string} group - The plotted group of the target, eq. `main`, `remain` or `item-0`.
+ * @property {string} job - The configured `jobCode`.
+ * @property {number} width - The trim width of the target, as placed.
+ * @property {number} height - The trim height of the target, as placed.
+ * @property {string} size - The trim size with the input unit, eq. `21 x 29.7 cm`.
+ * @property {LayoutUnit} unit - The input unit.
+ */
+export interface ILayoutPieceLabel {
+  number: number;
+  row: number;
+  column: number;
+  group: string;
+  job: string;
+  width: number;
+  height: number;
+  size: string;
+  unit: LayoutUnit;
+}
+
+/**
+ * @interface ILayoutPiece
+ * A drawn target, the values of its label with the resulting text and the rectangle behind it.
+ * @property {string} text - The label drawn on the target.
+ * @property {IRectMatrixResult} rect - The rectangle of the target in the layout.
+ */
+export interface ILayoutPiece extends ILayoutPieceLabel {
+  text: string;
+  rect: IRectMatrixResult;
+}
+
+/**
+ * @interface ILayoutSheetMarks
+ * The printer's marks placed in the sheet edges, in source units.
+ * @property {(ILayoutCoords & { radius: number })[]} registration - The center and radius of every registration target.
+ * @property {(IRectPlotConfig & { color: string })[]} colorBar - The patches of the colour bar.
+ * @property {(ILayoutCoords & { size: number; align: 'start' | 'end'; text: string }) | null} slug - The baseline start (or end) of the info slug, its font size and text, `null` when there is no room.
+ */
+export interface ILayoutSheetMarks {
+  registration: (ILayoutCoords & { radius: number; })[];
+  colorBar: (IRectPlotConfig & { color: string; })[];
+  slug: (ILayoutCoords & { size: number; align: 'start' | 'end'; text: string; }) | null;
+}
+
+/**
+ * @interface IDxfLine
+ * A straight line of a DXF export, in source units.
+ * @property {number} x1 - The x coordinate of the start point.
+ * @property {number} y1 - The y coordinate of the start point.
+ * @property {number} x2 - The x coordinate of the end point.
+ * @property {number} y2 - The y coordinate of the end point.
+ */
+export interface IDxfLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * @interface ILayoutGrainReport
+ * Reports what the paper grain rule cost, returned when both the source and a target have a grain.
+ * @property {GrainDirection} [source] - The grain direction of the source.
+ * @property {GrainDirection} [target] - The grain direction required by the target, `undefined` for mixed-size jobs.
+ * @property {number} unconstrained - The total number of targets the same strategy places when rotating freely.
+ * @property {number} lost - The number of targets lost to the grain rule, `0` when it cost nothing.
+ */
+export interface ILayoutGrainReport {
+  source?: GrainDirection;
+  target?: GrainDirection;
+  unconstrained: number;
+  lost: number;
+}
+
+/**
+ * @interface ILayoutStatistics
+ * The waste and yield of a layout, computed from its rectangles. Every area is in source units squared.
+ * @property {number} sheetArea - The area of the source.
+ * @property {number} usableArea - The area of the source inside the sheet edges.
+ * @property {number} usedArea - The trim area of every placed target, the area sold.
+ * @property {number} wasteArea - The area of the source that is not sold, `sheetArea - usedArea`.
+ * @property {number} marginArea - The area taken by the margins around the targets.
+ * @property {number} bleedArea - The area taken by the bleed around the targets.
+ * @property {number} kerfArea - The area taken by the blade kerf.
+ * @property {number} edgeArea - The area taken by the sheet edges.
+ * @property {number} offcutArea - The area of every offcut left after cutting.
+ * @property {number} utilisation - The share of the source sold, `usedArea / sheetArea` in percent.
+ * @property {IRectPlotConfig[]} offcuts - The position and size of every offcut left after cutting, from the largest.
+ */
+export interface ILayoutStatistics {
+  sheetArea: number;
+  usableArea: number;
+  usedArea: number;
+  wasteArea: number;
+  marginArea: number;
+  bleedArea: number;
+  kerfArea: number;
+  edgeArea: number;
+  offcutArea: number;
+  utilisation: number;
+  offcuts: IRectPlotConfig[];
 }
 
 /**
@@ -98,10 +572,26 @@ export interface IRectMatrixResult {
  * 
  *
  * @interface ILayoutResult
+ * @property {IRectMatrixResult[]} main - The rectangles of the main grid.
+ * @property {IRectMatrixResult[]} [remain] - The rectangles of the remainder strip.
+ * @property {IRectMatrixResult[]} [remainSecondary] - The rectangles of the strip along the other side of the main grid.
+ * @property {IRectMatrixResult[]} [remainCorner] - The rectangles of the corner where both strips overlap.
+ * @property {ILayoutCandidate} [strategy] - The arrangement that produced this result.
+ * @property {ILayoutCandidate[]} [candidates] - Every arrangement evaluated in `auto` strategy, sorted from the highest `total`.
+ * @property {IGuillotineCut[]} [cuts] - The ordered guillotine cuts that produced the layout, only for the `guillotine` method.
+ * @property {ILayoutGrainReport} [grain] - What the paper grain rule cost, only when the source and a target have a grain.
+ * @property {ILayoutStatistics} [statistics] - The waste and yield of the layout.
  */
 export interface ILayoutResult {
   main: IRectMatrixResult[];
   remain?: IRectMatrixResult[];
+  remainSecondary?: IRectMatrixResult[];
+  remainCorner?: IRectMatrixResult[];
+  strategy?: ILayoutCandidate;
+  candidates?: ILayoutCandidate[];
+  cuts?: IGuillotineCut[];
+  grain?: ILayoutGrainReport;
+  statistics?: ILayoutStatistics;
   [key: string]: any;
 }
 
@@ -111,15 +601,213 @@ export interface ILayoutResult {
  * 
  * 
  * @interface ILayoutInput
+ * @property {boolean} [useInline] - Legacy flag, `true` for `inline` and `false` for `cross`. Superseded by `strategy`.
+ * @property {LayoutStrategy} [strategy] - The strategy used to calculate the layout.
+ * @property {ILayoutJobItem[]} [targets] - Every target size of a mixed-size job, `target` is then the first of them.
+ * @property {ILayoutAllowance} [allowance] - The blade kerf, bleed and sheet edge allowances.
+ * @property {LayoutUnit} [unit] - The unit of every input length (sizes, margin and allowance), and of the calculated layout.
  */
 export interface ILayoutInput {
-  source: ISquareSize,
-  target: ISquareSize,
+  source: ISheetSize,
+  target: ISheetSize,
   margin?: ISquareSize;
   useInline?: boolean;
+  strategy?: LayoutStrategy;
+  targets?: ILayoutJobItem[];
+  allowance?: ILayoutAllowance;
+  unit?: LayoutUnit;
+}
+
+/**
+ * @interface ILayoutJob
+ * A saved job, the input and the drawing configuration of a calculator, see `LayoutJobClass`.
+ * @property {number} version - The version of the job format.
+ * @property {ILayoutInput} input - The sizes, strategy, allowance and unit of the job, with every target size of a mixed-size job in `targets`.
+ * @property {ILayoutConfig} [config] - The drawing configuration, a `label` callback is not saved.
+ */
+export interface ILayoutJob {
+  version: number;
+  input: ILayoutInput;
+  config?: ILayoutConfig;
+}
+
+/**
+ * @interface ILayoutPlan
+ * Represents a quantity plan: how many sources are needed to produce a required quantity of targets.
+ * @property {number} quantity - The required quantity of targets.
+ * @property {number} spoilage - The over-run / spoilage percentage added to the quantity.
+ * @property {number} required - The quantity to produce, including the spoilage (rounded up).
+ * @property {number} piecesPerSheet - The number of targets on a full sheet.
+ * @property {number} sheets - The number of sheets to print, including the final sheet.
+ * @property {number} lastSheetPieces - The number of targets needed from the final sheet.
+ * @property {number} produced - The number of targets printed, every sheet being printed whole.
+ * @property {number} surplus - The number of targets printed above the required quantity (spoilage allowance and unused targets of the final sheet).
+ * @property {ILayoutResult & { total: number }} layout - The layout of a full sheet.
+ * @property {ILayoutResult & { total: number }} lastSheet - The layout of the final sheet, holding only the targets it needs.
+ */
+export interface ILayoutPlan {
+  quantity: number;
+  spoilage: number;
+  required: number;
+  piecesPerSheet: number;
+  sheets: number;
+  lastSheetPieces: number;
+  produced: number;
+  surplus: number;
+  layout: ILayoutResult & { total: number; };
+  lastSheet: ILayoutResult & { total: number; };
 }
 
 export interface ILayoutCoords {
   x: number,
   y: number,
-}
\ No newline at end of file
+}
+
+/**
+ * @type PaperPresetCategory
+ * The family of a paper preset.
+ * - `iso-a`, `iso-b`, `iso-c` : the ISO 216 / ISO 269 series, in `mm`.
+ * - `us` : the North American sizes, in `in`.
+ * - `press` : common press sheets, in `cm`.
+ * - `finished` : common finished products, eq. business cards, flyers and DL.
+ * - `custom` : the stock saved by the user.
+ */
+export type PaperPresetCategory = 'iso-a' | 'iso-b' | 'iso-c' | 'us' | 'press' | 'finished' | 'custom';
+
+/**
+ * @interface IPaperPreset
+ * A named paper size of the preset library, portrait (width not larger than height) unless the size is usually given landscape.
+ * @property {string} name - The unique name of the preset, eq. `A4`.
+ * @property {PaperPresetCategory} category - The family of the preset.
+ * @property {number} width - The width, in `unit`.
+ * @property {number} height - The height, in `unit`.
+ * @property {LayoutUnit} unit - The unit the size is defined in.
+ */
+export interface IPaperPreset {
+  name: string;
+  category: PaperPresetCategory;
+  width: number;
+  height: number;
+  unit: LayoutUnit;
+}
+
+/**
+ * @type LayoutValidationCode
+ * The rule an input or a configuration value failed, see {@link LayoutValidationError}.
+ * - `required` : the value is missing.
+ * - `not-a-number` : the value is not a number.
+ * - `not-positive` : the value must be greater than `0`.
+ * - `negative` : the value must not be negative.
+ * - `invalid-color` : the value is not a valid CSS color.
+ * - `invalid-value` : the value is not one of the allowed values, not a whole number, or has the wrong type.
+ */
+export type LayoutValidationCode = 'required' | 'not-a-number' | 'not-positive' | 'negative' | 'invalid-color' | 'invalid-value';
+
+/**
+ * @type LayoutFitCode
+ * Why the targets don't fit on the source, see {@link LayoutFitError}.
+ * - `too-large` : the value leaves no room on the source, eq. a target larger than the source with its margin.
+ * - `no-fit` : the arrangement can't hold a single target, eq. once the bleed and the kerf are added.
+ * - `against-grain` : the arrangement places the targets against the paper grain.
+ */
+export type LayoutFitCode = 'too-large' | 'no-fit' | 'against-grain';
+
+/**
+ * @type LayoutErrorCode
+ * The stable code of a {@link LayoutError}, it does not change with the wording of the message.
+ * - {@link LayoutValidationCode} : a refused input or configuration value.
+ * - {@link LayoutFitCode} : valid values, but the targets don't fit on the source.
+ * - `empty-layout`, `negative-remain`, `division-by-zero` : the calculation reached an inconsistent state.
+ * - `not-guillotine` : the layout can't be cut edge to edge.
+ * - `drawing-failed` : a drawing or an export failed, the original error is its `cause`.
+ */
+export type LayoutErrorCode = LayoutValidationCode | LayoutFitCode | 'empty-layout' | 'negative-remain' | 'division-by-zero' | 'not-guillotine' | 'drawing-failed';
+
+/**
+ * @interface ILayoutErrorDetails
+ * What a {@link LayoutError} tells about the failure, besides its code.
+ * @property {string} [field] - The path of the offending value, eq. `target.width`, `allowance.edge.top` or `config.paperColor`.
+ * @property {Record<string, unknown>} [values] - The values involved, eq. `{ target, source, margin }` when the target doesn't fit.
+ * @property {unknown} [cause] - The original error, eq. of a failed drawing.
+ */
+export interface ILayoutErrorDetails {
+  field?: string;
+  values?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+/**
+ * @interface ILayoutFitCheck
+ * How many targets of a size fit on the source, see `LayoutAnalysisClass`.
+ * @property {ISheetSize} target - The checked target size, with its grain.
+ * @property {boolean} fits - `true` when at least one target fits.
+ * @property {number} total - The number of targets that fit, `0` when none does.
+ */
+export interface ILayoutFitCheck {
+  target: ISheetSize;
+  fits: boolean;
+  total: number;
+}
+
+/**
+ * @interface ILayoutStockSuggestion
+ * The smallest stock sheet holding a number of targets, see `LayoutAnalysisClass`.
+ * @property {number} width - The width of the stock, in the input unit.
+ * @property {number} height - The height of the stock, in the input unit.
+ * @property {number} total - The number of targets the stock holds, at least the requested count.
+ * @property {number} utilisation - The share of the stock used by the targets, in percent.
+ */
+export interface ILayoutStockSuggestion {
+  width: number;
+  height: number;
+  total: number;
+  utilisation: number;
+}
+
+/**
+ * @interface ILayoutAnalysis
+ * What fits on the source and what to change when the target doesn't fit, see `LayoutAnalysisClass`.
+ * @property {boolean} fits - `true` when at least one target fits with the given input.
+ * @property {number} total - The number of targets that fit, `0` when none does.
+ * @property {string} [error] - Why the target doesn't fit, the message of the error the calculator throws.
+ * @property {LayoutErrorCode} [code] - The code of that error, eq. `too-large`.
+ * @property {string} [field] - The field of that error, eq. `target.width`.
+ * @property {ILayoutFitCheck} rotated - Whether the target fits when rotated by 90°, its grain rotated with it.
+ * @property {ILayoutStockSuggestion | null} stock - The smallest stock holding the requested count of targets, `null` when none is found.
+ * @property {ISquareSize | null} margin - The largest margin that still leaves room for one target, `null` when the target doesn't fit even without margin.
+ */
+export interface ILayoutAnalysis {
+  fits: boolean;
+  total: number;
+  error?: string;
+  code?: LayoutErrorCode;
+  field?: string;
+  rotated: ILayoutFitCheck;
+  stock: ILayoutStockSuggestion | null;
+  margin: ISquareSize | null;
+}
+
+/**
+ * @interface ILayoutSolverInput
+ * The sizing input shared by the candidates of `LayoutSolverClass`, the input of the calculator without its sizes.
+ */
+export interface ILayoutSolverInput extends Omit<ILayoutInput, 'source' | 'target' | 'targets'> { }
+
+/**
+ * @interface ILayoutSolverCandidate
+ * A candidate of the reverse solvers of `LayoutSolverClass`, a source and target pair with its yield.
+ * @property {string} [name] - The name of the source sheet, when it is a preset.
+ * @property {ISheetSize} source - The source sheet, in the input unit.
+ * @property {ISheetSize} target - The target size, in the input unit.
+ * @property {number} total - The number of targets that fit on the source.
+ * @property {number} utilisation - The share of the source used by the targets, in percent.
+ * @property {ILayoutCandidate} [strategy] - The arrangement picked by `calculate()`.
+ */
+export interface ILayoutSolverCandidate {
+  name?: string;
+  source: ISheetSize;
+  target: ISheetSize;
+  total: number;
+  utilisation: number;
+  strategy?: ILayoutCandidate;
+}
@@ -0,0 +1,392 @@
+import { CalculatorLayoutClass } from "./calculator-layout.class";
+import { LayoutFitError, LayoutValidationError } from "./layout-error.class";
+import { ISquareSize, ISheetSize, ILayoutAllowance, ILayoutInput, ILayoutJobItem, ILayoutItemResult, ILayoutResult, ILayoutPlotGroup, IRectMatrixResult, IRectPlotConfig, LayoutUnit, ILayoutPdfInfo } from "./calculator-layout.interface";
+import { LayoutMathClass } from "./layout-math.class";
+
+/**
+ * **Version 1.0**
+ * @class
+ * Calculates and visualizes the layout of a **`mixed-size job`**: several target sizes, each with its own required quantity, on one source sheet.
+ *
+ * It extends {@link CalculatorLayoutClass}, so the same `config`, `drawSvg()`, `drawCanvas()`, `drawPdf()`, `drawDxf()`, `renderSvg()`, `renderCanvas()` and `reset()` are available.
+ * Each target size is drawn with its own color and legend entry.
+ *
+ * **How it works:**
+ * - Every required target becomes a piece, pieces are placed one by one into the free rectangles of the source.
+ * - Each piece goes into the free rectangle that leaves the shortest leftover side, rotated when it fits better.
+ * - The used free rectangle is split edge to edge, so the result can always be cut with a guillotine cutter.
+ * - A few piece orders and split rules are tried, the one placing the most pieces wins.
+ * - A job of a single size also tries the `auto` grid of {@link CalculatorLayoutClass}, so it never places fewer targets.
+ * - A piece is only rotated when the paper grain allows it, see the `grain` of the source and of each item size.
+ *
+ * @example
+ * ```ts
+ *
+ *  const source = { width: 65, height: 100 };
+ *  const items: ILayoutJobItem[] = [
+ *    { size: { width: 9, height: 5 }, quantity: 40, label: 'Business card' },
+ *    { size: { width: 14.8, height: 10.5 }, quantity: 12, label: 'Postcard' },
+ *    { size: { width: 21, height: 29.7 }, quantity: 2, label: 'Flyer' },
+ *  ];
+ *
+ *  const calculator = new CalculatorMixedLayoutClass(source, items, { width: 0.2, height: 0.2 });
+ *  const result = calculator.calculate();
+ *  // how many of each fit, eq. [{ label: 'Business card', quantity: 40, placed: 40, remaining: 0 }, ...]
+ *  console.log(`Items :`, result.items);
+ *
+ *  const svg = calculator.drawSvg();
+ *
+ * ```
+ * @see
+ * - Job item {@link ILayoutJobItem interface}.
+ * - Item result {@link ILayoutItemResult interface}.
+ */
+export class CalculatorMixedLayoutClass extends CalculatorLayoutClass {
+
+  /**
+   * @property {ILayoutJobItem[]} _items - The target sizes of the job with their required quantity.
+   */
+  private _items: ILayoutJobItem[];
+
+  /**
+   * @param {ISquareSize} source - The size of the source rectangle (e.g., paper).
+   * @param {ILayoutJobItem[]} items - The target sizes of the job with their required quantity.
+   * @param {ISquareSize} [margin={ width: 0, height: 0 }] - The margin around every target rectangle.
+   * @param {ILayoutAllowance} [allowance={}] - The blade kerf, bleed and sheet edge allowances, see {@link CalculatorLayoutClass}.
+   * @param {LayoutUnit} [unit='cm'] - The unit of every input length, see {@link CalculatorLayoutClass}.
+   * @throws {LayoutValidationError} Throws an error if no item is provided, or if the source, an item, the margin or the allowance dimensions, or the unit are invalid,
+   * or a {@link LayoutFitError} if an item doesn't fit on the source in any orientation the paper grain allows,
+   * the `field` of an item is eq. `targets[1].size.width`.
+   */
+  constructor(
+    source: ISquareSize,
+    items: ILayoutJobItem[],
+    margin: ISquareSize = { width: 0, height: 0 },
+    allowance: ILayoutAllowance = {},
+    unit: LayoutUnit = 'cm',
+  ) {
+    if (!items || !Array.isArray(items) || items.length === 0) {
+      throw new LayoutValidationError("Please provide at least one target size.", 'targets', 'required', { targets: items });
+    }
+
+    super(source, items[0].size, margin, 'guillotine', allowance, unit);
+
+    /** Validate every item like the single target of the parent class **/
+    items.forEach((item, i) => {
+      /** the grain first, it decides the orientations the item is checked in **/
+      this._validateGrain(item.size, 'Target', `targets[${i}].size`);
+      this._validateTarget(item.size, this._usableArea(), this._pieceMargin(), `targets[${i}].size`, this._allowedRotations(item.size));
+      if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 0)) {
+        throw new LayoutValidationError("Target quantity must be a non-negative whole number.", `targets[${i}].quantity`, 'invalid-value', { quantity: item.quantity });
+      }
+      if (item.color && !this._isValidColor(item.color)) {
+        throw new LayoutValidationError("Target color has invalid value", `targets[${i}].color`, 'invalid-color', { color: item.color });
+      }
+    });
+
+    this._items = items;
+    /** A legend is needed to tell the sizes apart **/
+    this._config.legend = true;
+  }
+
+  /**
+   * @readonly
+   *
+   * Read the sizing input, with every item of the job in `targets`.
+   * @type {ILayoutInput}
+   * @see
+   * - `interface` {@link ILayoutInput ILayoutInput}.
+   */
+  get input(): ILayoutInput {
+    return Object.assign(super.input, { targets: this._items });
+  }
+
+  /**
+   * @public
+   *
+   * Packs the targets of every item onto the source.
+   * @returns {ILayoutResult & { total: number; items: ILayoutItemResult[] }} Every placed target in `main`, ordered by item,
+   * the total number of targets, how many of each item fit, the waste and yield as `statistics` and, when the grain rule applies, what it cost as `grain`.
+   * @throws {LayoutFitError} Throws an `error` if not a single target fits in the source.
+   *
+   * @example
+   * ```ts
+   *
+   *  const result = calculator.calculate();
+   *  result.items.forEach((item) => console.log(`${item.label} : ${item.placed} / ${item.quantity}`));
+   *
+   * ```
+   */
+  public calculate(): ILayoutResult & { total: number; items: ILayoutItemResult[]; } {
+    const best = this._packBest();
+
+    this._validatePlaced(best.length);
+
+    /** Order the pieces by item, then top to bottom and left to right for the numbering **/
+    const main = best.sort((a, b) => ((a.item as number) - (b.item as number))
+      || ((a.outer.y as number) - (b.outer.y as number))
+      || ((a.outer.x as number) - (b.outer.x as number)));
+
+    const items: ILayoutItemResult[] = this._items.map((item, index) => {
+      const placed = main.filter((rect) => rect.item === index).length;
+      return {
+        index,
+        label: this._itemLabel(index),
+        size: item.size,
+        quantity: item.quantity,
+        placed,
+        remaining: item.quantity === undefined ? 0 : Math.max(item.quantity - placed, 0)
+      };
+    });
+
+    /** Number the pieces of each item in its own grid column **/
+    items.forEach((item) => {
+      main.filter((rect) => rect.item === item.index).forEach((rect, column) => rect.grid = { row: 0, column });
+    });
+
+    const total = main.length;
+    const result: ILayoutResult & { total: number; items: ILayoutItemResult[]; } = { main, total, items, strategy: { method: 'guillotine', total } };
+
+    /** Report what the grain rule cost against the same packing rotating freely **/
+    if (this._items.some((item) => this._allowedRotations(item.size).length === 1)) {
+      const unconstrained = this._withoutGrain(() => this._packBest()).length;
+      result.grain = { source: this._source.grain, unconstrained, lost: Math.max(unconstrained - total, 0) };
+    }
+
+    result.statistics = this.statistics(result);
+    return result;
+  }
+  /**
+   * @public
+   *
+   * A mixed-size job is packed in a single arrangement, it is the only alternative.
+   * @returns {(ILayoutResult & { total: number })[]} The {@link calculate calculated} layout.
+   * @throws {LayoutFitError} Throws an `error` if not a single target fits in the source.
+   */
+  public alternatives(): (ILayoutResult & { total: number; })[] {
+    return [this.calculate()];
+  }
+
+
+  /**
+   *
+   *
+   * Tries every piece order with every split rule and keeps the packing placing the most pieces.
+   * @returns {IRectMatrixResult[]} The placed pieces of the best packing.
+   */
+  private _packBest(): IRectMatrixResult[] {
+    const pieces = this._expandPieces();
+    const orders: ((a: ISquareSize, b: ISquareSize) => number)[] = [
+      (a, b) => (b.width * b.height) - (a.width * a.height),
+      (a, b) => Math.max(b.width, b.height) - Math.max(a.width, a.height)
+    ];
+
+    /** Try every piece order with every split rule and keep the best packing, required pieces always come first **/
+    let best: IRectMatrixResult[] = [];
+    let bestArea = 0;
+    for (const order of orders) {
+      const sorted = [...pieces].sort((a, b) => (Number(a.fill) - Number(b.fill)) || order(a, b));
+      for (const splitShorter of [true, false]) {
+        const packed = this._pack(sorted, splitShorter);
+        const area = packed.reduce((sum, rect) => sum + (rect.outer.width * rect.outer.height), 0);
+        if (packed.length > best.length || (packed.length === best.length && area > bestArea)) {
+          best = packed;
+          bestArea = area;
+        }
+      }
+    }
+
+    /** a single size must not place fewer targets than the grid of the calculator **/
+    if (this._items.length === 1) {
+      const grid = this._gridPieces();
+      if (grid.length > best.length) {
+        best = grid;
+      }
+    }
+    return best;
+  }
+
+  /**
+   *
+   *
+   * Lays out the only item of the job with the `auto` strategy of {@link CalculatorLayoutClass}.
+   * @returns {IRectMatrixResult[]} The targets of the best grid, at most the item quantity, empty when not a single target fits.
+   */
+  private _gridPieces(): IRectMatrixResult[] {
+    const [item] = this._items;
+    /** the grain is left out when the rule is lifted or doesn't apply **/
+    const free = this._allowedRotations(item.size).length > 1;
+    const source: ISheetSize = free ? { width: this._source.width, height: this._source.height } : this._source;
+    const target: ISheetSize = free ? { width: item.size.width, height: item.size.height } : item.size;
+
+    let result: ILayoutResult;
+    try {
+      result = new CalculatorLayoutClass(source, target, this._margin, 'auto', this._allowance, this._unit).calculate();
+    } catch (error) {
+      if (error instanceof LayoutFitError) {
+        return [];
+      }
+      throw error;
+    }
+
+    const rects = [result.main, ...this._remainGroups(result)].flat();
+    return rects
+      .slice(0, item.quantity ?? rects.length)
+      .map((rect) => Object.assign({}, rect, {
+        item: 0,
+        rotated: Math.abs(rect.inner.width - item.size.width) > LayoutMathClass.EPSILON
+      }));
+  }
+
+  /**
+   *
+   *
+   * Draws one group per item, each with its own color from the item or the {@link ILayoutConfig palette}.
+   * @param {ILayoutResult} calculation - The result of {@link calculate}.
+   * @returns {ILayoutPlotGroup[]} One group per item with at least one placed target.
+   */
+  protected _plotGroups(calculation: ILayoutResult): ILayoutPlotGroup[] {
+    const palette = this.config.palette as string[];
+    const items = calculation.items as ILayoutItemResult[];
+
+    return items
+      .map((item) => ({
+        key: `item-${item.index}`,
+        label: `${item.label} (${item.placed}${item.quantity === undefined ? '' : ` / ${item.quantity}`})`,
+        rects: calculation.main.filter((rect) => rect.item === item.index),
+        outerColor: this.config.mainOuterColor as string,
+        innerColor: this._items[item.index].color ?? palette[item.index % palette.length]
+      }))
+      .filter((group) => group.rects.length > 0);
+  }
+
+  /**
+   *
+   *
+   * Lists every item in the title/info block of a PDF export, in place of the single target.
+   * @param {ILayoutResult} calculation - The result of {@link calculate}.
+   * @param {string} [title] - The title of the document. Defaults to the source size and the number of items.
+   * @returns {ILayoutPdfInfo} The title and the info lines.
+   */
+  protected _pdfInfo(calculation: ILayoutResult, title?: string): ILayoutPdfInfo {
+    const items = calculation.items as ILayoutItemResult[];
+    const info = super._pdfInfo(calculation, title ?? `Mixed layout ${this._source.width} x ${this._source.height} ${this._unit} / ${items.length} sizes`);
+    const targets = items.map((item) => `${item.label} ${item.placed}${item.quantity === undefined ? '' : ` / ${item.quantity}`}`);
+
+    /** the second line holds the target **/
+    info.lines.splice(1, 1, `Targets ${targets.join(' | ')}`);
+    return info;
+  }
+
+  /**
+   *
+   *
+   * Lists the size of every piece to place, the target with its margin and bleed, plus one blade kerf.
+   * Items without a quantity get as many `fill` pieces as the source area could hold, placed after the required ones.
+   * @returns {(ISquareSize & { item: number; fill: boolean; rotations: boolean[] })[]} The pieces, in item order, with the orientations the grain allows.
+   */
+  private _expandPieces(): (ISquareSize & { item: number; fill: boolean; rotations: boolean[]; })[] {
+    const pieces: (ISquareSize & { item: number; fill: boolean; rotations: boolean[]; })[] = [];
+    const margin = this._pieceMargin();
+    const kerf = this._allowance.kerf;
+    const usable = this._usableArea();
+    const sourceArea = (usable.width + kerf) * (usable.height + kerf);
+
+    this._items.forEach((item, index) => {
+      const width = item.size.width + (2 * margin.width) + kerf;
+      const height = item.size.height + (2 * margin.height) + kerf;
+      const quantity = item.quantity ?? Math.floor(sourceArea / (width * height));
+      const rotations = this._allowedRotations(item.size);
+      for (let i = 0; i < quantity; i++) {
+        pieces.push({ width, height, item: index, fill: item.quantity === undefined, rotations });
+      }
+    });
+    return pieces;
+  }
+
+  /**
+   *
+   *
+   * Places the pieces one by one into the free rectangles of the usable area.
+   * The area and the pieces are both grown by one blade kerf, so adjacent pieces stay a kerf apart.
+   * @param {(ISquareSize & { item: number; rotations: boolean[] })[]} pieces - The pieces to place, in placing order, with their allowed orientations.
+   * @param {boolean} splitShorter - `true` to split the used free rectangle along its shorter leftover side, `false` along the longer one.
+   * @returns {IRectMatrixResult[]} The placed pieces.
+   */
+  private _pack(pieces: (ISquareSize & { item: number; rotations: boolean[]; })[], splitShorter: boolean): IRectMatrixResult[] {
+    const usable = this._usableArea();
+    const margin = this._pieceMargin();
+    const kerf = this._allowance.kerf;
+    const free: IRectPlotConfig[] = [{ x: usable.x, y: usable.y, width: usable.width + kerf, height: usable.height + kerf }];
+    const placed: IRectMatrixResult[] = [];
+
+    for (const piece of pieces) {
+      let bestIndex = -1;
+      let bestRotated = false;
+      let bestScore = Infinity;
+
+      /** 1. find the free rectangle leaving the shortest leftover side **/
+      free.forEach((rect, index) => {
+        for (const rotated of piece.rotations) {
+          const width = rotated ? piece.height : piece.width;
+          const height = rotated ? piece.width : piece.height;
+          if (width > rect.width + LayoutMathClass.EPSILON || height > rect.height + LayoutMathClass.EPSILON) {
+            continue;
+          }
+          const score = Math.min(rect.width - width, rect.height - height);
+          if (score < bestScore - LayoutMathClass.EPSILON) {
+            bestScore = score;
+            bestIndex = index;
+            bestRotated = rotated;
+          }
+        }
+      });
+
+      if (bestIndex < 0) {
+        continue;
+      }
+
+      /** 2. place the piece at the top-left of the free rectangle **/
+      const rect = free[bestIndex];
+      const width = bestRotated ? piece.height : piece.width;
+      const height = bestRotated ? piece.width : piece.height;
+      const marginWidth = bestRotated ? margin.height : margin.width;
+      const marginHeight = bestRotated ? margin.width : margin.height;
+      const x = rect.x as number;
+      const y = rect.y as number;
+      const outerWidth = width - kerf;
+      const outerHeight = height - kerf;
+
+      placed.push(this._withBleed({
+        outer: { x, y, width: outerWidth, height: outerHeight },
+        inner: { x: x + marginWidth, y: y + marginHeight, width: outerWidth - (2 * marginWidth), height: outerHeight - (2 * marginHeight) },
+        grid: { row: 0, column: 0 },
+        item: piece.item,
+        rotated: bestRotated
+      }));
+
+      /** 3. split the rest of the free rectangle edge to edge **/
+      const leftoverWidth = rect.width - width;
+      const leftoverHeight = rect.height - height;
+      const horizontal = splitShorter ? leftoverWidth < leftoverHeight : leftoverWidth >= leftoverHeight;
+      const right = { x: x + width, y, width: leftoverWidth, height: horizontal ? height : rect.height };
+      const bottom = { x, y: y + height, width: horizontal ? rect.width : width, height: leftoverHeight };
+
+      free.splice(bestIndex, 1, ...[right, bottom].filter((next) => next.width > LayoutMathClass.EPSILON && next.height > LayoutMathClass.EPSILON));
+    }
+
+    return placed;
+  }
+
+  /**
+   *
+   *
+   * Gets the label of an item, its own `label` or its size.
+   * @param {number} index - The index of the item.
+   * @returns {string} The label, eq. `9 x 5`.
+   */
+  private _itemLabel(index: number): string {
+    const item = this._items[index];
+    return item.label ?? `${item.size.width} x ${item.size.height}`;
+  }
+}
@@ -0,0 +1,201 @@
+import { CalculatorLayoutClass } from "./calculator-layout.class";
+import { LayoutValidationError } from "./layout-error.class";
+import { ILayoutPlan, ILayoutResult, IRectMatrixResult } from "./calculator-layout.interface";
+
+/**
+ * **Version 1.0**
+ * @class
+ * Plans a print run on top of a {@link CalculatorLayoutClass}: how many sheets are needed to produce a required quantity of targets.
+ *
+ * **The class provides methods to:**
+ * - Calculate the sheet count, the targets per sheet and the surplus, including an over-run / spoilage percentage.
+ * - Get the layout of any sheet of the plan, the final sheet only holds the targets it needs.
+ * - Draw any sheet of the plan on an **`<svg/>`** or **`<canvas/>`** element, with the `config` of the calculator.
+ *
+ * @example
+ * ```ts
+ *
+ *  const calculator = new CalculatorLayoutClass(source, target, margin, 'auto');
+ *  // 5,000 targets with 3% spoilage
+ *  const planner = new CalculatorPlanClass(calculator, 5000, 3);
+ *
+ *  const plan = planner.plan();
+ *  console.log(`Sheets :`, plan.sheets, `Per sheet :`, plan.piecesPerSheet, `Surplus :`, plan.surplus);
+ *
+ *  // draw the final, partial sheet
+ *  const svg = planner.drawSvg(plan.sheets - 1);
+ *
+ * ```
+ * @see
+ * - Plan output {@link ILayoutPlan interface}.
+ */
+export class CalculatorPlanClass {
+
+  /**
+   * @property {ILayoutPlan} [_plan] - The calculated plan, the sizing of the calculator can't change so it is calculated once.
+   */
+  private _plan?: ILayoutPlan;
+
+  /**
+   * @param {CalculatorLayoutClass} _calculator - The calculator producing the layout of a full sheet.
+   * @param {number} _quantity - The required quantity of targets.
+   * @param {number} [_spoilage=0] - The over-run / spoilage percentage added to the quantity, eq. `3` for 3%.
+   * @throws {LayoutValidationError} Throws an error if the quantity is not a positive whole number or the spoilage is negative or not a finite number.
+   * @defaultValue
+   * _spoilage = 0;
+   */
+  constructor(
+    private _calculator: CalculatorLayoutClass,
+    private _quantity: number,
+    private _spoilage: number = 0,
+  ) {
+    this._validateQuantity(_quantity);
+    this._validateSpoilage(_spoilage);
+  }
+
+  /**
+   * @public
+   *
+   * Calculates the plan of the print run, once, later calls and the sheets of the plan reuse it.
+   * @returns {ILayoutPlan} The sheet count, the targets per sheet, the surplus and the layouts of a full and of the final sheet.
+   * @throws {LayoutError} Throws an `error` if the calculator can't place a single target.
+   *
+   * @example
+   * ```ts
+   *
+   *  // 65 x 100 source, 18 targets per sheet, 5,000 targets with 3% spoilage
+   *  const plan = new CalculatorPlanClass(calculator, 5000, 3).plan();
+   *  // { required: 5150, piecesPerSheet: 18, sheets: 287, lastSheetPieces: 2, produced: 5166, surplus: 166, ... }
+   *
+   * ```
+   */
+  public plan(): ILayoutPlan {
+    if (this._plan) {
+      return this._plan;
+    }
+
+    const layout = this._calculator.calculate();
+    const piecesPerSheet = layout.total;
+    const required = Math.ceil(this._quantity * (1 + (this._spoilage / 100)) - 1e-9);
+    const sheets = Math.ceil(required / piecesPerSheet);
+    const lastSheetPieces = required - ((sheets - 1) * piecesPerSheet);
+    const produced = sheets * piecesPerSheet;
+
+    this._plan = {
+      quantity: this._quantity,
+      spoilage: this._spoilage,
+      required,
+      piecesPerSheet,
+      sheets,
+      lastSheetPieces,
+      produced,
+      surplus: produced - this._quantity,
+      layout,
+      lastSheet: this._trimLayout(layout, lastSheetPieces)
+    };
+    return this._plan;
+  }
+
+  /**
+   * @public
+   *
+   * Gets the layout of a sheet of the plan.
+   * @param {number} index - The zero-based index of the sheet, `plan.sheets - 1` is the final sheet.
+   * @returns {ILayoutResult & { total: number }} The layout of the sheet.
+   * @throws {LayoutValidationError} Throws an error on `sheet` if the sheet index is outside the plan.
+   */
+  public sheet(index: number): ILayoutResult & { total: number; } {
+    const plan = this.plan();
+    if (!Number.isInteger(index) || index < 0 || index >= plan.sheets) {
+      throw new LayoutValidationError(`Sheet index must be a whole number between 0 and ${plan.sheets - 1}.`, 'sheet', 'invalid-value', { index, sheets: plan.sheets });
+    }
+    return index === plan.sheets - 1 ? plan.lastSheet : plan.layout;
+  }
+
+  /**
+   * @public
+   *
+   * Draws a sheet of the plan on an SVG document, see {@link CalculatorLayoutClass.drawSvg}.
+   * @param {number} index - The zero-based index of the sheet.
+   * @param {boolean} [resourceURL=true] - If `true`, returns the SVG as a base64 encoded data URL, else the `<svg/>` element.
+   * @returns {string | SVGSVGElement} The SVG data as either a base64 encoded data URL or an `<svg/>` element.
+   * @throws {LayoutError} Throws a {@link LayoutValidationError} if the sheet index is outside the plan, or a {@link LayoutDrawingError} if there is an issue during the drawing process.
+   */
+  public drawSvg(index: number, resourceURL: boolean = true): string | SVGSVGElement {
+    return this._calculator.drawSvg(resourceURL, this.sheet(index));
+  }
+
+  /**
+   * @public
+   *
+   * Draws a sheet of the plan on a canvas, see {@link CalculatorLayoutClass.drawCanvas}.
+   * @param {number} index - The zero-based index of the sheet.
+   * @param {boolean} [resourceURL=true] - If `true`, returns a base64 encoded `.jpeg` data URL, else the `<canvas/>` element.
+   * @returns {string | HTMLCanvasElement} The data as either a base64 encoded data URL or a `<canvas/>` element.
+   * @throws {LayoutError} Throws a {@link LayoutValidationError} if the sheet index is outside the plan, or a {@link LayoutDrawingError} if there is an issue during the drawing process.
+   */
+  public drawCanvas(index: number, resourceURL: boolean = true): string | HTMLCanvasElement {
+    return this._calculator.drawCanvas(resourceURL, this.sheet(index));
+  }
+
+  /**
+   *
+   *
+   * Keeps the first targets of a layout, in numbering order (`main` first, then every remain group), and measures it again.
+   * The `cuts` and `candidates` of the full sheet are dropped, they don't describe the trimmed sheet.
+   * @param {ILayoutResult & { total: number }} layout - The layout of a full sheet.
+   * @param {number} count - The number of targets to keep.
+   * @returns {ILayoutResult & { total: number }} The trimmed layout, its `strategy` holding the kept `total`.
+   */
+  private _trimLayout(layout: ILayoutResult & { total: number; }, count: number): ILayoutResult & { total: number; } {
+    const { cuts, candidates, ...sheet } = layout;
+    const trimmed: ILayoutResult & { total: number; } = Object.assign(sheet, { main: layout.main.slice(0, count), total: count });
+    if (layout.strategy) {
+      trimmed.strategy = { ...layout.strategy, total: count };
+    }
+    let left = count - trimmed.main.length;
+
+    (['remain', 'remainSecondary', 'remainCorner'] as const).forEach((key) => {
+      const rects = layout[key] as IRectMatrixResult[] | undefined;
+      if (!rects) {
+        return;
+      }
+      const kept = rects.slice(0, left);
+      left -= kept.length;
+      if (kept.length > 0) {
+        trimmed[key] = kept;
+      } else {
+        delete trimmed[key];
+      }
+    });
+
+    trimmed.statistics = this._calculator.statistics(trimmed);
+    return trimmed;
+  }
+
+  /**
+   *
+   *
+   * Validates the required quantity.
+   * @param {number} quantity - The quantity to validate.
+   * @throws {LayoutValidationError} Throws an error on `quantity` if the quantity is not a positive whole number.
+   */
+  private _validateQuantity(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new LayoutValidationError("Quantity must be a positive whole number.", 'quantity', 'invalid-value', { quantity });
+    }
+  }
+
+  /**
+   *
+   *
+   * Validates the spoilage percentage.
+   * @param {number} spoilage - The spoilage to validate.
+   * @throws {LayoutValidationError} Throws an error on `spoilage` if the spoilage is not a finite number or is negative.
+   */
+  private _validateSpoilage(spoilage: number): void {
+    if (!Number.isFinite(spoilage) || spoilage < 0) {
+      throw new LayoutValidationError("Spoilage must be a non-negative percentage.", 'spoilage', Number.isFinite(spoilage) ? 'negative' : 'invalid-value', { spoilage });
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { IRgbaColor } from "./calculator-layout.interface";
+
+/**
+ * The CSS named colors, lower case, with their hex value.
+ */
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4', azure: '#f0ffff',
+  beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000', blanchedalmond: '#ffebcd', blue: '#0000ff',
+  blueviolet: '#8a2be2', brown: '#a52a2a', burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00',
+  chocolate: '#d2691e', coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b', darkgray: '#a9a9a9',
+  darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b', darkmagenta: '#8b008b', darkolivegreen: '#556b2f',
+  darkorange: '#ff8c00', darkorchid: '#9932cc', darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f',
+  darkslateblue: '#483d8b', darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', darkturquoise: '#00ced1',
+  darkviolet: '#9400d3', deeppink: '#ff1493', deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969',
+  dodgerblue: '#1e90ff', firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22', fuchsia: '#ff00ff',
+  gainsboro: '#dcdcdc', ghostwhite: '#f8f8ff', gold: '#ffd700', goldenrod: '#daa520', gray: '#808080',
+  green: '#008000', greenyellow: '#adff2f', grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4',
+  indianred: '#cd5c5c', indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5', lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6', lightcoral: '#f08080',
+  lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3', lightgreen: '#90ee90',
+  lightgrey: '#d3d3d3', lightpink: '#ffb6c1', lightsalmon: '#ffa07a', lightseagreen: '#20b2aa',
+  lightskyblue: '#87cefa', lightslategray: '#778899', lightslategrey: '#778899', lightsteelblue: '#b0c4de',
+  lightyellow: '#ffffe0', lime: '#00ff00', limegreen: '#32cd32', linen: '#faf0e6', magenta: '#ff00ff',
+  maroon: '#800000', mediumaquamarine: '#66cdaa', mediumblue: '#0000cd', mediumorchid: '#ba55d3',
+  mediumpurple: '#9370db', mediumseagreen: '#3cb371', mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a',
+  mediumturquoise: '#48d1cc', mediumvioletred: '#c71585', midnightblue: '#191970', mintcream: '#f5fffa',
+  mistyrose: '#ffe4e1', moccasin: '#ffe4b5', navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6',
+  olive: '#808000', olivedrab: '#6b8e23', orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6',
+  palegoldenrod: '#eee8aa', palegreen: '#98fb98', paleturquoise: '#afeeee', palevioletred: '#db7093',
+  papayawhip: '#ffefd5', peachpuff: '#ffdab9', peru: '#cd853f', pink: '#ffc0cb', plum: '#dda0dd',
+  powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399', red: '#ff0000', rosybrown: '#bc8f8f',
+  royalblue: '#4169e1', saddlebrown: '#8b4513', salmon: '#fa8072', sandybrown: '#f4a460', seagreen: '#2e8b57',
+  seashell: '#fff5ee', sienna: '#a0522d', silver: '#c0c0c0', skyblue: '#87ceeb', slateblue: '#6a5acd',
+  slategray: '#708090', slategrey: '#708090', snow: '#fffafa', springgreen: '#00ff7f', steelblue: '#4682b4',
+  tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8', tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee',
+  wheat: '#f5deb3', white: '#ffffff', whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32',
+  transparent: '#00000000'
+};
+
+/**
+ * A CSS number, eq. `255`, `0.35`, `.5` or `1e2`.
+ */
+const NUMBER = '[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:e[+-]?\\d+)?';
+
+/**
+ * A captured CSS number with an optional percent sign.
+ */
+const VALUE = `(${NUMBER}%?)`;
+
+/**
+ * A captured CSS hue, a number with an optional angle unit.
+ */
+const HUE = `(${NUMBER}(?:deg|grad|rad|turn)?)`;
+
+/**
+ * The accepted color notations, with commas or with spaces and a `/` alpha.
+ */
+const COLOR_PATTERNS = {
+  hex: /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i,
+  rgb: [
+    new RegExp(`^rgba?\\(\\s*${VALUE}\\s*,\\s*${VALUE}\\s*,\\s*${VALUE}\\s*(?:,\\s*${VALUE}\\s*)?\\)$`, 'i'),
+    new RegExp(`^rgba?\\(\\s*${VALUE}\\s+${VALUE}\\s+${VALUE}\\s*(?:\\/\\s*${VALUE}\\s*)?\\)$`, 'i'),
+  ],
+  hsl: [
+    new RegExp(`^hsla?\\(\\s*${HUE}\\s*,\\s*${VALUE}\\s*,\\s*${VALUE}\\s*(?:,\\s*${VALUE}\\s*)?\\)$`, 'i'),
+    new RegExp(`^hsla?\\(\\s*${HUE}\\s+${VALUE}\\s+${VALUE}\\s*(?:\\/\\s*${VALUE}\\s*)?\\)$`, 'i'),
+  ],
+};
+
+/**
+ * **Version 1.0**
+ * @class
+ * Validates and parses CSS colors without a `document`, so the colors of {@link CalculatorLayoutClass} can be checked
+ * and exported in Node, in a web worker or on a backend.
+ *
+ * Accepts the named colors, `transparent`, `currentColor`, hex colors and the `rgb()`, `rgba()`, `hsl()` and `hsla()` notations.
+ *
+ * @example
+ * ```ts
+ *
+ *  ColorValidatorClass.isValid('lightgreen'); // true
+ *  ColorValidatorClass.isValid('rgba(220, 20, 60, 0.35)'); // true
+ *  ColorValidatorClass.isValid('#c7c7c7'); // true
+ *  ColorValidatorClass.isValid('not-a-color'); // false
+ *
+ *  ColorValidatorClass.parse('lightgreen'); // { r: 144, g: 238, b: 144, a: 1 }
+ *
+ * ```
+ */
+export class ColorValidatorClass {
+
+  /**
+   * @public
+   *
+   * Checks if a given string is a valid CSS color.
+   * @param {string} color - The color string to validate.
+   * @returns {boolean} True if the color is valid, false otherwise.
+   */
+  public static isValid(color: string): boolean {
+    if (typeof color !== 'string') {
+      return false;
+    }
+    return color.trim().toLowerCase() === 'currentcolor' || ColorValidatorClass.parse(color) !== null;
+  }
+
+  /**
+   * @public
+   *
+   * Parses a CSS color into its red, green, blue and alpha channels.
+   * @param {string} color - The color string to parse.
+   * @returns {IRgbaColor | null} The channels of the color, or `null` when it is invalid or depends on the context, eq. `currentColor`.
+   */
+  public static parse(color: string): IRgbaColor | null {
+    if (typeof color !== 'string') {
+      return null;
+    }
+    const value = color.trim().toLowerCase();
+    const hex = COLOR_PATTERNS.hex.exec(NAMED_COLORS[value] ?? value);
+    if (hex) {
+      /** expand the short notation, eq. `#abc` to `#aabbcc` **/
+      const digits = hex[1].length <= 4 ? hex[1].replace(/./g, '$&$&') : hex[1];
+      const channel = (index: number) => parseInt(digits.slice(index * 2, (index * 2) + 2), 16);
+      return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+    }
+
+    for (const pattern of COLOR_PATTERNS.rgb) {
+      const match = pattern.exec(value);
+      if (match) {
+        const channel = (text: string) => ColorValidatorClass._clamp(text.endsWith('%') ? parseFloat(text) * 2.55 : parseFloat(text), 255);
+        return { r: channel(match[1]), g: channel(match[2]), b: channel(match[3]), a: ColorValidatorClass._alpha(match[4]) };
+      }
+    }
+
+    for (const pattern of COLOR_PATTERNS.hsl) {
+      const match = pattern.exec(value);
+      if (match) {
+        return ColorValidatorClass._hslToRgb(
+          ColorValidatorClass._hue(match[1]),
+          ColorValidatorClass._clamp(parseFloat(match[2]), 100) / 100,
+          ColorValidatorClass._clamp(parseFloat(match[3]), 100) / 100,
+          ColorValidatorClass._alpha(match[4])
+        );
+      }
+    }
+    return null;
+  }
+
+  /**
+   *
+   *
+   * Converts a hue to degrees between `0` and `360`.
+   * @param {string} text - The hue, with an optional angle unit.
+   * @returns {number} The hue in degrees.
+   */
+  private static _hue(text: string): number {
+    const value = parseFloat(text);
+    const degrees = text.endsWith('grad') ? value * 0.9
+      : text.endsWith('rad') ? value * 180 / Math.PI
+        : text.endsWith('turn') ? value * 360
+          : value;
+    return ((degrees % 360) + 360) % 360;
+  }
+
+  /**
+   *
+   *
+   * Converts an HSL color to its red, green and blue channels.
+   * @param {number} hue - The hue, in degrees.
+   * @param {number} saturation - The saturation, between `0` and `1`.
+   * @param {number} lightness - The lightness, between `0` and `1`.
+   * @param {number} alpha - The alpha, between `0` and `1`.
+   * @returns {IRgbaColor} The channels of the color.
+   */
+  private static _hslToRgb(hue: number, saturation: number, lightness: number, alpha: number): IRgbaColor {
+    const chroma = (1 - Math.abs((2 * lightness) - 1)) * saturation;
+    const channel = (n: number) => {
+      const k = (n + (hue / 30)) % 12;
+      return Math.round((lightness - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255);
+    };
+    return { r: channel(0), g: channel(8), b: channel(4), a: alpha };
+  }
+
+  /**
+   *
+   *
+   * Reads an optional alpha value, a number or a percentage.
+   * @param {string} [text] - The alpha value.
+   * @returns {number} The alpha between `0` and `1`, `1` when it is not given.
+   */
+  private static _alpha(text?: string): number {
+    if (text === undefined) {
+      return 1;
+    }
+    return ColorValidatorClass._clamp(text.endsWith('%') ? parseFloat(text) / 100 : parseFloat(text), 1);
+  }
+
+  /**
+   *
+   *
+   * Clamps a channel between `0` and its maximum.
+   * @param {number} value - The channel value.
+   * @param {number} max - The maximum value.
+   * @returns {number} The clamped value.
+   */
+  private static _clamp(value: number, max: number): number {
+    return Math.min(Math.max(value, 0), max);
+  }
+}
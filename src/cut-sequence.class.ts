@@ -0,0 +1,351 @@
+import { ISquareSize, IRectMatrixResult, IRectPlotConfig, ILayoutPlotGroup, ILayoutCutStep, LayoutUnit } from "./calculator-layout.interface";
+import { LayoutCalculationError } from "./layout-error.class";
+import { LayoutMathClass } from "./layout-math.class";
+
+/**
+ * A target of the layout, its trim rectangle with the group and grid position it comes from.
+ */
+type CutPiece = { rect: Required<IRectPlotConfig>; group: string; grid: IRectMatrixResult['grid']; };
+
+/**
+ * A stack lying on the cutter, the pieces it holds and the axis it was last cut along.
+ */
+type CutStack = { id: number; area: Required<IRectPlotConfig>; pieces: CutPiece[]; axis?: ILayoutCutStep['axis']; depth: number; };
+
+/**
+ * A cut planned on a stack, before it is numbered.
+ */
+type PlannedCut = Pick<ILayoutCutStep, 'position' | 'kind' | 'group' | 'after'>;
+
+/**
+ * **Version 1.0**
+ * @class
+ * Derives the cutting instructions of a layout, the ordered edge to edge cuts of a guillotine cutter.
+ *
+ * **How it works:**
+ * - The source is the first stack. Every stack is cut along one axis at every gap running through it,
+ *   then each part becomes a stack of its own, until every part holds a single target cut to its trim size.
+ * - A gap between two result groups (eq. `main` and `remain`) is cut first, then the gaps between the rows, then the columns.
+ * - Targets spaced by a single blade kerf are parted by one cut through the middle of the kerf,
+ *   wider gaps (margins, bleed) get one cut along each target and the strip in between is waste.
+ * - On each stack the cut farthest from the back gauge comes first, so the stack stays against the back gauge
+ *   and the part in front of the blade is taken off.
+ *
+ * @example
+ * ```ts
+ *
+ *  const result = calculator.calculate();
+ *  const sequence = new CutSequenceClass([{ key: 'main', rects: result.main }], { width: 65, height: 100 }, 0.3, 'cm');
+ *  console.log(sequence.instructions());
+ *
+ * ```
+ */
+export class CutSequenceClass {
+
+  /**
+   * @param {Pick<ILayoutPlotGroup, 'key' | 'rects'>[]} _groups - The result groups of the layout, eq. `main` and `remain`.
+   * @param {ISquareSize} _sheet - The size of the source.
+   * @param {number} [_kerf=0] - The blade kerf.
+   * @param {LayoutUnit} [_unit='cm'] - The unit of the rectangles, used by the printable instructions.
+   * @defaultValue
+   * _kerf = 0;
+   * _unit = 'cm';
+   */
+  constructor(
+    private _groups: Pick<ILayoutPlotGroup, 'key' | 'rects'>[],
+    private _sheet: ISquareSize,
+    private _kerf: number = 0,
+    private _unit: LayoutUnit = 'cm',
+  ) { }
+
+  /**
+   * @public
+   *
+   * Lists the cuts in the order they are made.
+   * @returns {ILayoutCutStep[]} The ordered cuts, in source units.
+   * @throws {LayoutCalculationError} Throws an `error` if a stack holding several targets can't be parted by an edge to edge cut,
+   * or if the kerf of a cut would run through a target.
+   */
+  public steps(): ILayoutCutStep[] {
+    const steps: ILayoutCutStep[] = [];
+    const pieces: CutPiece[] = this._groups.flatMap((group) => group.rects.map((rect) => ({
+      rect: {
+        x: rect.inner.x as number,
+        y: rect.inner.y as number,
+        width: rect.inner.width,
+        height: rect.inner.height
+      },
+      group: group.key,
+      grid: rect.grid
+    })));
+
+    let lastId = 1;
+    const cutStack = (stack: CutStack) => {
+      const plan = this._plan(stack);
+      if (!plan) {
+        return;
+      }
+
+      const horizontal = plan.axis === 'horizontal';
+      const half = this._kerf / 2;
+      const rotate = stack.axis !== undefined && stack.axis !== plan.axis;
+      const begin = horizontal ? stack.area.y : stack.area.x;
+      let end = begin + (horizontal ? stack.area.height : stack.area.width);
+      const parts: { begin: number; end: number; }[] = [];
+
+      /** farthest from the back gauge first, the part in front of the blade is taken off **/
+      plan.cuts.sort((a, b) => b.position - a.position).forEach((cut, index) => {
+        const area = horizontal
+          ? { x: stack.area.x, y: begin, width: stack.area.width, height: end - begin }
+          : { x: begin, y: stack.area.y, width: end - begin, height: stack.area.height };
+        steps.push({
+          step: steps.length + 1,
+          stack: stack.id,
+          axis: plan.axis,
+          position: cut.position,
+          start: horizontal ? stack.area.x : stack.area.y,
+          end: horizontal ? stack.area.x + stack.area.width : stack.area.y + stack.area.height,
+          kind: cut.kind,
+          depth: stack.depth,
+          area,
+          gauge: cut.position - half - begin,
+          rotate: rotate && index === 0,
+          pieces: stack.pieces.filter((piece) => this._center(piece, plan.axis) < end).length,
+          group: cut.group,
+          after: cut.after
+        });
+        this._validateKerf(steps[steps.length - 1], stack.pieces);
+        parts.push({ begin: cut.position + half, end });
+        end = cut.position - half;
+      });
+      parts.push({ begin, end });
+
+      /** the parts holding targets, from the back gauge **/
+      const stacks = parts.reverse()
+        .map((part) => ({
+          area: horizontal
+            ? { x: stack.area.x, y: part.begin, width: stack.area.width, height: part.end - part.begin }
+            : { x: part.begin, y: stack.area.y, width: part.end - part.begin, height: stack.area.height },
+          pieces: stack.pieces.filter((piece) => {
+            const center = this._center(piece, plan.axis);
+            return center > part.begin && center < part.end;
+          })
+        }))
+        .filter((part) => part.pieces.length > 0 && part.area.width > LayoutMathClass.EPSILON && part.area.height > LayoutMathClass.EPSILON)
+        .map((part) => ({ id: 0, area: part.area, pieces: part.pieces, axis: plan.axis, depth: stack.depth + 1 }));
+
+      /** the part left on the cutter keeps the stack number, the parts taken off are numbered in cutting order **/
+      const kept = stacks[0];
+      const takenOff = stacks.slice(1).reverse();
+      if (kept) {
+        kept.id = stack.id;
+      }
+      takenOff.forEach((part) => {
+        if (this._plan(part)) {
+          part.id = ++lastId;
+        }
+      });
+
+      [kept, ...takenOff].filter((part) => !!part).forEach((part) => cutStack(part));
+    };
+
+    cutStack({ id: 1, area: { x: 0, y: 0, width: this._sheet.width, height: this._sheet.height }, pieces, depth: 0 });
+    return steps;
+  }
+
+  /**
+   * @public
+   *
+   * Writes the cutting instructions as a printable text sheet, one line per cut.
+   * @param {number} [precision=2] - The number of decimals of the lengths.
+   * @returns {string} The cutting instructions.
+   * @throws {LayoutCalculationError} Throws an `error` if a stack holding several targets can't be parted by an edge to edge cut.
+   */
+  public instructions(precision: number = 2): string {
+    const steps = this.steps();
+    const pieces = this._groups.reduce((sum, group) => sum + group.rects.length, 0);
+    const unit = this._unit;
+    const n = (value: number) => value.toFixed(precision);
+    const header = ['Step', 'Stack', 'Size', 'Turn', 'Cut', `Gauge (${unit})`, 'Parts'];
+
+    const rows = steps.map((step) => {
+      const parts = step.kind === 'trim'
+        ? `trim ${step.group}`
+        : step.kind === 'split'
+          ? `split ${step.group}`
+          : `${step.kind} ${step.after} ${step.group}`;
+      return [
+        `${step.step}`,
+        `#${step.stack}`,
+        `${n(step.area.width)} x ${n(step.area.height)}`,
+        step.rotate ? '90°' : '',
+        step.axis,
+        n(step.gauge),
+        parts
+      ];
+    });
+
+    /** pad every column to its widest cell **/
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+    const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    return [
+      `Cutting instructions : ${n(this._sheet.width)} x ${n(this._sheet.height)} ${unit}, ${pieces} targets, ${steps.length} cuts`
+      + (this._kerf > 0 ? `, kerf ${n(this._kerf)} ${unit}` : ''),
+      'Gauge : from the back gauge to the blade, the top edge of the stack for horizontal cuts, its left edge for vertical cuts.',
+      'Turn : turn the stack by 90° before the cut.',
+      '',
+      line(header),
+      ...rows.map(line)
+    ].join('\n') + '\n';
+  }
+
+  /**
+   *
+   *
+   * Plans the cuts of a stack along one axis, a split between two groups first, then the rows, then the columns.
+   * @param {Omit<CutStack, 'id'>} stack - The stack to cut.
+   * @returns {{ axis: 'vertical' | 'horizontal'; cuts: PlannedCut[] } | null} The axis and its cuts, or null when the stack is a single target cut to size.
+   * @throws {LayoutCalculationError} Throws an `error` if a stack holding several targets can't be parted by an edge to edge cut.
+   */
+  private _plan(stack: Omit<CutStack, 'id'>): { axis: ILayoutCutStep['axis']; cuts: PlannedCut[]; } | null {
+    const horizontal = this._cuts(stack, 'horizontal');
+    const vertical = this._cuts(stack, 'vertical');
+    const has = (cuts: PlannedCut[], kind?: ILayoutCutStep['kind']) => cuts.some((cut) => kind ? cut.kind === kind : cut.kind !== 'trim');
+
+    if (has(horizontal, 'split') || (!has(vertical, 'split') && has(horizontal))) {
+      return { axis: 'horizontal', cuts: horizontal };
+    }
+    if (has(vertical)) {
+      return { axis: 'vertical', cuts: vertical };
+    }
+    /** only the waste is left to trim **/
+    if (horizontal.length > 0) {
+      return { axis: 'horizontal', cuts: horizontal };
+    }
+    if (vertical.length > 0) {
+      return { axis: 'vertical', cuts: vertical };
+    }
+    if (stack.pieces.length > 1) {
+      throw new LayoutCalculationError("The layout can't be cut edge to edge.", 'not-guillotine', { pieces: stack.pieces.length });
+    }
+    return null;
+  }
+
+  /**
+   *
+   *
+   * Finds every edge to edge cut of a stack along one axis.
+   * The targets are merged into bands along the axis, every gap between two bands and every waste at an end of the stack is cut.
+   * A gap narrower than the kerf is not cut, the kerf would eat into the targets on both sides.
+   * @param {Omit<CutStack, 'id'>} stack - The stack to cut.
+   * @param {'vertical' | 'horizontal'} axis - The axis of the cuts.
+   * @returns {PlannedCut[]} The cuts, from the back gauge.
+   */
+  private _cuts(stack: Omit<CutStack, 'id'>, axis: ILayoutCutStep['axis']): PlannedCut[] {
+    const horizontal = axis === 'horizontal';
+    const half = this._kerf / 2;
+    const begin = horizontal ? stack.area.y : stack.area.x;
+    const end = begin + (horizontal ? stack.area.height : stack.area.width);
+    const span = (piece: CutPiece) => horizontal
+      ? [piece.rect.y, piece.rect.y + piece.rect.height]
+      : [piece.rect.x, piece.rect.x + piece.rect.width];
+
+    /** merge the targets closer than a kerf into bands, the blade can't pass between them **/
+    const bands = [...stack.pieces]
+      .sort((a, b) => span(a)[0] - span(b)[0])
+      .reduce((merged, piece) => {
+        const [start, stop] = span(piece);
+        const last = merged[merged.length - 1];
+        if (last && start < last.end + this._kerf - LayoutMathClass.EPSILON) {
+          last.end = Math.max(last.end, stop);
+          last.pieces.push(piece);
+        } else {
+          merged.push({ start, end: stop, pieces: [piece] });
+        }
+        return merged;
+      }, [] as { start: number; end: number; pieces: CutPiece[]; }[]);
+
+    if (bands.length === 0) {
+      return [];
+    }
+
+    const cuts: PlannedCut[] = [];
+    const first = bands[0];
+    const last = bands[bands.length - 1];
+
+    if (first.start - begin > LayoutMathClass.EPSILON) {
+      cuts.push({ position: first.start - half, kind: 'trim', group: first.pieces[0].group });
+    }
+
+    for (let i = 1; i < bands.length; i++) {
+      const before = bands[i - 1];
+      const after = bands[i];
+      const gap = after.start - before.end;
+      /** the targets along the cut, on the back gauge side **/
+      const along = before.pieces.filter((piece) => Math.abs(span(piece)[1] - before.end) < LayoutMathClass.EPSILON);
+      const beforeGroups = new Set(bands.slice(0, i).flatMap((band) => band.pieces.map((piece) => piece.group)));
+      const split = bands.slice(i).every((band) => band.pieces.every((piece) => !beforeGroups.has(piece.group)));
+      const cut: Omit<PlannedCut, 'position'> = split
+        ? { kind: 'split', group: along[0].group }
+        : {
+          kind: horizontal ? 'row' : 'column',
+          group: along[0].group,
+          after: Math.max(...along.map((piece) => horizontal ? piece.grid.row : piece.grid.column)) + 1
+        };
+
+      if (gap <= this._kerf + LayoutMathClass.EPSILON) {
+        cuts.push(Object.assign({ position: (before.end + after.start) / 2 }, cut));
+      } else {
+        cuts.push(Object.assign({ position: before.end + half }, cut));
+        cuts.push(Object.assign({ position: after.start - half }, cut));
+      }
+    }
+
+    if (end - last.end > LayoutMathClass.EPSILON) {
+      cuts.push({ position: last.end + half, kind: 'trim', group: last.pieces[0].group });
+    }
+    return cuts;
+  }
+
+  /**
+   *
+   *
+   * Checks that the kerf of a cut doesn't run through a target of its stack.
+   * @param {ILayoutCutStep} step - The cut.
+   * @param {CutPiece[]} pieces - The targets of the stack.
+   * @throws {LayoutCalculationError} Throws an `error` if the kerf of the cut overlaps a target.
+   */
+  private _validateKerf(step: ILayoutCutStep, pieces: CutPiece[]): void {
+    const horizontal = step.axis === 'horizontal';
+    const half = this._kerf / 2;
+    const piece = pieces.find(({ rect }) => {
+      const [start, stop] = horizontal ? [rect.y, rect.y + rect.height] : [rect.x, rect.x + rect.width];
+      const [from, to] = horizontal ? [rect.x, rect.x + rect.width] : [rect.y, rect.y + rect.height];
+      return start < step.position + half - LayoutMathClass.EPSILON && stop > step.position - half + LayoutMathClass.EPSILON
+        && from < step.end - LayoutMathClass.EPSILON && to > step.start + LayoutMathClass.EPSILON;
+    });
+    if (piece) {
+      throw new LayoutCalculationError(`The kerf of cut ${step.step} runs through a target.`, 'not-guillotine', {
+        step: step.step,
+        axis: step.axis,
+        position: step.position,
+        target: piece.rect
+      });
+    }
+  }
+
+  /**
+   *
+   *
+   * Gets the middle of a target along the axis of a cut.
+   * @param {CutPiece} piece - The target.
+   * @param {'vertical' | 'horizontal'} axis - The axis of the cut.
+   * @returns {number} The `y` (`horizontal`) or `x` (`vertical`) coordinate of its middle.
+   */
+  private _center(piece: CutPiece, axis: ILayoutCutStep['axis']): number {
+    return axis === 'horizontal'
+      ? piece.rect.y + (piece.rect.height / 2)
+      : piece.rect.x + (piece.rect.width / 2);
+  }
+}
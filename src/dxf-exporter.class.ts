@@ -0,0 +1,217 @@
+import { ISquareSize, IRectMatrixResult, IRectPlotConfig, LayoutUnit, IDxfLine } from "./calculator-layout.interface";
+import { LayoutMathClass } from "./layout-math.class";
+
+/**
+ * The named layers of the DXF document, with their AutoCAD color index.
+ * + `SHEET` : the outline of the source.
+ * + `CUT` : the trim outline of every target, the blade path.
+ * + `BLEED` : the bleed outline of every target, when a bleed is set.
+ * + `ANNOTATION` : the number of every target.
+ */
+const DXF_LAYERS = {
+  sheet: { name: 'SHEET', color: 8 },
+  cut: { name: 'CUT', color: 7 },
+  bleed: { name: 'BLEED', color: 1 },
+  annotation: { name: 'ANNOTATION', color: 3 },
+};
+
+/**
+ * The `$INSUNITS` code of every {@link LayoutUnit unit}, points have no code and are written unitless.
+ */
+const DXF_UNITS: Record<LayoutUnit, number> = {
+  mm: 4,
+  cm: 5,
+  in: 1,
+  pt: 0
+};
+
+/**
+ * **Version 1.0**
+ * @class
+ * Exports the rectangles of a layout as a DXF document, for flatbed digital cutters, CNC cutters and plotters.
+ *
+ * **How it works:**
+ * - The trim outlines go on the `CUT` layer, the bleed outlines on the `BLEED` layer,
+ *   the sheet outline on the `SHEET` layer and the target numbers on the `ANNOTATION` layer.
+ * - Every outline is split into its four edges, collinear edges that touch or overlap are merged into one line,
+ *   so the blade never cuts a shared edge of two adjacent targets twice.
+ * - The coordinates are in the input unit, the `y` axis is flipped so the drawing reads like the SVG and canvas ones.
+ *
+ * @example
+ * ```ts
+ *
+ *  const result = calculator.calculate();
+ *  const exporter = new DxfExporterClass([...result.main, ...(result.remain ?? [])], { width: 65, height: 100 }, 'cm');
+ *  writeFileSync('layout.dxf', exporter.export());
+ *
+ * ```
+ */
+export class DxfExporterClass {
+
+  /**
+   * @param {IRectMatrixResult[]} _rectangles - The rectangles of the layout, numbered in this order.
+   * @param {ISquareSize} _sheet - The size of the source.
+   * @param {LayoutUnit} [_unit='cm'] - The unit of the rectangles, written as the drawing unit of the document.
+   * @defaultValue
+   * _unit = 'cm';
+   */
+  constructor(
+    private _rectangles: IRectMatrixResult[],
+    private _sheet: ISquareSize,
+    private _unit: LayoutUnit = 'cm',
+  ) { }
+
+  /**
+   * @public
+   *
+   * Collects the lines of every layer, with the shared edges merged.
+   * @returns {{ sheet: IDxfLine[]; cut: IDxfLine[]; bleed: IDxfLine[] }} The lines of the sheet, cut and bleed layers, in source units.
+   */
+  public lines(): { sheet: IDxfLine[]; cut: IDxfLine[]; bleed: IDxfLine[]; } {
+    return {
+      sheet: this._mergeEdges([{ x: 0, y: 0, width: this._sheet.width, height: this._sheet.height }]),
+      cut: this._mergeEdges(this._rectangles.map((rect) => rect.inner)),
+      bleed: this._mergeEdges(this._rectangles.map((rect) => rect.bleed).filter((rect): rect is IRectPlotConfig => !!rect))
+    };
+  }
+
+  /**
+   * @public
+   *
+   * Writes the DXF document.
+   * @returns {string} The DXF document (ASCII, AutoCAD R12 entities).
+   */
+  public export(): string {
+    const lines = this.lines();
+    const entities: (string | number)[] = [];
+
+    (['sheet', 'cut', 'bleed'] as const).forEach((layer) => {
+      lines[layer].forEach((line) => {
+        entities.push(
+          0, 'LINE', 8, DXF_LAYERS[layer].name,
+          10, this._n(line.x1), 20, this._n(this._flip(line.y1)), 30, 0,
+          11, this._n(line.x2), 21, this._n(this._flip(line.y2)), 31, 0
+        );
+      });
+    });
+
+    /** Number every target in the middle of its trim outline **/
+    this._rectangles.forEach((rect, i) => {
+      const inner = rect.inner;
+      const x = (inner.x as number) + (inner.width / 2);
+      const y = this._flip((inner.y as number) + (inner.height / 2));
+      entities.push(
+        0, 'TEXT', 8, DXF_LAYERS.annotation.name,
+        10, this._n(x), 20, this._n(y), 30, 0,
+        40, this._n(Math.min(inner.width, inner.height) * 0.25),
+        1, `${i + 1}`,
+        72, 1, 73, 2,
+        11, this._n(x), 21, this._n(y), 31, 0
+      );
+    });
+
+    const layers = Object.values(DXF_LAYERS);
+    const document: (string | number)[] = [
+      0, 'SECTION', 2, 'HEADER',
+      9, '$ACADVER', 1, 'AC1009',
+      9, '$INSUNITS', 70, DXF_UNITS[this._unit],
+      9, '$MEASUREMENT', 70, this._unit === 'in' || this._unit === 'pt' ? 0 : 1,
+      9, '$EXTMIN', 10, 0, 20, 0, 30, 0,
+      9, '$EXTMAX', 10, this._n(this._sheet.width), 20, this._n(this._sheet.height), 30, 0,
+      0, 'ENDSEC',
+      0, 'SECTION', 2, 'TABLES',
+      0, 'TABLE', 2, 'LTYPE', 70, 1,
+      0, 'LTYPE', 2, 'CONTINUOUS', 70, 0, 3, 'Solid line', 72, 65, 73, 0, 40, 0,
+      0, 'ENDTAB',
+      0, 'TABLE', 2, 'LAYER', 70, layers.length,
+      ...layers.flatMap((layer) => [0, 'LAYER', 2, layer.name, 70, 0, 62, layer.color, 6, 'CONTINUOUS']),
+      0, 'ENDTAB',
+      0, 'ENDSEC',
+      0, 'SECTION', 2, 'ENTITIES',
+      ...entities,
+      0, 'ENDSEC',
+      0, 'EOF'
+    ];
+
+    /** every group code and value on its own line **/
+    return document.map((value) => `${value}`).join('\n') + '\n';
+  }
+
+  /**
+   *
+   *
+   * Splits rectangles into their edges and merges the collinear edges that touch or overlap.
+   * @param {IRectPlotConfig[]} rects - The rectangles.
+   * @returns {IDxfLine[]} The merged horizontal lines, then the merged vertical lines.
+   */
+  private _mergeEdges(rects: IRectPlotConfig[]): IDxfLine[] {
+    const key = (value: number) => value.toFixed(6);
+    const horizontal = new Map<string, { at: number; spans: [number, number][]; }>();
+    const vertical = new Map<string, { at: number; spans: [number, number][]; }>();
+    const add = (lines: typeof horizontal, at: number, start: number, end: number) => {
+      const line = lines.get(key(at)) ?? { at, spans: [] };
+      line.spans.push([start, end]);
+      lines.set(key(at), line);
+    };
+
+    rects.forEach((rect) => {
+      const x = rect.x as number;
+      const y = rect.y as number;
+      add(horizontal, y, x, x + rect.width);
+      add(horizontal, y + rect.height, x, x + rect.width);
+      add(vertical, x, y, y + rect.height);
+      add(vertical, x + rect.width, y, y + rect.height);
+    });
+
+    const merged: IDxfLine[] = [];
+    horizontal.forEach((line) => {
+      this._mergeSpans(line.spans).forEach(([start, end]) => merged.push({ x1: start, y1: line.at, x2: end, y2: line.at }));
+    });
+    vertical.forEach((line) => {
+      this._mergeSpans(line.spans).forEach(([start, end]) => merged.push({ x1: line.at, y1: start, x2: line.at, y2: end }));
+    });
+    return merged;
+  }
+
+  /**
+   *
+   *
+   * Merges the spans of one line that touch or overlap.
+   * @param {[number, number][]} spans - The spans, as start and end.
+   * @returns {[number, number][]} The merged spans, sorted by start.
+   */
+  private _mergeSpans(spans: [number, number][]): [number, number][] {
+    const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+    return sorted.reduce((merged, span) => {
+      const last = merged[merged.length - 1];
+      if (last && span[0] <= last[1] + LayoutMathClass.EPSILON) {
+        last[1] = Math.max(last[1], span[1]);
+      } else {
+        merged.push([span[0], span[1]]);
+      }
+      return merged;
+    }, [] as [number, number][]);
+  }
+
+  /**
+   *
+   *
+   * Flips a `y` coordinate, the DXF `y` axis points up.
+   * @param {number} y - The `y` coordinate from the top of the source.
+   * @returns {number} The `y` coordinate from the bottom of the source.
+   */
+  private _flip(y: number): number {
+    return this._sheet.height - y;
+  }
+
+  /**
+   *
+   *
+   * Formats a coordinate, with at most 6 decimals.
+   * @param {number} value - The coordinate.
+   * @returns {number} The rounded coordinate.
+   */
+  private _n(value: number): number {
+    return Number(value.toFixed(6));
+  }
+}
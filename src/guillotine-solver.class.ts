@@ -0,0 +1,352 @@
+import { ISquareSize, IGuillotineCut, IGuillotinePlacement, IGuillotineSolution } from "./calculator-layout.interface";
+import { LayoutValidationError } from "./layout-error.class";
+import { LayoutMathClass } from "./layout-math.class";
+
+/**
+ * Above this number of sub-rectangle sizes the solver coarsens its split positions to keep the search fast.
+ */
+const MAX_STATES = 250000;
+
+/**
+ * @interface IGuillotineNode
+ * A node of the guillotine plan, either a plain grid of cells or a split into two sub-rectangles.
+ * @property {number} count - The number of cells held by the node.
+ * @property {{ row: number; column: number; rotated: boolean }} [grid] - The grid of cells, when the node is not split.
+ * @property {{ axis: 'vertical' | 'horizontal'; at: number; first: IGuillotineNode; second: IGuillotineNode }} [split] - The split, when the node is cut into two sub-rectangles.
+ */
+interface IGuillotineNode {
+  count: number;
+  grid?: { row: number; column: number; rotated: boolean; };
+  split?: { axis: 'vertical' | 'horizontal'; at: number; first: IGuillotineNode; second: IGuillotineNode; };
+}
+
+/**
+ * **Version 1.0**
+ * @class
+ * Recursive guillotine solver, used by the `guillotine` method of {@link CalculatorLayoutClass}.
+ *
+ * A guillotine cutter can only cut edge to edge, so every layout it produces is a tree of cuts:
+ * the sheet is split into two sub-rectangles, each of them is split again or filled with a plain grid of cells.
+ * The solver searches that tree for the arrangement holding the most cells.
+ *
+ * **How it works:**
+ * - Split positions are limited to the sums of the cell sides (`raster points`), any other position only wastes material.
+ * - Every sub-rectangle size is solved once and memoized.
+ * - Splits are only tried up to the middle of a sub-rectangle, the mirrored split can always hold as many cells.
+ *
+ * @example
+ * ```ts
+ *
+ *  // 65 x 100 sheet, 23 x 12 cells, rotation allowed
+ *  const solver = new GuillotineSolverClass({ width: 65, height: 100 }, { width: 23, height: 12 });
+ *  const solution = solver.solve();
+ *  console.log(`Total :`, solution.count);
+ *  console.log(`Cuts :`, solution.cuts);
+ *
+ * ```
+ */
+export class GuillotineSolverClass {
+
+  /**
+   * @property {Map<string, IGuillotineNode>} _memo - The best node of every solved sub-rectangle size.
+   */
+  private _memo: Map<string, IGuillotineNode> = new Map();
+  /**
+   * @property {number[]} _rasterX - The split positions along the width, sorted ascending.
+   */
+  private _rasterX: number[];
+  /**
+   * @property {number[]} _rasterY - The split positions along the height, sorted ascending.
+   */
+  private _rasterY: number[];
+  /**
+   * @property {boolean} _useSplits - `false` when the sub-rectangle sizes are too many to search, only plain grids are used then.
+   */
+  private _useSplits: boolean = true;
+
+  /**
+   * @param {ISquareSize} _container - The size of the rectangle to fill (e.g., the source paper).
+   * @param {ISquareSize} _cell - The size of a single cell, the target with its margin.
+   * @param {boolean[]} [_rotations=[false, true]] - The allowed orientations of the cell, `true` is rotated by 90°.
+   * @throws {LayoutValidationError} Throws an error if the cell or the container dimensions are not positive, or if no orientation is allowed.
+   */
+  constructor(
+    private _container: ISquareSize,
+    private _cell: ISquareSize,
+    private _rotations: boolean[] = [false, true],
+  ) {
+    if (_cell.width <= 0 || _cell.height <= 0 || _container.width <= 0 || _container.height <= 0) {
+      const field = _cell.width <= 0 || _cell.height <= 0 ? 'cell' : 'container';
+      throw new LayoutValidationError("Guillotine cell and container must have positive width and height.", field, 'not-positive', { cell: _cell, container: _container });
+    }
+    if (_rotations.length === 0) {
+      throw new LayoutValidationError("Guillotine solver needs at least one allowed orientation.", 'rotations', 'required');
+    }
+
+    const widths = _rotations.map((rotated) => rotated ? _cell.height : _cell.width);
+    const heights = _rotations.map((rotated) => rotated ? _cell.width : _cell.height);
+
+    this._rasterX = this._raster(_container.width, widths, true);
+    this._rasterY = this._raster(_container.height, heights, true);
+
+    /** coarsen to plain multiples of each side when there are too many sub-rectangle sizes **/
+    if (this._rasterX.length * this._rasterY.length > MAX_STATES) {
+      this._rasterX = this._raster(_container.width, widths, false);
+      this._rasterY = this._raster(_container.height, heights, false);
+      this._useSplits = this._rasterX.length * this._rasterY.length <= MAX_STATES;
+    }
+  }
+
+  /**
+   * @public
+   *
+   * Solves the guillotine layout of the whole container.
+   * @returns {IGuillotineSolution} The number of cells, their placements and the ordered cuts that produce them.
+   * Positions are relative to the top-left of the container.
+   */
+  public solve(): IGuillotineSolution {
+    const width = this._normalize(this._container.width, this._rasterX);
+    const height = this._normalize(this._container.height, this._rasterY);
+    const placements: IGuillotinePlacement[] = [];
+    const cuts: IGuillotineCut[] = [];
+
+    const root = this._best(width, height);
+    this._materialize(root, 0, 0, this._container.width, this._container.height, 0, placements, cuts);
+
+    return { count: root.count, placements, cuts };
+  }
+
+  /**
+   *
+   *
+   * Finds the best node for a sub-rectangle, memoized by size.
+   * @param {number} width - The width of the sub-rectangle, a raster point.
+   * @param {number} height - The height of the sub-rectangle, a raster point.
+   * @returns {IGuillotineNode} The node holding the most cells.
+   */
+  private _best(width: number, height: number): IGuillotineNode {
+    const key = `${width}x${height}`;
+    const memo = this._memo.get(key);
+    if (memo) {
+      return memo;
+    }
+
+    let best: IGuillotineNode = { count: 0 };
+
+    /** 1. plain grid, in every allowed orientation **/
+    for (const rotated of this._rotations) {
+      const cellWidth = rotated ? this._cell.height : this._cell.width;
+      const cellHeight = rotated ? this._cell.width : this._cell.height;
+      const column = Math.floor((width + LayoutMathClass.EPSILON) / cellWidth);
+      const row = Math.floor((height + LayoutMathClass.EPSILON) / cellHeight);
+      if (row * column > best.count) {
+        best = { count: row * column, grid: { row, column, rotated } };
+      }
+    }
+
+    /** 2. split into two sub-rectangles, unless the grid already reaches the area bound **/
+    const bound = Math.floor((width * height + LayoutMathClass.EPSILON) / (this._cell.width * this._cell.height));
+    if (this._useSplits && best.count < bound) {
+      best = this._bestSplit(best, 'vertical', width, height, bound);
+    }
+    if (this._useSplits && best.count < bound) {
+      best = this._bestSplit(best, 'horizontal', width, height, bound);
+    }
+
+    this._memo.set(key, best);
+    return best;
+  }
+
+  /**
+   *
+   *
+   * Tries every split along one axis and keeps the best one.
+   * @param {IGuillotineNode} best - The best node found so far.
+   * @param {'vertical' | 'horizontal'} axis - `vertical` splits the width, `horizontal` splits the height.
+   * @param {number} width - The width of the sub-rectangle.
+   * @param {number} height - The height of the sub-rectangle.
+   * @param {number} bound - The area bound, the search stops once it is reached.
+   * @returns {IGuillotineNode} The given node, or a better split node.
+   */
+  private _bestSplit(
+    best: IGuillotineNode,
+    axis: 'vertical' | 'horizontal',
+    width: number,
+    height: number,
+    bound: number): IGuillotineNode {
+
+    const vertical = axis === 'vertical';
+    const raster = vertical ? this._rasterX : this._rasterY;
+    const length = vertical ? width : height;
+
+    for (const at of raster) {
+      if (at <= 0) {
+        continue;
+      }
+      /** the mirrored split holds as many cells, stop at the middle **/
+      if (at > (length / 2) + LayoutMathClass.EPSILON) {
+        break;
+      }
+      const rest = this._normalize(length - at, raster);
+      if (rest <= 0) {
+        continue;
+      }
+
+      const first = vertical ? this._best(at, height) : this._best(width, at);
+      const second = vertical ? this._best(rest, height) : this._best(width, rest);
+      const count = first.count + second.count;
+
+      if (count > best.count) {
+        best = { count, split: { axis, at, first, second } };
+        if (count >= bound) {
+          break;
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   *
+   *
+   * Turns a node into cell placements and cuts, depth first so cuts come out in cutting order.
+   * @param {IGuillotineNode} node - The node to materialize.
+   * @param {number} x - The x position of the sub-rectangle.
+   * @param {number} y - The y position of the sub-rectangle.
+   * @param {number} width - The actual width of the sub-rectangle.
+   * @param {number} height - The actual height of the sub-rectangle.
+   * @param {number} depth - The recursion depth of the sub-rectangle.
+   * @param {IGuillotinePlacement[]} placements - Collects the cell placements.
+   * @param {IGuillotineCut[]} cuts - Collects the cuts.
+   */
+  private _materialize(
+    node: IGuillotineNode,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    depth: number,
+    placements: IGuillotinePlacement[],
+    cuts: IGuillotineCut[]): void {
+
+    if (node.split) {
+      const { axis, at, first, second } = node.split;
+      if (axis === 'vertical') {
+        cuts.push({ axis, position: x + at, start: y, end: y + height, kind: 'split', depth });
+        this._materialize(first, x, y, at, height, depth + 1, placements, cuts);
+        this._materialize(second, x + at, y, width - at, height, depth + 1, placements, cuts);
+      } else {
+        cuts.push({ axis, position: y + at, start: x, end: x + width, kind: 'split', depth });
+        this._materialize(first, x, y, width, at, depth + 1, placements, cuts);
+        this._materialize(second, x, y + at, width, height - at, depth + 1, placements, cuts);
+      }
+      return;
+    }
+
+    if (!node.grid || node.count === 0) {
+      return;
+    }
+
+    const { row, column, rotated } = node.grid;
+    const cellWidth = rotated ? this._cell.height : this._cell.width;
+    const cellHeight = rotated ? this._cell.width : this._cell.height;
+    const usedWidth = column * cellWidth;
+    const usedHeight = row * cellHeight;
+
+    /** separate the block from its unused leftover first **/
+    if (usedHeight < height - LayoutMathClass.EPSILON) {
+      cuts.push({ axis: 'horizontal', position: y + usedHeight, start: x, end: x + width, kind: 'trim', depth });
+    }
+    if (usedWidth < width - LayoutMathClass.EPSILON) {
+      cuts.push({ axis: 'vertical', position: x + usedWidth, start: y, end: y + usedHeight, kind: 'trim', depth });
+    }
+    /** then cut the rows, and the columns of the stacked rows **/
+    for (let r = 1; r < row; r++) {
+      cuts.push({ axis: 'horizontal', position: y + r * cellHeight, start: x, end: x + usedWidth, kind: 'row', depth });
+    }
+    for (let c = 1; c < column; c++) {
+      cuts.push({ axis: 'vertical', position: x + c * cellWidth, start: y, end: y + usedHeight, kind: 'column', depth });
+    }
+
+    for (let r = 0; r < row; r++) {
+      for (let c = 0; c < column; c++) {
+        placements.push({
+          x: x + c * cellWidth,
+          y: y + r * cellHeight,
+          width: cellWidth,
+          height: cellHeight,
+          rotated,
+          row: r,
+          column: c
+        });
+      }
+    }
+  }
+
+  /**
+   *
+   *
+   * Lists the split positions along one side, the sums of the cell sides that fit in the length.
+   * @param {number} length - The length of the side.
+   * @param {number[]} sizes - The cell sides along that side, one per allowed orientation.
+   * @param {boolean} combine - `true` to mix the cell sides, `false` for plain multiples of each side only.
+   * @returns {number[]} The split positions, sorted ascending and starting with `0`.
+   */
+  private _raster(length: number, sizes: number[], combine: boolean): number[] {
+    const points = new Set<number>([0]);
+
+    if (combine) {
+      const queue = [0];
+      for (let i = 0; i < queue.length; i++) {
+        for (const size of sizes) {
+          const next = this._round(queue[i] + size);
+          if (next <= length + LayoutMathClass.EPSILON && !points.has(next)) {
+            points.add(next);
+            queue.push(next);
+          }
+        }
+      }
+    } else {
+      for (const size of sizes) {
+        for (let n = 1; n * size <= length + LayoutMathClass.EPSILON; n++) {
+          points.add(this._round(n * size));
+        }
+      }
+    }
+
+    return [...points].sort((a, b) => a - b);
+  }
+
+  /**
+   *
+   *
+   * Rounds a length down to the largest split position it can hold.
+   * @param {number} length - The length to round.
+   * @param {number[]} raster - The split positions, sorted ascending.
+   * @returns {number} The largest split position not greater than the length.
+   */
+  private _normalize(length: number, raster: number[]): number {
+    let low = 0;
+    let high = raster.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (raster[middle] <= length + LayoutMathClass.EPSILON) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return raster[low];
+  }
+
+  /**
+   *
+   *
+   * Rounds a length to remove floating point noise, so equal sizes share the same memo key.
+   * @param {number} value - The length to round.
+   * @returns {number} The rounded length.
+   */
+  private _round(value: number): number {
+    return Math.round(value * 1e9) / 1e9;
+  }
+}
@@ -0,0 +1,198 @@
+import { CalculatorLayoutClass } from "./calculator-layout.class";
+import { LayoutError, LayoutValidationError } from "./layout-error.class";
+import { LayoutMathClass } from "./layout-math.class";
+import { ILayoutAnalysis, ILayoutInput, ILayoutResult, ILayoutStockSuggestion, ISheetEdge, ISheetSize, ISquareSize } from "./calculator-layout.interface";
+
+/**
+ * The most stock sizes {@link LayoutAnalysisClass.stock} calculates, the smallest ones first.
+ */
+const STOCK_CANDIDATES = 50;
+
+/**
+ * **Version 1.0**
+ * @class
+ * Tells what fits on the source without throwing, and what to change when the target doesn't fit:
+ * rotating the target, a larger stock sheet or a smaller margin.
+ *
+ * **How it works:**
+ * - Every check builds a {@link CalculatorLayoutClass} and calls `calculate()`, so it follows the strategy, the allowance and the paper grain of the input.
+ *   A check that throws a {@link LayoutError} counts as `0` targets, any other error is thrown.
+ * - {@link stock} lays the targets out on a grid of every row count, in both orientations, and keeps the smallest sheet
+ *   the calculator confirms, the sheet edges and the kerf included.
+ * - {@link margin} grows the margin until the target fills the usable area of the source.
+ * - Only the `target` of a mixed-size job is analysed, its other `targets` are ignored.
+ *
+ * @example
+ * ```ts
+ *
+ *  const analysis = new LayoutAnalysisClass({ source: { width: 20, height: 30 }, target: { width: 25, height: 10 }, margin: { width: 1, height: 1 } }).analyze(4);
+ *  if (!analysis.fits) {
+ *    console.log(analysis.error); // Target size is too large for the source with margin.
+ *    console.log(analysis.rotated.fits); // true, 10 x 25 fits
+ *    console.log(analysis.stock); // { width: 27, height: 48, total: 4, utilisation: 77.16 }
+ *    console.log(analysis.margin); // null, 25 is wider than the source even without margin
+ *  }
+ *
+ * ```
+ * @see
+ * - Analysis output {@link ILayoutAnalysis interface}.
+ */
+export class LayoutAnalysisClass {
+
+  /**
+   * @param {ILayoutInput} _input - The sizing input, the same as the calculator's, see {@link CalculatorLayoutClass.input}.
+   */
+  constructor(
+    private _input: ILayoutInput
+  ) {
+  }
+
+  /**
+   * @public
+   *
+   * Analyses the input: how many targets fit, whether the rotated target fits, the smallest stock and the largest margin.
+   * @param {number} [count=1] - The number of targets the suggested stock must hold.
+   * @returns {ILayoutAnalysis} The analysis, with the error of the calculator when not a single target fits.
+   * @throws {LayoutValidationError} Throws an `error` on `count` if the count is not a positive whole number.
+   */
+  public analyze(count: number = 1): ILayoutAnalysis {
+    const { target } = this._input;
+    const current = this._check(this._input);
+    const rotatedTarget: ISheetSize = { width: target.height, height: target.width };
+    if (target.grain) {
+      rotatedTarget.grain = target.grain === 'horizontal' ? 'vertical' : 'horizontal';
+    }
+    const rotated = this._check({ ...this._input, target: rotatedTarget });
+
+    const analysis: ILayoutAnalysis = {
+      fits: current.total > 0,
+      total: current.total,
+      rotated: { target: rotatedTarget, fits: rotated.total > 0, total: rotated.total },
+      stock: this.stock(count),
+      margin: this.margin()
+    };
+    if (current.error) {
+      analysis.error = current.error.message;
+      analysis.code = current.error.code;
+      analysis.field = current.error.field;
+    }
+    return analysis;
+  }
+
+  /**
+   * @public
+   *
+   * Finds the smallest stock sheet holding a number of targets, with the margin, the allowance and the grain of the input.
+   * @remarks
+   * - The candidates are the grids of every row count, the target in its orientation then rotated, from the smallest area,
+   *   the squarest one first on ties.
+   * - The first {@link STOCK_CANDIDATES} candidates are calculated, the first one holding the count wins.
+   * @param {number} [count=1] - The number of targets the stock must hold.
+   * @returns {ILayoutStockSuggestion | null} The stock, `null` when no candidate holds the count.
+   * @throws {LayoutValidationError} Throws an `error` on `count` if the count is not a positive whole number.
+   */
+  public stock(count: number = 1): ILayoutStockSuggestion | null {
+    this._validateCount(count);
+
+    const { source, target, margin = { width: 0, height: 0 }, allowance = {} } = this._input;
+    const kerf = allowance.kerf ?? 0;
+    const bleed = allowance.bleed ?? 0;
+    const edge = this._edge();
+    /** a target with its margin and bleed, plus one kerf, `n` targets take `n - 1` kerfs **/
+    const cell = {
+      width: target.width + (2 * (margin.width + bleed)) + kerf,
+      height: target.height + (2 * (margin.height + bleed)) + kerf
+    };
+
+    const candidates: ISquareSize[] = [];
+    [cell, { width: cell.height, height: cell.width }].forEach((size) => {
+      for (let rows = 1; rows <= count; rows++) {
+        const columns = Math.ceil(count / rows);
+        /** a row less would hold the count as well **/
+        if ((rows - 1) * columns >= count) {
+          continue;
+        }
+        candidates.push({
+          width: LayoutMathClass.roundUp((columns * size.width) - kerf + edge.left + edge.right),
+          height: LayoutMathClass.roundUp((rows * size.height) - kerf + edge.top + edge.bottom)
+        });
+      }
+    });
+    candidates.sort((a, b) => (a.width * a.height) - (b.width * b.height)
+      || Math.abs(a.width - a.height) - Math.abs(b.width - b.height));
+
+    for (const size of candidates.slice(0, STOCK_CANDIDATES)) {
+      const { layout } = this._check({ ...this._input, source: { ...size, grain: source.grain } });
+      if (layout && layout.total >= count) {
+        return { width: size.width, height: size.height, total: layout.total, utilisation: layout.statistics?.utilisation ?? 0 };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * @public
+   *
+   * Finds the largest margin that still leaves room for one target on the source, the target in its orientation.
+   * @returns {ISquareSize | null} The margin, `null` when the target doesn't fit even without margin.
+   */
+  public margin(): ISquareSize | null {
+    const { source, target, allowance = {} } = this._input;
+    const bleed = allowance.bleed ?? 0;
+    const edge = this._edge();
+
+    const margin = {
+      width: LayoutMathClass.roundDown(((source.width - edge.left - edge.right - target.width) / 2) - bleed),
+      height: LayoutMathClass.roundDown(((source.height - edge.top - edge.bottom - target.height) / 2) - bleed)
+    };
+    if (!(margin.width >= 0) || !(margin.height >= 0)) {
+      return null;
+    }
+    return this._check({ ...this._input, margin }).total > 0 ? margin : null;
+  }
+
+  /**
+   *
+   *
+   * Calculates an input, without throwing a {@link LayoutError}.
+   * @param {ILayoutInput} input - The input to calculate.
+   * @returns {{ total: number; layout?: ILayoutResult & { total: number }; error?: LayoutError }} The number of targets that fit
+   * with the layout, or `0` with the error of the calculator.
+   */
+  private _check(input: ILayoutInput): { total: number; layout?: ILayoutResult & { total: number; }; error?: LayoutError; } {
+    const { source, target, margin, strategy, useInline, allowance, unit } = input;
+    try {
+      const layout = new CalculatorLayoutClass(source, target, margin, strategy ?? useInline, allowance, unit).calculate();
+      return { total: layout.total, layout };
+    } catch (error) {
+      /** only a layout error means the input doesn't fit, any other error is a bug to report **/
+      if (!(error instanceof LayoutError)) {
+        throw error;
+      }
+      return { total: 0, error };
+    }
+  }
+
+  /**
+   *
+   *
+   * Gets the sheet edges of the input, a missing side is `0`.
+   * @returns {Required<ISheetEdge>} The sheet edges.
+   */
+  private _edge(): Required<ISheetEdge> {
+    return { top: 0, right: 0, bottom: 0, left: 0, ...this._input.allowance?.edge };
+  }
+
+  /**
+   *
+   *
+   * Validates the count of targets.
+   * @param {number} count - The count to validate.
+   * @throws {LayoutValidationError} Throws an error on `count` if the count is not a positive whole number.
+   */
+  private _validateCount(count: number): void {
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new LayoutValidationError("Count must be a positive whole number.", 'count', 'invalid-value', { count });
+    }
+  }
+}
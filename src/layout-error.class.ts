@@ -0,0 +1,144 @@
+import { ILayoutErrorDetails, LayoutErrorCode, LayoutFitCode, LayoutValidationCode } from "./calculator-layout.interface";
+
+/**
+ * **Version 1.0**
+ * @class
+ * The base of every error thrown by the calculators, with a stable `code`, the offending `field` and the `values` involved.
+ *
+ * **How it works:**
+ * - {@link LayoutValidationError} : an input or a configuration value is refused, eq. a negative margin or an invalid color.
+ * - {@link LayoutFitError} : the values are valid, but the targets don't fit on the source.
+ * - {@link LayoutCalculationError} : the calculation reached an inconsistent state.
+ * - {@link LayoutDrawingError} : a drawing or an export failed, the original error is kept as its `cause`.
+ * - `field` is the path of the value in the input of the calculator, eq. `target.width`, `allowance.edge.top` or `targets[1].quantity`,
+ *   or in its configuration, eq. `config.paperColor`.
+ * - `code` is the failed rule, see {@link LayoutErrorCode}, it does not change with the wording of the `message`.
+ *
+ * @example
+ * ```ts
+ *
+ *  try {
+ *    new CalculatorLayoutClass({ width: 20, height: 30 }, { width: 25, height: 10 });
+ *  } catch (error) {
+ *    if (error instanceof LayoutFitError) {
+ *      console.log(error.field, error.code, error.values); // 'target.width' 'too-large' { target, source, margin }
+ *    } else if (error instanceof LayoutError) {
+ *      console.log(error.code);
+ *    }
+ *  }
+ *
+ * ```
+ */
+export class LayoutError extends Error {
+
+  /**
+   * @property {string} [field] - The path of the offending value.
+   */
+  public readonly field?: string;
+
+  /**
+   * @property {Record<string, unknown>} values - The values involved, empty when there are none to report.
+   */
+  public readonly values: Record<string, unknown>;
+
+  /**
+   * @property {unknown} [cause] - The original error.
+   */
+  public readonly cause?: unknown;
+
+  /**
+   * @param {string} message - The message of the error.
+   * @param {LayoutErrorCode} code - The stable code of the error.
+   * @param {ILayoutErrorDetails} [details={}] - The offending field, the values involved and the original error.
+   */
+  constructor(
+    message: string,
+    public readonly code: LayoutErrorCode,
+    details: ILayoutErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'LayoutError';
+    this.field = details.field;
+    this.values = details.values ?? {};
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * **Version 1.0**
+ * @class
+ * The error thrown when an input or a configuration value is refused, it names the refused field and the failed rule.
+ */
+export class LayoutValidationError extends LayoutError {
+  declare public readonly field: string;
+  declare public readonly code: LayoutValidationCode;
+
+  /**
+   * @param {string} message - The message of the error.
+   * @param {string} field - The path of the refused value, eq. `target.width`.
+   * @param {LayoutValidationCode} code - The failed rule.
+   * @param {Record<string, unknown>} [values={}] - The values involved, eq. `{ kerf: -1 }`.
+   */
+  constructor(message: string, field: string, code: LayoutValidationCode, values: Record<string, unknown> = {}) {
+    super(message, code, { field, values });
+    this.name = 'LayoutValidationError';
+  }
+}
+
+/**
+ * **Version 1.0**
+ * @class
+ * The error thrown when the values are valid but the targets don't fit on the source, eq. a target larger than the source with its margin.
+ */
+export class LayoutFitError extends LayoutError {
+  declare public readonly field: string;
+  declare public readonly code: LayoutFitCode;
+
+  /**
+   * @param {string} message - The message of the error.
+   * @param {string} field - The path of the value to change, eq. `target.width` or `margin.height`.
+   * @param {LayoutFitCode} code - Why the targets don't fit.
+   * @param {Record<string, unknown>} [values={}] - The values involved, eq. `{ target, source, margin }`.
+   */
+  constructor(message: string, field: string, code: LayoutFitCode, values: Record<string, unknown> = {}) {
+    super(message, code, { field, values });
+    this.name = 'LayoutFitError';
+  }
+}
+
+/**
+ * **Version 1.0**
+ * @class
+ * The error thrown when the calculation reaches an inconsistent state, eq. a negative remainder, or when the layout can't be cut edge to edge.
+ */
+export class LayoutCalculationError extends LayoutError {
+
+  /**
+   * @param {string} message - The message of the error.
+   * @param {LayoutErrorCode} code - The stable code of the error.
+   * @param {Record<string, unknown>} [values={}] - The values involved, eq. `{ remainX: -0.2 }`.
+   */
+  constructor(message: string, code: LayoutErrorCode, values: Record<string, unknown> = {}) {
+    super(message, code, { values });
+    this.name = 'LayoutCalculationError';
+  }
+}
+
+/**
+ * **Version 1.0**
+ * @class
+ * The error thrown when a drawing or an export fails, the original error is kept as its `cause`.
+ */
+export class LayoutDrawingError extends LayoutError {
+
+  /**
+   * @param {unknown} cause - The original error, eq. a {@link LayoutFitError} thrown by `calculate()`.
+   */
+  constructor(cause: unknown) {
+    super(`Error in drawing process ${cause}`, 'drawing-failed', {
+      field: cause instanceof LayoutError ? cause.field : undefined,
+      cause
+    });
+    this.name = 'LayoutDrawingError';
+  }
+}
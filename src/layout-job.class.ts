@@ -0,0 +1,230 @@
+import { CalculatorLayoutClass } from "./calculator-layout.class";
+import { CalculatorMixedLayoutClass } from "./calculator-mixed-layout.class";
+import { ILayoutJob } from "./calculator-layout.interface";
+import { LayoutError, LayoutValidationError } from "./layout-error.class";
+
+/**
+ * The version of the job format written by {@link LayoutJobClass}, a job of another version is refused.
+ */
+export const LAYOUT_JOB_VERSION = 1;
+
+/**
+ * **Version 1.0**
+ * @class
+ * Saves and loads a job, the input and the drawing configuration of a calculator, as versioned JSON or as a URL parameter.
+ *
+ * **How it works:**
+ * - {@link from} reads the `input` and the `config` of a calculator, {@link calculator} builds the calculator of a job,
+ *   a {@link CalculatorMixedLayoutClass} when the job lists its `targets`.
+ * - {@link parse} checks the shape of a job (its version and the type of every field), then builds its calculator,
+ *   so the values are checked by the same rules as the constructor and the `config` setter.
+ * - {@link encode} writes a job as URL safe base64 of its JSON, to share the exact layout in a link.
+ *
+ * @example
+ * ```ts
+ *
+ *  const json = LayoutJobClass.stringify(LayoutJobClass.from(calculator));
+ *  const restored = LayoutJobClass.calculator(LayoutJobClass.parse(json));
+ *
+ *  // share it in a link
+ *  const url = `${location.origin}${location.pathname}#job=${LayoutJobClass.encode(LayoutJobClass.from(calculator))}`;
+ *
+ * ```
+ */
+export class LayoutJobClass {
+
+  /**
+   * @public
+   *
+   * Reads the job of a calculator.
+   * @param {CalculatorLayoutClass} calculator - The calculator.
+   * @returns {ILayoutJob} The job, its `config` without the functions (eq. a `label` callback).
+   */
+  public static from(calculator: CalculatorLayoutClass): ILayoutJob {
+    /** a JSON round trip drops the functions and copies the nested objects **/
+    return JSON.parse(JSON.stringify({ version: LAYOUT_JOB_VERSION, input: calculator.input, config: calculator.config }));
+  }
+
+  /**
+   * @public
+   *
+   * Writes a job as JSON.
+   * @param {ILayoutJob} job - The job.
+   * @param {number} [space] - The indentation, see `JSON.stringify`.
+   * @returns {string} The JSON of the job.
+   */
+  public static stringify(job: ILayoutJob, space?: number): string {
+    return JSON.stringify(job, null, space);
+  }
+
+  /**
+   * @public
+   *
+   * Reads and validates a job.
+   * @param {string | unknown} json - The JSON of the job, or the parsed object.
+   * @returns {ILayoutJob} The job.
+   * @throws {LayoutError} Throws an `error` if the JSON is invalid, a {@link LayoutValidationError} if the version is not {@link LAYOUT_JOB_VERSION}
+   * or if a field has the wrong type (its `field` is the path in the job, eq. `input.source.width`),
+   * or the error of the calculator if a value is refused (eq. a target larger than the source, an invalid color).
+   */
+  public static parse(json: string | unknown): ILayoutJob {
+    let job: unknown = json;
+    if (typeof json === 'string') {
+      try {
+        job = JSON.parse(json);
+      } catch (error) {
+        throw new LayoutError(`Invalid layout job: ${error}`, 'invalid-value', { field: 'job', cause: error });
+      }
+    }
+
+    LayoutJobClass._validateShape(job);
+    /** the values are checked by the calculator itself **/
+    LayoutJobClass.calculator(job);
+    return job;
+  }
+
+  /**
+   * @public
+   *
+   * Builds the calculator of a job, with its configuration.
+   * @param {ILayoutJob} job - The job.
+   * @returns {CalculatorLayoutClass} The calculator, a {@link CalculatorMixedLayoutClass} when the job lists its `targets`.
+   * @throws {LayoutError} Throws the `error` of the constructor or of the `config` setter when a value is refused.
+   */
+  public static calculator(job: ILayoutJob): CalculatorLayoutClass {
+    const { source, target, margin, strategy, allowance, unit, targets, useInline } = job.input;
+    const calculator = targets
+      ? new CalculatorMixedLayoutClass(source, targets, margin, allowance, unit)
+      : new CalculatorLayoutClass(source, target, margin, strategy ?? useInline, allowance, unit);
+
+    if (job.config) {
+      /** the `config` setter needs a `ratio`, keep the default one when the job has none **/
+      calculator.config = { ratio: calculator.config.ratio, ...job.config };
+    }
+    return calculator;
+  }
+
+  /**
+   * @public
+   *
+   * Writes a job as URL safe base64 (RFC 4648 §5) of its JSON, eq. for a `#job=` URL parameter.
+   * @param {ILayoutJob} job - The job.
+   * @returns {string} The encoded job.
+   */
+  public static encode(job: ILayoutJob): string {
+    const bytes = new TextEncoder().encode(LayoutJobClass.stringify(job));
+    const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  /**
+   * @public
+   *
+   * Reads and validates a job written by {@link encode}.
+   * @param {string} value - The encoded job.
+   * @returns {ILayoutJob} The job.
+   * @throws {LayoutError} Throws an `error` if the value is not an encoded job, or if the job is invalid, see {@link parse}.
+   */
+  public static decode(value: string): ILayoutJob {
+    let json: string;
+    try {
+      const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+      json = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    } catch (error) {
+      throw new LayoutError(`Invalid layout job: ${error}`, 'invalid-value', { field: 'job', cause: error });
+    }
+    return LayoutJobClass.parse(json);
+  }
+
+  /**
+   *
+   *
+   * Checks the version of a job and the type of every field it has.
+   * @param {unknown} job - The parsed job.
+   * @throws {LayoutValidationError} Throws an `error` naming the first field with a wrong type.
+   */
+  private static _validateShape(job: unknown): asserts job is ILayoutJob {
+    const fail = (path: string, expected: string) => {
+      throw new LayoutValidationError(`Invalid layout job: ${path} must be ${expected}`, path, 'invalid-value', { expected });
+    };
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    const size = (value: unknown, path: string, optional = false) => {
+      if (value === undefined && optional) {
+        return;
+      }
+      if (!isObject(value)) {
+        fail(path, 'an object');
+      }
+      const sheet = value as Record<string, unknown>;
+      ['width', 'height'].forEach((key) => {
+        if (typeof sheet[key] !== 'number') {
+          fail(`${path}.${key}`, 'a number');
+        }
+      });
+      if (sheet.grain !== undefined && !['horizontal', 'vertical'].includes(sheet.grain as string)) {
+        fail(`${path}.grain`, '`horizontal` or `vertical`');
+      }
+    };
+
+    if (!isObject(job)) {
+      fail('the job', 'an object');
+    }
+    const { version, input, config } = job as Record<string, unknown>;
+    if (version !== LAYOUT_JOB_VERSION) {
+      throw new LayoutValidationError(`Invalid layout job: version ${version} is not supported, expected ${LAYOUT_JOB_VERSION}`, 'version', 'invalid-value', {
+        version,
+        expected: LAYOUT_JOB_VERSION
+      });
+    }
+    if (!isObject(input)) {
+      fail('input', 'an object');
+    }
+
+    const { source, target, margin, strategy, allowance, unit, targets } = input as Record<string, unknown>;
+    size(source, 'input.source');
+    size(target, 'input.target');
+    size(margin, 'input.margin', true);
+    if (strategy !== undefined && !['inline', 'cross', 'guillotine', 'auto'].includes(strategy as string)) {
+      fail('input.strategy', '`inline`, `cross`, `guillotine` or `auto`');
+    }
+    if (unit !== undefined && typeof unit !== 'string') {
+      fail('input.unit', 'a string');
+    }
+    if (allowance !== undefined) {
+      if (!isObject(allowance)) {
+        fail('input.allowance', 'an object');
+      }
+      const { kerf, bleed, edge } = allowance as Record<string, unknown>;
+      [['kerf', kerf], ['bleed', bleed]].forEach(([key, value]) => {
+        if (value !== undefined && typeof value !== 'number') {
+          fail(`input.allowance.${key}`, 'a number');
+        }
+      });
+      if (edge !== undefined && (!isObject(edge) || Object.values(edge).some((value) => typeof value !== 'number'))) {
+        fail('input.allowance.edge', 'an object of numbers');
+      }
+    }
+    if (targets !== undefined) {
+      if (!Array.isArray(targets)) {
+        fail('input.targets', 'an array');
+      }
+      (targets as unknown[]).forEach((item, i) => {
+        if (!isObject(item)) {
+          fail(`input.targets[${i}]`, 'an object');
+        }
+        const { size: itemSize, quantity, label, color } = item as Record<string, unknown>;
+        size(itemSize, `input.targets[${i}].size`);
+        if (quantity !== undefined && typeof quantity !== 'number') {
+          fail(`input.targets[${i}].quantity`, 'a number');
+        }
+        if ((label !== undefined && typeof label !== 'string') || (color !== undefined && typeof color !== 'string')) {
+          fail(`input.targets[${i}].label and color`, 'strings');
+        }
+      });
+    }
+    if (config !== undefined && !isObject(config)) {
+      fail('config', 'an object');
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * **Version 1.0**
+ * @class
+ * The length tolerance and rounding shared by the calculators, the solvers and the exporters.
+ *
+ * **How it works:**
+ * - {@link EPSILON} absorbs floating point errors such as `0.1 + 0.2` when lengths are compared or divided into counts.
+ * - {@link roundDown} and {@link roundUp} round a solved length to {@link PRECISION}, a suggested size is never off by a float error.
+ *
+ * @example
+ * ```ts
+ *
+ *  LayoutMathClass.count(0.3, 0.1); // 3, where Math.floor(0.3 / 0.1) gives 2
+ *  LayoutMathClass.roundDown(11.43219); // 11.4321
+ *  LayoutMathClass.roundUp(27.00001); // 27.0001
+ *
+ * ```
+ */
+export class LayoutMathClass {
+
+  /**
+   * @public
+   *
+   * Tolerance used when comparing lengths.
+   */
+  public static readonly EPSILON = 1e-9;
+
+  /**
+   * @public
+   *
+   * The solved lengths are rounded to 4 decimals.
+   */
+  public static readonly PRECISION = 1e4;
+
+  /**
+   * @public
+   *
+   * Counts how many times a size fits in a length, a size fitting up to {@link EPSILON} is counted.
+   * @param {number} length - The length to fill.
+   * @param {number} size - The size of one item.
+   * @returns {number} The whole number of items, `0` when not a single one fits.
+   */
+  public static count(length: number, size: number): number {
+    return Math.max(0, Math.floor((length / size) + LayoutMathClass.EPSILON));
+  }
+
+  /**
+   * @public
+   *
+   * Rounds a length down to {@link PRECISION}, a solved length never grows past what was calculated.
+   * @param {number} value - The length.
+   * @returns {number} The rounded length.
+   */
+  public static roundDown(value: number): number {
+    return Math.floor(Number((value * LayoutMathClass.PRECISION).toFixed(6))) / LayoutMathClass.PRECISION;
+  }
+
+  /**
+   * @public
+   *
+   * Rounds a length up to {@link PRECISION}, a solved stock size never shrinks below what was calculated.
+   * @param {number} value - The length.
+   * @returns {number} The rounded length.
+   */
+  public static roundUp(value: number): number {
+    return Math.ceil(Number((value * LayoutMathClass.PRECISION).toFixed(6))) / LayoutMathClass.PRECISION;
+  }
+}
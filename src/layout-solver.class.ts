@@ -0,0 +1,236 @@
+import { CalculatorLayoutClass } from "./calculator-layout.class";
+import { LayoutError, LayoutValidationError } from "./layout-error.class";
+import { LayoutMathClass } from "./layout-math.class";
+import { GrainDirection, ILayoutResult, ILayoutSolverCandidate, ILayoutSolverInput, IPaperPreset, ISheetEdge, ISheetSize } from "./calculator-layout.interface";
+
+/**
+ * The number of halvings {@link LayoutSolverClass.targetSize} runs between the best grid size and the next larger one.
+ */
+const SEARCH_STEPS = 20;
+
+/**
+ * **Version 1.0**
+ * @class
+ * Works backwards from a wanted result: the largest target size giving a number of targets, or the stock sheet giving the best yield.
+ *
+ * **How it works:**
+ * - Every candidate is checked with `calculate()` of a {@link CalculatorLayoutClass}, so it follows the strategy, the margin,
+ *   the allowance and the paper grain of the input. Use the `auto` strategy to search every arrangement.
+ * - {@link targetSize} takes the target height of every grid that holds the count, in both orientations, from the largest,
+ *   then searches the sizes between the best grid and the next larger one, where a mixed arrangement may still hold the count.
+ * - {@link sourceSheet} calculates the target on every sheet of a list, eq. the stock of a {@link PaperPresetClass}.
+ * - The candidates are ranked from the best, with their `total` and `utilisation`.
+ *
+ * @example
+ * ```ts
+ *
+ *  const solver = new LayoutSolverClass({ margin: { width: 1, height: 1 }, strategy: 'auto' });
+ *
+ *  // the largest 2:3 card giving 24 pieces on a 65 x 100 sheet
+ *  const [card] = solver.targetSize({ width: 65, height: 100 }, 24, 2 / 3);
+ *  console.log(card.target, card.total, card.utilisation);
+ *
+ *  // the sheet of the stock list giving the best yield for a 9 x 5 card
+ *  const [sheet] = solver.sourceSheet({ width: 9, height: 5 }, new PaperPresetClass().list('press'));
+ *  console.log(sheet.name, sheet.total, sheet.utilisation);
+ *
+ * ```
+ * @see
+ * - Candidate {@link ILayoutSolverCandidate interface}.
+ */
+export class LayoutSolverClass {
+
+  /**
+   * @param {ILayoutSolverInput} [_input={}] - The margin, strategy, allowance and unit of every candidate, see {@link CalculatorLayoutClass}.
+   */
+  constructor(
+    private _input: ILayoutSolverInput = {}
+  ) {
+  }
+
+  /**
+   * @public
+   *
+   * Finds the largest targets of an aspect ratio that give at least a number of targets on a source.
+   * @param {ISheetSize} source - The source sheet.
+   * @param {number} count - The number of targets the source must give.
+   * @param {number} ratio - The aspect ratio of the target, its width divided by its height, eq. `2 / 3`.
+   * @param {GrainDirection} [grain] - The grain direction of the target.
+   * @param {number} [limit=5] - The number of candidates to return.
+   * @returns {ILayoutSolverCandidate[]} The candidates, from the largest target, empty when not even one target fits.
+   * @throws {LayoutValidationError} Throws an `error` if the count or the limit is not a positive whole number, or if the ratio is not positive.
+   */
+  public targetSize(source: ISheetSize, count: number, ratio: number, grain?: GrainDirection, limit: number = 5): ILayoutSolverCandidate[] {
+    this._validateCount(count, 'count');
+    this._validateCount(limit, 'limit');
+    if (!(ratio > 0) || !isFinite(ratio)) {
+      throw new LayoutValidationError("Ratio must be a positive number.", 'ratio', 'not-positive', { ratio });
+    }
+
+    const { margin = { width: 0, height: 0 }, allowance = {} } = this._input;
+    const kerf = allowance.kerf ?? 0;
+    const bleed = allowance.bleed ?? 0;
+    const edge: Required<ISheetEdge> = { top: 0, right: 0, bottom: 0, left: 0, ...allowance.edge };
+    /** the usable area grown by one kerf, `n` targets take `n - 1` kerfs **/
+    const width = source.width - edge.left - edge.right + kerf;
+    const height = source.height - edge.top - edge.bottom + kerf;
+    const spaceX = (2 * (margin.width + bleed)) + kerf;
+    const spaceY = (2 * (margin.height + bleed)) + kerf;
+
+    /** the target height of a grid of columns by rows, the target in its orientation and rotated **/
+    const grid = (columns: number, rows: number) => [
+      Math.min(((width / columns) - spaceX) / ratio, (height / rows) - spaceY),
+      Math.min((width / columns) - spaceY, ((height / rows) - spaceX) / ratio)
+    ];
+    const heights = new Set<number>();
+    for (let columns = 1; columns <= count; columns++) {
+      grid(columns, Math.ceil(count / columns)).forEach((value) => value > 0 && heights.add(LayoutMathClass.roundDown(value)));
+    }
+    const largest = LayoutMathClass.roundDown(Math.max(...grid(1, 1)));
+
+    const candidates: ILayoutSolverCandidate[] = [];
+    let larger = largest;
+    for (const value of [...heights].sort((a, b) => b - a)) {
+      const candidate = this._targetCandidate(source, value, ratio, grain);
+      if (!candidate || candidate.total < count) {
+        larger = value;
+        continue;
+      }
+
+      /** a mixed arrangement may hold the count with a target between this grid and the next larger one **/
+      if (candidates.length === 0 && larger > value) {
+        let low = value;
+        let high = larger;
+        let best: ILayoutSolverCandidate | null = null;
+        for (let step = 0; step < SEARCH_STEPS && high - low > 1 / LayoutMathClass.PRECISION; step++) {
+          const middle = LayoutMathClass.roundDown((low + high) / 2);
+          const found = this._targetCandidate(source, middle, ratio, grain);
+          if (found && found.total >= count) {
+            low = middle;
+            best = found;
+          } else {
+            high = middle;
+          }
+        }
+        if (best) {
+          candidates.push(best);
+        }
+      }
+      candidates.push(candidate);
+      if (candidates.length >= limit) {
+        break;
+      }
+    }
+
+    return candidates
+      .sort((a, b) => (b.target.width * b.target.height) - (a.target.width * a.target.height) || b.utilisation - a.utilisation)
+      .slice(0, limit);
+  }
+
+  /**
+   * @public
+   *
+   * Ranks the sheets of a list by the yield of a target, the highest utilisation first.
+   * @param {ISheetSize} target - The target size.
+   * @param {(ISheetSize | IPaperPreset)[]} sheets - The sheets, a preset is converted from its unit to the input unit.
+   * @returns {ILayoutSolverCandidate[]} The sheets holding at least one target, from the highest utilisation, then the highest total.
+   * @throws {LayoutValidationError} Throws an `error` on `sheets` if the list is empty.
+   */
+  public sourceSheet(target: ISheetSize, sheets: (ISheetSize | IPaperPreset)[]): ILayoutSolverCandidate[] {
+    if (!Array.isArray(sheets) || sheets.length === 0) {
+      throw new LayoutValidationError("Please provide at least one sheet.", 'sheets', 'required');
+    }
+
+    const unit = this._input.unit ?? 'cm';
+    const candidates: ILayoutSolverCandidate[] = [];
+    sheets.forEach((sheet) => {
+      const preset = 'name' in sheet ? sheet : undefined;
+      const convert = (value: number) => preset ? Number(CalculatorLayoutClass.convert(value, preset.unit, unit).toFixed(4)) : value;
+      const source: ISheetSize = preset
+        ? { width: convert(preset.width), height: convert(preset.height) }
+        : sheet as ISheetSize;
+
+      const layout = this._calculate(source, target);
+      if (layout && layout.total > 0) {
+        candidates.push(this._candidate(source, target, layout, preset?.name));
+      }
+    });
+
+    return candidates.sort((a, b) => b.utilisation - a.utilisation || b.total - a.total);
+  }
+
+  /**
+   *
+   *
+   * Calculates the target of a height and an aspect ratio on the source.
+   * @param {ISheetSize} source - The source sheet.
+   * @param {number} height - The height of the target.
+   * @param {number} ratio - The aspect ratio of the target.
+   * @param {GrainDirection} [grain] - The grain direction of the target.
+   * @returns {ILayoutSolverCandidate | null} The candidate, `null` when not a single target fits.
+   */
+  private _targetCandidate(source: ISheetSize, height: number, ratio: number, grain?: GrainDirection): ILayoutSolverCandidate | null {
+    const target: ISheetSize = { width: LayoutMathClass.roundDown(height * ratio), height };
+    if (grain) {
+      target.grain = grain;
+    }
+    const layout = this._calculate(source, target);
+    return layout && layout.total > 0 ? this._candidate(source, target, layout) : null;
+  }
+
+  /**
+   *
+   *
+   * Calculates a source and target pair, without throwing a {@link LayoutError}.
+   * @param {ISheetSize} source - The source sheet.
+   * @param {ISheetSize} target - The target size.
+   * @returns {(ILayoutResult & { total: number }) | null} The layout, `null` when the calculator throws a {@link LayoutError}.
+   */
+  private _calculate(source: ISheetSize, target: ISheetSize): (ILayoutResult & { total: number; }) | null {
+    const { margin, strategy, useInline, allowance, unit } = this._input;
+    try {
+      return new CalculatorLayoutClass(source, target, margin, strategy ?? useInline, allowance, unit).calculate();
+    } catch (error) {
+      /** a pair that doesn't fit is not a candidate, any other error is a bug to report **/
+      if (!(error instanceof LayoutError)) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   *
+   *
+   * Builds the candidate of a calculated layout.
+   * @param {ISheetSize} source - The source sheet.
+   * @param {ISheetSize} target - The target size.
+   * @param {ILayoutResult & { total: number }} layout - The calculated layout.
+   * @param {string} [name] - The name of the source sheet.
+   * @returns {ILayoutSolverCandidate} The candidate.
+   */
+  private _candidate(source: ISheetSize, target: ISheetSize, layout: ILayoutResult & { total: number; }, name?: string): ILayoutSolverCandidate {
+    const candidate: ILayoutSolverCandidate = {
+      source,
+      target,
+      total: layout.total,
+      utilisation: layout.statistics?.utilisation ?? 0,
+      strategy: layout.strategy
+    };
+    return name === undefined ? candidate : { name, ...candidate };
+  }
+
+  /**
+   *
+   *
+   * Validates a count.
+   * @param {number} count - The count to validate.
+   * @param {string} field - The name of the count, used as the `field` of the error.
+   * @throws {LayoutValidationError} Throws an error if the count is not a positive whole number.
+   */
+  private _validateCount(count: number, field: string): void {
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new LayoutValidationError(`${field[0].toUpperCase()}${field.slice(1)} must be a positive whole number.`, field, 'invalid-value', { [field]: count });
+    }
+  }
+}
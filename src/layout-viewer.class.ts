@@ -0,0 +1,370 @@
+/**
+ * The drawings shown by the viewer, the SVG element and the canvas element outputs of the calculator.
+ */
+export type LayoutViewerDrawing = SVGSVGElement | HTMLCanvasElement;
+
+/**
+ * The smallest and the largest zoom, relative to the drawing size in pixels.
+ */
+const ZOOM_LIMITS = { min: 0.02, max: 10 };
+
+/**
+ * The distance a pointer must move before a press becomes a drag, so a click on a piece still selects it.
+ */
+const DRAG_THRESHOLD = 4;
+
+/**
+ * **Version 1.0**
+ * @class
+ * A viewer around a drawing of {@link CalculatorLayoutClass.drawSvg drawSvg} or {@link CalculatorLayoutClass.drawCanvas drawCanvas},
+ * to look at big sheets without scrolling the page.
+ *
+ * **How it works:**
+ * - The drawing is laid at its size in pixels (its `viewBox` or canvas size) and scaled with a CSS transform, it is never drawn again.
+ * - Mouse wheel and pinch zoom around the pointer, a drag pans, `fitWidth()` and `fitSheet()` fit the drawing to the viewport.
+ * - The minimap shows the whole drawing and the visible part of it, a click or drag on the minimap moves the view there.
+ * - A press is only a drag once the pointer moved, clicks on the drawing (eq. on its pieces) go through.
+ *
+ * @example
+ * ```ts
+ *
+ *  const viewer = new LayoutViewerClass(document.getElementById('drawing') as HTMLElement);
+ *  viewer.show(calculator.drawSvg(false) as SVGSVGElement);
+ *  viewer.fitWidth();
+ *
+ * ```
+ */
+export class LayoutViewerClass {
+  /** The clipped area the stage moves in **/
+  private _viewport: HTMLDivElement;
+  /** The transformed element holding the drawing **/
+  private _stage: HTMLDivElement;
+  private _minimap: HTMLDivElement;
+  private _minimapView: HTMLDivElement;
+  private _drawing: LayoutViewerDrawing | null = null;
+  private _size = { width: 0, height: 0 };
+  private _view = { x: 0, y: 0, scale: 1 };
+  /** The pointers down on the viewport, two of them pinch **/
+  private _pointers = new Map<number, { x: number; y: number; }>();
+  private _dragged = false;
+
+  /**
+   * @param {HTMLElement} _container - The element the viewer is built in, its content is replaced.
+   */
+  constructor(private _container: HTMLElement) {
+    this._viewport = document.createElement('div');
+    this._viewport.className = 'layout-viewer';
+    Object.assign(this._viewport.style, { position: 'relative', overflow: 'hidden', touchAction: 'none', width: '100%', height: '100%' });
+
+    this._stage = document.createElement('div');
+    this._stage.className = 'layout-viewer-stage';
+    Object.assign(this._stage.style, { position: 'absolute', left: '0', top: '0', transformOrigin: '0 0' });
+
+    this._minimap = document.createElement('div');
+    this._minimap.className = 'layout-viewer-minimap';
+    Object.assign(this._minimap.style, { position: 'absolute', right: '8px', bottom: '8px', overflow: 'hidden', display: 'none' });
+
+    this._minimapView = document.createElement('div');
+    this._minimapView.className = 'layout-viewer-minimap-view';
+    Object.assign(this._minimapView.style, { position: 'absolute', pointerEvents: 'none' });
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'layout-viewer-toolbar';
+    Object.assign(toolbar.style, { position: 'absolute', left: '8px', top: '8px' });
+    ([['−', 'zoom out', () => this.zoom(1 / 1.25)], ['+', 'zoom in', () => this.zoom(1.25)],
+      ['fit width', 'fit to width', () => this.fitWidth()], ['fit sheet', 'fit to sheet', () => this.fitSheet()]] as [string, string, () => void][])
+      .forEach(([text, title, action]) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = text;
+        button.title = title;
+        button.addEventListener('click', action);
+        toolbar.appendChild(button);
+      });
+
+    this._viewport.append(this._stage, this._minimap, toolbar);
+    this._container.replaceChildren(this._viewport);
+    this._listen();
+  }
+
+  /**
+   * @public
+   *
+   * The drawing shown, `null` before the first {@link show}.
+   * @type {LayoutViewerDrawing | null}
+   */
+  get drawing(): LayoutViewerDrawing | null {
+    return this._drawing;
+  }
+
+  /**
+   * @public
+   *
+   * The current zoom, `1` shows the drawing at its size in pixels.
+   * @type {number}
+   */
+  get scale(): number {
+    return this._view.scale;
+  }
+
+  /**
+   * @public
+   *
+   * Shows a drawing in place of the current one, fitted to the viewport.
+   * @param {LayoutViewerDrawing} drawing - The SVG element or the canvas element to show.
+   */
+  public show(drawing: LayoutViewerDrawing): void {
+    this._drawing = drawing;
+    this._size = this._drawingSize(drawing);
+
+    /** lay the drawing at its size in pixels, the stage transform zooms it **/
+    drawing.style.width = `${this._size.width}px`;
+    drawing.style.height = `${this._size.height}px`;
+    drawing.style.display = 'block';
+    this._stage.replaceChildren(drawing);
+
+    this._minimap.replaceChildren(this._thumbnail(drawing), this._minimapView);
+    this._minimap.style.display = 'block';
+    this.fitSheet();
+  }
+
+  /**
+   * @public
+   *
+   * Removes the drawing.
+   */
+  public clear(): void {
+    this._drawing = null;
+    this._stage.replaceChildren();
+    this._minimap.replaceChildren();
+    this._minimap.style.display = 'none';
+  }
+
+  /**
+   * @public
+   *
+   * Zooms by a factor around a point of the viewport, the point stays in place.
+   * @param {number} factor - The zoom factor, `> 1` zooms in.
+   * @param {number} [x] - The x-coordinate of the point, from the left of the viewport. Defaults to its center.
+   * @param {number} [y] - The y-coordinate of the point, from the top of the viewport. Defaults to its center.
+   */
+  public zoom(factor: number, x: number = this._viewport.clientWidth / 2, y: number = this._viewport.clientHeight / 2): void {
+    const scale = Math.min(ZOOM_LIMITS.max, Math.max(ZOOM_LIMITS.min, this._view.scale * factor));
+    const applied = scale / this._view.scale;
+    this._view = { x: x - ((x - this._view.x) * applied), y: y - ((y - this._view.y) * applied), scale };
+    this._update();
+  }
+
+  /**
+   * @public
+   *
+   * Fits the width of the drawing to the viewport, from the top of the drawing.
+   */
+  public fitWidth(): void {
+    if (!this._drawing) {
+      return;
+    }
+    const scale = this._viewport.clientWidth / this._size.width;
+    this._view = { x: 0, y: 0, scale };
+    this._update();
+  }
+
+  /**
+   * @public
+   *
+   * Fits the whole drawing to the viewport, centered.
+   */
+  public fitSheet(): void {
+    if (!this._drawing) {
+      return;
+    }
+    const width = this._viewport.clientWidth;
+    const height = this._viewport.clientHeight;
+    const scale = Math.min(width / this._size.width, height / this._size.height);
+    this._view = { x: (width - (this._size.width * scale)) / 2, y: (height - (this._size.height * scale)) / 2, scale };
+    this._update();
+  }
+
+  /**
+   *
+   *
+   * Reads the size in pixels of a drawing, the `viewBox` of an SVG element or the size of a canvas.
+   * @param {LayoutViewerDrawing} drawing - The drawing.
+   * @returns {{ width: number; height: number }} The size of the drawing in pixels.
+   */
+  private _drawingSize(drawing: LayoutViewerDrawing): { width: number; height: number; } {
+    if (drawing instanceof HTMLCanvasElement) {
+      return { width: drawing.width, height: drawing.height };
+    }
+    const viewBox = (drawing.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+    return { width: viewBox[2] || drawing.clientWidth, height: viewBox[3] || drawing.clientHeight };
+  }
+
+  /**
+   *
+   *
+   * Copies a drawing for the minimap, a clone of an SVG element or a canvas the canvas is drawn on.
+   * @param {LayoutViewerDrawing} drawing - The drawing.
+   * @returns {Element} The thumbnail, sized to the minimap.
+   */
+  private _thumbnail(drawing: LayoutViewerDrawing): Element {
+    const width = this._minimapWidth();
+    const height = width * (this._size.height / this._size.width);
+    this._minimap.style.width = `${width}px`;
+    this._minimap.style.height = `${height}px`;
+
+    let thumbnail: SVGSVGElement | HTMLCanvasElement;
+    if (drawing instanceof HTMLCanvasElement) {
+      thumbnail = document.createElement('canvas');
+      thumbnail.width = width;
+      thumbnail.height = height;
+      thumbnail.getContext('2d')?.drawImage(drawing, 0, 0, width, height);
+    } else {
+      thumbnail = drawing.cloneNode(true) as SVGSVGElement;
+      /** the clone must not be found in place of the drawing **/
+      thumbnail.removeAttribute('id');
+      thumbnail.querySelectorAll('[id^="cutting-block-"]').forEach((node) => node.removeAttribute('id'));
+    }
+    thumbnail.style.width = `${width}px`;
+    thumbnail.style.height = `${height}px`;
+    thumbnail.style.display = 'block';
+    thumbnail.style.pointerEvents = 'none';
+    return thumbnail;
+  }
+
+  /**
+   *
+   *
+   * Sizes the minimap, a fifth of the viewport width, between `80px` and `160px`.
+   * @returns {number} The width of the minimap in pixels.
+   */
+  private _minimapWidth(): number {
+    return Math.min(160, Math.max(80, this._viewport.clientWidth / 5));
+  }
+
+  /**
+   *
+   *
+   * Applies the view to the stage and moves the visible area on the minimap.
+   */
+  private _update(): void {
+    const { x, y, scale } = this._view;
+    this._stage.style.transform = `translate(${x}px, ${y}px) scale(${scale})`;
+
+    if (this._drawing) {
+      /** the visible area, in minimap pixels, clipped to the drawing **/
+      const ratio = this._minimapWidth() / this._size.width;
+      const left = Math.max(0, -x / scale);
+      const top = Math.max(0, -y / scale);
+      const right = Math.min(this._size.width, (this._viewport.clientWidth - x) / scale);
+      const bottom = Math.min(this._size.height, (this._viewport.clientHeight - y) / scale);
+      Object.assign(this._minimapView.style, {
+        left: `${left * ratio}px`,
+        top: `${top * ratio}px`,
+        width: `${Math.max(0, right - left) * ratio}px`,
+        height: `${Math.max(0, bottom - top) * ratio}px`
+      });
+    }
+  }
+
+  /**
+   *
+   *
+   * Centers the view on a point of the minimap.
+   * @param {PointerEvent} event - The pointer event on the minimap.
+   */
+  private _moveTo(event: PointerEvent): void {
+    const bounds = this._minimap.getBoundingClientRect();
+    const ratio = this._minimapWidth() / this._size.width;
+    const x = (event.clientX - bounds.left) / ratio;
+    const y = (event.clientY - bounds.top) / ratio;
+    this._view.x = (this._viewport.clientWidth / 2) - (x * this._view.scale);
+    this._view.y = (this._viewport.clientHeight / 2) - (y * this._view.scale);
+    this._update();
+  }
+
+  /**
+   *
+   *
+   * Listens to the wheel, the pointers on the viewport and on the minimap.
+   * @remarks
+   * - The wheel zooms around the pointer.
+   * - One pointer pans once it moved {@link DRAG_THRESHOLD} pixels, the click after a drag is stopped.
+   * - Two pointers pinch, the zoom follows their distance around their middle.
+   */
+  private _listen(): void {
+    const local = (event: { clientX: number; clientY: number; }) => {
+      const bounds = this._viewport.getBoundingClientRect();
+      return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+    };
+
+    this._viewport.addEventListener('wheel', (event) => {
+      event.preventDefault();
+      const point = local(event);
+      this.zoom(Math.exp(-event.deltaY * 0.002), point.x, point.y);
+    }, { passive: false });
+
+    this._viewport.addEventListener('pointerdown', (event) => {
+      if (this._minimap.contains(event.target as Node) || (event.target as Element).closest('button')) {
+        return;
+      }
+      this._pointers.set(event.pointerId, local(event));
+      this._dragged = false;
+    });
+
+    this._viewport.addEventListener('pointermove', (event) => {
+      const last = this._pointers.get(event.pointerId);
+      if (!last) {
+        return;
+      }
+      const point = local(event);
+
+      if (this._pointers.size === 2) {
+        /** pinch, the other pointer stays where it was **/
+        const other = [...this._pointers.entries()].find(([id]) => id !== event.pointerId)?.[1] as { x: number; y: number; };
+        const before = Math.hypot(last.x - other.x, last.y - other.y);
+        const after = Math.hypot(point.x - other.x, point.y - other.y);
+        if (before > 0) {
+          this.zoom(after / before, (point.x + other.x) / 2, (point.y + other.y) / 2);
+        }
+        this._dragged = true;
+      } else if (this._dragged || Math.hypot(point.x - last.x, point.y - last.y) >= DRAG_THRESHOLD) {
+        /** capture once it is a drag, a click keeps its target **/
+        if (!this._dragged) {
+          this._viewport.setPointerCapture(event.pointerId);
+          this._dragged = true;
+        }
+        this._view.x += point.x - last.x;
+        this._view.y += point.y - last.y;
+        this._update();
+      } else {
+        return;
+      }
+      this._pointers.set(event.pointerId, point);
+    });
+
+    const release = (event: PointerEvent) => {
+      this._pointers.delete(event.pointerId);
+    };
+    this._viewport.addEventListener('pointerup', release);
+    this._viewport.addEventListener('pointercancel', release);
+
+    /** a drag is not a click on the drawing **/
+    this._viewport.addEventListener('click', (event) => {
+      if (this._dragged) {
+        event.stopPropagation();
+        this._dragged = false;
+      }
+    }, true);
+
+    this._minimap.addEventListener('pointerdown', (event) => {
+      this._minimap.setPointerCapture(event.pointerId);
+      this._moveTo(event);
+    });
+    this._minimap.addEventListener('pointermove', (event) => {
+      if (this._minimap.hasPointerCapture(event.pointerId)) {
+        this._moveTo(event);
+      }
+    });
+  }
+}
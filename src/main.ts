@@ -27,9 +27,69 @@
   * @author YMGH
   */
 
-import { ILayoutInput, ILayoutConfig } from './calculator-layout.interface.ts';
+import { ILayoutInput, ILayoutConfig, ILayoutJobItem, ILayoutItemResult, LayoutStrategy, GrainDirection, LayoutUnit, LayoutNumbering, ILayoutPiece, IRectMatrixResult, ILayoutResult, PaperPresetCategory, ILayoutJob, ILayoutPlan } from './calculator-layout.interface.ts';
 import './style.css';
 import { CalculatorLayoutClass } from './calculator-layout.class.ts';
+import { CalculatorMixedLayoutClass } from './calculator-mixed-layout.class.ts';
+import { CalculatorPlanClass } from './calculator-plan.class.ts';
+import { LayoutViewerClass } from './layout-viewer.class.ts';
+import { PaperPresetClass } from './paper-preset.class.ts';
+import { LayoutJobClass } from './layout-job.class.ts';
+import { LayoutDrawingError, LayoutError, LayoutFitError } from './layout-error.class.ts';
+import { LayoutAnalysisClass } from './layout-analysis.class.ts';
+
+/**
+ * The mark set on a piece of the drawing before printing the job sheet, `undefined` when the piece is usable.
+ */
+type PieceState = 'defective' | 'reserved' | undefined;
+
+/**
+ * The detail of the `piece-select` and `piece-mark` events, emitted by the drawing when a piece is clicked or marked.
+ * @property {ILayoutPiece} piece - The piece, its number and label values.
+ * @property {IRectMatrixResult} rect - The rectangle of the piece in the layout.
+ * @property {PieceState} state - The mark of the piece.
+ */
+interface IPieceEventDetail {
+  piece: ILayoutPiece;
+  rect: IRectMatrixResult;
+  state: PieceState;
+}
+
+declare global {
+  interface HTMLElementEventMap {
+    'piece-select': CustomEvent<IPieceEventDetail>;
+    'piece-mark': CustomEvent<IPieceEventDetail>;
+  }
+}
+
+/**
+ * How long the form waits after the last change before it recalculates, in milliseconds.
+ */
+const RECALCULATE_DELAY = 300;
+
+/**
+ * The form field of each input path named by a `LayoutError`, the items of a mixed-size job are mapped by `errorFieldName()`.
+ */
+const ERROR_FIELDS: Record<string, string> = {
+  'source.width': 'source-width',
+  'source.height': 'source-height',
+  'source.grain': 'source-grain',
+  'target.width': 'target-width',
+  'target.height': 'target-height',
+  'target.grain': 'target-grain',
+  'margin.width': 'margin-width',
+  'margin.height': 'margin-height',
+  'unit': 'input-unit',
+  'config.unit': 'output-unit',
+  'allowance.kerf': 'kerf',
+  'allowance.bleed': 'bleed',
+  'allowance.edge.top': 'edge-top',
+  'allowance.edge.right': 'edge-right',
+  'allowance.edge.bottom': 'edge-bottom',
+  'allowance.edge.left': 'edge-left',
+  'quantity': 'quantity',
+  'spoilage': 'spoilage'
+};
 
 /* Element Variable Declaration */
 const calculateButton = document.getElementById('calculate-button') as HTMLButtonElement;
@@ -41,9 +101,43 @@ const remainInnerColor = document.getElementById('remain-inner-colorpicker') as
 const mainOuterColor = document.getElementById('main-outer-colorpicker') as HTMLInputElement;
 const remainOuterColor = document.getElementById('remain-outer-colorpicker') as HTMLInputElement;
 const functionSelect = document.getElementById('select-function') as HTMLSelectElement;
+const offcutsCheckbox = document.getElementById('offcuts-checkbox') as HTMLInputElement;
+const cutLinesCheckbox = document.getElementById('cut-lines-checkbox') as HTMLInputElement;
+const marksCheckbox = document.getElementById('marks-checkbox') as HTMLInputElement;
+const dimensionsCheckbox = document.getElementById('dimensions-checkbox') as HTMLInputElement;
+const numberingSelect = document.getElementById('numbering') as HTMLSelectElement;
+const sizeLabelsCheckbox = document.getElementById('size-labels-checkbox') as HTMLInputElement;
+const inputUnitSelect = document.getElementById('input-unit') as HTMLSelectElement;
+const outputUnitSelect = document.getElementById('output-unit') as HTMLSelectElement;
 const drawingContainer = document.getElementById('drawing') as HTMLElement;
 const imageContainer = document.getElementById('image-container') as HTMLImageElement;
 const downloadLink = document.getElementById('download-link') as HTMLAnchorElement;
+const pieceTooltip = document.getElementById('piece-tooltip') as HTMLElement;
+const comparisonContainer = document.getElementById('comparison') as HTMLElement;
+const sourcePresetSelect = document.getElementById('source-preset') as HTMLSelectElement;
+const targetPresetSelect = document.getElementById('target-preset') as HTMLSelectElement;
+const saveStockButton = document.getElementById('save-stock-button') as HTMLButtonElement;
+const removeStockButton = document.getElementById('remove-stock-button') as HTMLButtonElement;
+const exportJobButton = document.getElementById('export-job-button') as HTMLButtonElement;
+const importJobInput = document.getElementById('import-job-input') as HTMLInputElement;
+const formError = document.getElementById('form-error') as HTMLElement;
+const suggestionList = document.getElementById('suggestions') as HTMLUListElement;
+
+/** The paper size library, the saved stock is kept in the `localStorage` **/
+const paperPresets = new PaperPresetClass();
+const markButtons = document.querySelectorAll<HTMLButtonElement>('#piece-actions button');
+
+/** The pieces of the drawn SVG element and the selected one **/
+let drawnPieces: ILayoutPiece[] = [];
+let selectedBlock: SVGGElement | null = null;
+/** The drawn layout, its marked pieces and the selected one by their rectangle, kept as long as the same layout is redrawn **/
+let drawnLayout: ILayoutResult | null = null;
+const pieceMarks = new Map<IRectMatrixResult, PieceState>();
+let selectedRect: IRectMatrixResult | null = null;
+/** The calculator of the drawn layout **/
+let currentCalculator: CalculatorLayoutClass | null = null;
+/** The layout, arrangements and print run plans of the last sizes, reused while only the drawing options change **/
+let solvedJob: { key: string; calculation: ILayoutResult & { total: number; }; alternatives: ILayoutResult[]; plans: Map<string, ILayoutPlan>; } | null = null;
 
 /**
  * Initializes the form values with default sizes.
@@ -83,71 +177,95 @@ function setConfig() {
     // textColor: 'rgb(85, 85, 85)',
     // strokeColor: 'rgb(85, 85, 85)',
     lineWidth: 0.18,// lineWidth: 0.18, //default
-    ratio: 20, // ** use `ratio = 28.346` to convert `1px to approximately 1cm` (in real size) **
+    ratio: 20 * CalculatorLayoutClass.convert(1, inputUnitSelect.value as LayoutUnit, 'cm'), // ** 20px per cm in any input unit, use `ratio = 28.346` per cm for the real size **
     paperColor: hexToRgb(paperColor.value) as string,
     mainOuterColor: hexToRgb(mainOuterColor.value) as string,
     remainInnerColor: hexToRgb(remainInnerColor.value) as string,
     mainInnerColor: hexToRgb(mainInnerColor.value) as string,
-    remainOuterColor: hexToRgb(remainOuterColor.value) as string
+    remainOuterColor: hexToRgb(remainOuterColor.value) as string,
+    offcuts: offcutsCheckbox.checked,
+    cutLines: cutLinesCheckbox.checked,
+    cropMarks: marksCheckbox.checked,
+    registrationMarks: marksCheckbox.checked,
+    slug: marksCheckbox.checked,
+    colorBar: marksCheckbox.checked,
+    dimensions: dimensionsCheckbox.checked,
+    numbering: numberingSelect.value as LayoutNumbering,
+    labelSize: sizeLabelsCheckbox.checked,
+    unit: (outputUnitSelect.value || undefined) as LayoutUnit | undefined
   };
   // console.log('CONFIG: ', config);
   return config;
 }
 function initFormValues() {
-  /* This will print (See in the console)
-   * Input Data (cm):    |   Total Plotting (unit): 
-   * Source : 79 x 109   |   Main   : 6
-   * Target : 22 x 32    |   Remain : 2
-   * Margin : 2 x 3      |   Total  : 8  
-   */
-  const size1 = {
-    source: { width: 79, height: 109 },
-    target: { width: 22, height: 32 },
-    margin: { width: 2, height: 3 }
-  };
-
-  /* This will print (See in the console)
-   * Input Data (cm):    |   Total Plotting (unit): 
-   * Source : 65 x 100   |   Main   : 7
-   * Target : 43 x 12    |   Remain : 2
-   * Margin : 1 x 1      |   Total  : 9 
-   */
-  const size2 = {
-    source: { width: 65, height: 100 },
-    target: { width: 43, height: 12 },
-    margin: { width: 1, height: 1 }
-  };
-
-  /* This will print (See in the console)
-   * Input Data (cm):    |   Total Plotting (unit): 
-   * Source : 65 x 100   |   Main   : 14
-   * Target : 23 x 12    |   Remain : 4
-   * Margin : 1 x 1      |   Total  : 18
-   */
+  /* A press sheet and a finished size of the preset library, picked at random */
+  const jobs: { source: string; target: string; margin: number; }[] = [
+    { source: 'Press 79 x 109', target: 'A4 flyer', margin: 0.5 },
+    { source: 'Press 65 x 100', target: 'A5 flyer', margin: 0.5 },
+    { source: 'Press 70 x 100', target: 'DL flyer', margin: 0.3 },
+    { source: 'Board 122 x 244', target: 'A4', margin: 1 },
+    { source: 'A4', target: 'Business card (EU)', margin: 0.2 }
+  ];
+  const job = jobs[Math.floor(Math.random() * jobs.length)];
+  const unit = inputUnitSelect.value as LayoutUnit;
 
-  const size3 = {
-    source: { width: 65, height: 100 },
-    target: { width: 23, height: 12 },
-    margin: { width: 1, height: 1 }
-  };
+  sourcePresetSelect.value = job.source;
+  targetPresetSelect.value = job.target;
+  setDefaultFormValue({
+    source: paperPresets.size(job.source, unit),
+    target: paperPresets.size(job.target, unit),
+    margin: { width: job.margin, height: job.margin }
+  });
+}
 
-  const size4 = {
-    source: { width: 122, height: 244 },
-    target: { width: 43, height: 12 },
-    margin: { width: 1, height: 1 }
+/**
+ *  Fills the source and target preset pickers with the preset library, one group per family and the saved stock last.
+ * The selected presets are kept when they still exist.
+ */
+function fillPresetPickers() {
+  const categories: Record<PaperPresetCategory, string> = {
+    'press': 'Press sheets', 'iso-a': 'ISO A', 'iso-b': 'ISO B', 'iso-c': 'ISO C', 'us': 'US sizes', 'finished': 'Finished sizes', 'custom': 'Saved stock'
   };
 
-  const size5 = {
-    source: { width: 21, height: 29.7 },
-    target: { width: 8, height: 12 },
-    margin: { width: 0.5, height: 1 }
-  };
+  [sourcePresetSelect, targetPresetSelect].forEach((select) => {
+    const selected = select.value;
+    const custom = document.createElement('option');
+    custom.value = '';
+    custom.textContent = 'Custom size';
+    select.replaceChildren(custom);
 
-  const values = [size1, size2, size3, size4, size5];
-  // randomize between these 3 default sizes
-  const i = Math.floor(Math.random() * values.length);
+    (Object.keys(categories) as PaperPresetCategory[]).forEach((category) => {
+      const presets = paperPresets.list(category);
+      if (presets.length === 0) {
+        return;
+      }
+      const group = document.createElement('optgroup');
+      group.label = categories[category];
+      presets.forEach((preset) => {
+        const option = document.createElement('option');
+        option.value = preset.name;
+        option.textContent = `${preset.name} (${preset.width} x ${preset.height} ${preset.unit})`;
+        group.appendChild(option);
+      });
+      select.appendChild(group);
+    });
+    select.value = paperPresets.find(selected) ? selected : '';
+  });
+}
 
-  setDefaultFormValue(values[i]);
+/**
+ *  Writes the size of the selected preset into the width and height inputs, in the input unit.
+ * 
+ * @param {HTMLSelectElement} select - The preset picker.
+ * @param {'source' | 'target'} prefix - The inputs to fill, `source-width` / `source-height` or `target-width` / `target-height`.
+ */
+function applyPreset(select: HTMLSelectElement, prefix: 'source' | 'target') {
+  if (!select.value) {
+    return;
+  }
+  const size = paperPresets.size(select.value, inputUnitSelect.value as LayoutUnit);
+  (calculationForm.querySelector(`#${prefix}-width`) as HTMLInputElement).value = size.width.toString();
+  (calculationForm.querySelector(`#${prefix}-height`) as HTMLInputElement).value = size.height.toString();
 }
 
 /**
@@ -162,11 +280,14 @@ function initializeApp() {
   // hide the download link from DOM, since we need it later
   downloadLink.style.display = 'none';
 
+  // fill the preset pickers before the default values are picked from them
+  fillPresetPickers();
+
   // set default form value, realy helping on development process, uncomment if you want. 
   initFormValues();
 
   // declare selected format result, it will be used on `calculate()`
-  let selectedFormat: 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' = 'base64-svg';
+  let selectedFormat: 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf' = 'base64-svg';
 
   /* Add event listeners to color inputs to trigger the setConfig function when changed  */
   [paperColor, mainInnerColor, remainInnerColor, mainOuterColor, remainOuterColor].forEach((el) => {
@@ -175,6 +296,50 @@ function initializeApp() {
     });
   });
 
+  /* Add event listener to the input unit to update the unit of every header */
+  inputUnitSelect.addEventListener('change', () => {
+    document.querySelectorAll('.unit-label').forEach((label) => label.textContent = inputUnitSelect.value);
+    /* the selected presets follow the unit */
+    applyPreset(sourcePresetSelect, 'source');
+    applyPreset(targetPresetSelect, 'target');
+  });
+
+  /* Add event listeners to the preset pickers to fill the sizes */
+  sourcePresetSelect.addEventListener('change', () => applyPreset(sourcePresetSelect, 'source'));
+  targetPresetSelect.addEventListener('change', () => applyPreset(targetPresetSelect, 'target'));
+
+  /* A size typed by hand is a custom size */
+  ['source', 'target'].forEach((prefix) => {
+    const select = prefix === 'source' ? sourcePresetSelect : targetPresetSelect;
+    [`#${prefix}-width`, `#${prefix}-height`].forEach((id) => {
+      calculationForm.querySelector(id)?.addEventListener('input', () => select.value = '');
+    });
+  });
+
+  /* Save the source size as stock, kept in the browser */
+  saveStockButton.addEventListener('click', () => {
+    const { source, unit } = getFormData();
+    const name = prompt('Name of the stock', `${source.width} x ${source.height} ${unit}`);
+    if (!name) {
+      return;
+    }
+    try {
+      const saved = paperPresets.save({ name, width: source.width, height: source.height, unit: unit as LayoutUnit });
+      fillPresetPickers();
+      sourcePresetSelect.value = saved.name;
+    } catch (error) {
+      alert(error);
+    }
+  });
+
+  /* Remove the selected saved stock */
+  removeStockButton.addEventListener('click', () => {
+    if (paperPresets.find(sourcePresetSelect.value)?.category === 'custom') {
+      paperPresets.remove(sourcePresetSelect.value);
+      fillPresetPickers();
+    }
+  });
+
   /* Add event listeners to `Calculate Button` to trigger Calculate function  */
   calculateButton.addEventListener('click', (e) => {
     e.preventDefault();
@@ -182,40 +347,340 @@ function initializeApp() {
     calculate(selectedFormat);
   });
 
+  /* Recalculate as the form changes, once the user stops typing */
+  let recalculateTimer: number | undefined;
+  calculationForm.addEventListener('input', (e) => {
+    if (e.target === importJobInput) {
+      return;
+    }
+    clearTimeout(recalculateTimer);
+    recalculateTimer = window.setTimeout(() => calculate(selectedFormat), RECALCULATE_DELAY);
+  });
+
+  /* Add event listeners to `Reset Button` to clear childNodes  */
+  resetButton.addEventListener('click', (e) => {
+    e.preventDefault();
+    console.log('Resetting Calculation!');
+    clearTimeout(recalculateTimer);
+    // **Check and clear existing child nodes**
+    while (drawingContainer.firstChild) {
+      drawingContainer.removeChild(drawingContainer.firstChild);
+    }
+    comparisonContainer.replaceChildren();
+    history.replaceState(null, '', location.pathname + location.search);
+    clearFieldErrors();
+    solvedJob = null;
+    drawnLayout = null;
+    pieceMarks.clear();
+    selectedRect = null;
+
+    currentCalculator?.reset();
+    currentCalculator = null;
+    setDefaultFormValue();
+  });
+
+  /* Add event listeners to the mark buttons to mark the selected piece */
+  markButtons.forEach((button) => {
+    button.addEventListener('click', () => {
+      markSelectedPiece((button.value || undefined) as PieceState);
+    });
+  });
+
+  /* Log the selected and marked pieces */
+  drawingContainer.addEventListener('piece-select', (e) => {
+    console.log(`Selected piece ${e.detail.piece.number} :`, e.detail.rect);
+  });
+  drawingContainer.addEventListener('piece-mark', (e) => {
+    console.log(`Piece ${e.detail.piece.number} : ${e.detail.state ?? 'usable'}`);
+  });
+
+  /* Export the job of the form as JSON */
+  exportJobButton.addEventListener('click', () => {
+    try {
+      const job = LayoutJobClass.from(createCalculator(getFormData()));
+      const url = URL.createObjectURL(new Blob([LayoutJobClass.stringify(job, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Layout_Job_${job.input.source.width}x${job.input.source.height}_${job.input.target.width}x${job.input.target.height}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(error);
+    }
+  });
+
+  /* Import a job from a JSON file, then calculate it */
+  importJobInput.addEventListener('change', async () => {
+    const file = importJobInput.files?.[0];
+    importJobInput.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      setFormData(LayoutJobClass.parse(await file.text()));
+      calculate(selectedFormat);
+    } catch (error) {
+      alert(error);
+    }
+  });
+
+  /* Open the job shared in the URL */
+  const sharedJob = new URLSearchParams(location.hash.slice(1)).get('job');
+  if (sharedJob) {
+    try {
+      setFormData(LayoutJobClass.decode(sharedJob));
+      calculate(selectedFormat);
+    } catch (error) {
+      console.error(error);
+      alert(error);
+    }
+  }
+
   /* Add event listeners to `select-function` to trigger Calculate function  */
   functionSelect.addEventListener('change', (e) => {
     e.preventDefault();
-    selectedFormat = functionSelect.value as 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image';
+    selectedFormat = functionSelect.value as 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf';
   });
 
 }
 
 
+/**
+ *  Parses the additional target sizes of a mixed-size job, written as `width x height x quantity` separated by commas.
+ * The quantity is optional, without it as many as fit are placed.
+ * 
+ * @param {string} value - The value of the `extra-targets` input, eq. `9x5x40, 14.8x10.5x12`.
+ * @returns {ILayoutJobItem[]} The parsed job items, invalid entries are skipped.
+ */
+function parseExtraTargets(value: string): ILayoutJobItem[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim().split(/\s*x\s*/i).map(Number))
+    .filter((numbers) => numbers.length >= 2 && numbers.every((n) => !isNaN(n) && n > 0))
+    .map(([width, height, quantity]) => ({ size: { width, height }, quantity: quantity ? Math.floor(quantity) : undefined }));
+}
+
 /**
  *  Retrieves the values from the form and parses them into a object with source, target and margin properties.
- * Each property is an object with width and height properties.
+ * Each property is an object with width and height properties, empty allowance fields are read as `0`.
+ * When additional sizes are given, every size is listed in `targets`, starting with the target.
  * 
  * @returns ILayoutInput
  */
 function getFormData(): ILayoutInput {
   const formData = new FormData(calculationForm);
   const data = Object.fromEntries(formData);
+  const extraTargets = parseExtraTargets(String(data['extra-targets'] || ''));
 
   // console.log('DATA: ', data);
-  return {
+  const input: ILayoutInput = {
     source: {
       width: Number(data['source-width']),
-      height: Number(data['source-height'])
+      height: Number(data['source-height']),
+      grain: (data['source-grain'] || undefined) as GrainDirection | undefined
     },
     target: {
       width: Number(data['target-width']),
-      height: Number(data['target-height'])
+      height: Number(data['target-height']),
+      grain: (data['target-grain'] || undefined) as GrainDirection | undefined
     },
     margin: {
       width: Number(data['margin-width']),
       height: Number(data['margin-height'])
+    },
+    strategy: (data['select-strategy'] || 'auto') as LayoutStrategy,
+    unit: (data['input-unit'] || 'cm') as LayoutUnit,
+    allowance: {
+      kerf: Number(data['kerf'] || 0),
+      bleed: Number(data['bleed'] || 0),
+      edge: {
+        top: Number(data['edge-top'] || 0),
+        right: Number(data['edge-right'] || 0),
+        bottom: Number(data['edge-bottom'] || 0),
+        left: Number(data['edge-left'] || 0)
+      }
     }
   };
+
+  if (extraTargets.length > 0) {
+    input.targets = [{ size: input.target }, ...extraTargets];
+  }
+  return input;
+}
+
+/**
+ *  Creates the calculator of a form value, with the configuration of the form.
+ * 
+ * @param {ILayoutInput} formValue - The form value, see `getFormData()`.
+ * @returns {CalculatorLayoutClass} The `CalculatorLayoutClass`, or the `CalculatorMixedLayoutClass` when additional sizes are given.
+ */
+function createCalculator(formValue: ILayoutInput): CalculatorLayoutClass {
+  const calculator = formValue.targets
+    ? new CalculatorMixedLayoutClass(formValue['source'], formValue.targets, formValue['margin'], formValue['allowance'], formValue['unit'])
+    : new CalculatorLayoutClass(formValue['source'], formValue['target'], formValue['margin'], formValue['strategy'], formValue['allowance'], formValue['unit']);
+  /** Set the `CalculatorLayoutClass` Config **/
+  calculator.config = setConfig();
+  return calculator;
+}
+
+/**
+ *  Writes a job into the form, the reverse of `getFormData()` and `setConfig()`.
+ * The colors are only set when they are `rgb()` colors, the ones the form writes.
+ * 
+ * @param {ILayoutJob} job - The job, from the URL or an imported JSON file.
+ */
+function setFormData(job: ILayoutJob) {
+  const { input, config = {} } = job;
+  const set = (name: string, value: string | number | undefined) => {
+    const field = calculationForm.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement | null;
+    if (field) {
+      field.value = value === undefined ? '' : String(value);
+    }
+  };
+  /** Convert RGB color to Hex format. `rgb(255, 0, 0) => #ff0000` **/
+  const rgbToHex = (color: string | undefined, picker: HTMLInputElement) => {
+    const result = /^rgb\((\d+),\s*(\d+),\s*(\d+)\)$/.exec(color ?? '');
+    if (result) {
+      picker.value = `#${result.slice(1).map((value) => Number(value).toString(16).padStart(2, '0')).join('')}`;
+    }
+  };
+
+  set('source-width', input.source.width);
+  set('source-height', input.source.height);
+  set('source-grain', input.source.grain);
+  set('target-width', input.target.width);
+  set('target-height', input.target.height);
+  set('target-grain', input.target.grain);
+  set('margin-width', input.margin?.width ?? 0);
+  set('margin-height', input.margin?.height ?? 0);
+  set('select-strategy', typeof input.strategy === 'string' ? input.strategy : 'auto');
+  set('input-unit', input.unit ?? 'cm');
+  set('kerf', input.allowance?.kerf ?? 0);
+  set('bleed', input.allowance?.bleed ?? 0);
+  set('edge-top', input.allowance?.edge?.top ?? 0);
+  set('edge-right', input.allowance?.edge?.right ?? 0);
+  set('edge-bottom', input.allowance?.edge?.bottom ?? 0);
+  set('edge-left', input.allowance?.edge?.left ?? 0);
+  set('extra-targets', (input.targets ?? []).slice(1)
+    .map((item) => [item.size.width, item.size.height, item.quantity].filter((value) => value !== undefined).join('x'))
+    .join(', '));
+  sourcePresetSelect.value = '';
+  targetPresetSelect.value = '';
+  document.querySelectorAll('.unit-label').forEach((label) => label.textContent = input.unit ?? 'cm');
+
+  rgbToHex(config.paperColor, paperColor);
+  rgbToHex(config.mainInnerColor, mainInnerColor);
+  rgbToHex(config.remainInnerColor, remainInnerColor);
+  rgbToHex(config.mainOuterColor, mainOuterColor);
+  rgbToHex(config.remainOuterColor, remainOuterColor);
+  offcutsCheckbox.checked = !!config.offcuts;
+  cutLinesCheckbox.checked = !!config.cutLines;
+  marksCheckbox.checked = !!config.cropMarks;
+  dimensionsCheckbox.checked = !!config.dimensions;
+  sizeLabelsCheckbox.checked = !!config.labelSize;
+  numberingSelect.value = config.numbering ?? 'row';
+  outputUnitSelect.value = config.unit && config.unit !== input.unit ? config.unit : '';
+}
+
+/**
+ *  Retrieves the optional print run from the form, the required quantity and the spoilage percentage.
+ * 
+ * @returns {{ quantity: number; spoilage: number } | null} The print run, or `null` when no quantity is given.
+ */
+function getPrintRun(): { quantity: number; spoilage: number; } | null {
+  const data = Object.fromEntries(new FormData(calculationForm));
+  const quantity = Number(data['quantity']);
+  if (!data['quantity'] || !quantity) {
+    return null;
+  }
+  return { quantity, spoilage: Number(data['spoilage'] || 0) };
+}
+
+/**
+ *  Makes the pieces of an SVG drawing interactive, hovering a piece shows its group, row/column, position and size,
+ * clicking selects it and emits a `piece-select` event on the drawing container.
+ * The pieces are found by the `data-number` of their `cutting-block` group, the marks and the selection of the same layout are set again.
+ * 
+ * @param {SVGSVGElement} svg - The drawn SVG element.
+ * @param {ILayoutPiece[]} pieces - The pieces of the drawing, from `calculator.pieces()`.
+ * @param {LayoutUnit} unit - The input unit, shown in the tooltip.
+ */
+function attachPieceEvents(svg: SVGSVGElement, pieces: ILayoutPiece[], unit: LayoutUnit) {
+  drawnPieces = pieces;
+  selectedBlock = null;
+  const blockOf = (e: Event) => (e.target as Element).closest<SVGGElement>('.cutting-block');
+  const pieceOf = (block: SVGGElement) => drawnPieces[Number(block.dataset.number) - 1];
+  const round = (value: number) => Number(value.toFixed(2));
+
+  svg.querySelectorAll<SVGGElement>('.cutting-block').forEach((block) => {
+    const { rect } = pieceOf(block);
+    const state = pieceMarks.get(rect);
+    if (state) {
+      block.dataset.state = state;
+    }
+    if (rect === selectedRect) {
+      selectedBlock = block;
+      block.classList.add('selected');
+    }
+  });
+
+  svg.addEventListener('mousemove', (e) => {
+    const block = blockOf(e);
+    if (!block) {
+      pieceTooltip.style.display = 'none';
+      return;
+    }
+    const { rect, ...piece } = pieceOf(block);
+    pieceTooltip.textContent = `#${piece.number} ${piece.group}, row ${piece.row} / column ${piece.column}\n`
+      + `position ${round(rect.inner.x as number)} x ${round(rect.inner.y as number)} ${unit}\nsize ${piece.size}`
+      + (block.dataset.state ? `\n${block.dataset.state}` : '');
+    pieceTooltip.style.left = `${e.clientX + 12}px`;
+    pieceTooltip.style.top = `${e.clientY + 12}px`;
+    pieceTooltip.style.display = 'block';
+  });
+
+  svg.addEventListener('mouseleave', () => {
+    pieceTooltip.style.display = 'none';
+  });
+
+  svg.addEventListener('click', (e) => {
+    const block = blockOf(e);
+    if (!block) {
+      return;
+    }
+    selectedBlock?.classList.remove('selected');
+    selectedBlock = block;
+    block.classList.add('selected');
+    const piece = pieceOf(block);
+    selectedRect = piece.rect;
+    drawingContainer.dispatchEvent(new CustomEvent('piece-select', {
+      detail: { piece, rect: piece.rect, state: block.dataset.state as PieceState }
+    }));
+  });
+}
+
+/**
+ *  Marks the selected piece of the SVG drawing as defective or reserved, or clears its mark,
+ * and emits a `piece-mark` event on the drawing container. The mark is kept on the drawing when it is printed, and when the same layout is redrawn.
+ * 
+ * @param {PieceState} state - The mark to set, `undefined` to clear it.
+ */
+function markSelectedPiece(state: PieceState) {
+  if (!selectedBlock) {
+    return;
+  }
+  if (state) {
+    selectedBlock.dataset.state = state;
+  } else {
+    delete selectedBlock.dataset.state;
+  }
+  const piece = drawnPieces[Number(selectedBlock.dataset.number) - 1];
+  if (state) {
+    pieceMarks.set(piece.rect, state);
+  } else {
+    pieceMarks.delete(piece.rect);
+  }
+  drawingContainer.dispatchEvent(new CustomEvent('piece-mark', { detail: { piece, rect: piece.rect, state } }));
 }
 
 /**
@@ -238,115 +703,383 @@ function setDownloadLink(filename: string, drawing: string) {
 }
 
 /**
- *  Triggered when the calculate button is clicked. This function clears the console, reads the values from the form,
+ *  Draws a layout in the returned format into the `#drawing` container and sets the download link,
+ * the SVG and canvas elements are shown in a zoomable viewer.
+ * Drawing another layout clears the marks of the pieces, with a notice above the buttons.
+ * 
+ * @param {CalculatorLayoutClass} calculator - The calculator the layout comes from.
+ * @param {ILayoutResult} layout - The layout to draw, the calculated one or a promoted alternative.
+ * @param {('svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf')} returnedFormat - Returned format you want to create.
+ */
+function showLayout(calculator: CalculatorLayoutClass, layout: ILayoutResult, returnedFormat: 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf') {
+  let drawing: string | SVGSVGElement | HTMLCanvasElement,
+    container: HTMLCanvasElement | HTMLImageElement | SVGSVGElement | HTMLIFrameElement,
+    fileExtension: 'jpeg' | 'svg' | 'pdf' | 'dxf', filename: string = '';
+
+  /** Set the filename **/
+  const size = calculator.input;
+  const title = `Layout_Source_${size.source.width}x${size.source.height}_Target_${size.target.width}x${size.target.height}_Result_${layout.total}`;
+
+  // **Check and clear existing child nodes**
+  while (drawingContainer.firstChild) {
+    drawingContainer.removeChild(drawingContainer.firstChild);
+  }
+
+  /** The marks belong to the pieces of the drawn layout **/
+  if (layout !== drawnLayout) {
+    if (pieceMarks.size > 0) {
+      formError.textContent = `The layout changed, the marks of ${pieceMarks.size} piece(s) were cleared.`;
+    }
+    pieceMarks.clear();
+    selectedRect = null;
+    drawnLayout = layout;
+  }
+
+  /** Check the returned format from the calculator **/
+  switch (returnedFormat) {
+    case 'svg-element':
+      // console.log('Calculation result format : "svg-element"');
+
+      // since `svg-element` not downloadable, hide the download link 
+      downloadLink.style.display = 'none';
+      // draw set parameter to false to return `SVGSVGElement`
+      drawing = calculator.drawSvg(false, layout);
+      // assign to container
+      container = drawing as SVGSVGElement;
+      // hover and select the pieces
+      attachPieceEvents(container, calculator.pieces(layout), calculator.input.unit as LayoutUnit);
+      break;
+
+    case 'base64-svg':
+      // console.log('Calculation result format : "base64-svg"');
+
+      // since its downloadable, set the file properties
+      fileExtension = 'svg';
+      filename = `${title}.${fileExtension}`;
+      // draw
+      drawing = calculator.drawSvg(true, layout);
+      // assign to container
+      container = imageContainer as HTMLImageElement;
+      // set download link
+      setDownloadLink(filename, drawing as string);
+      break;
+
+    case 'canvas-element':
+      // console.log('Calculation result format : "canvas-element"');
+
+      // hide download link
+      downloadLink.style.display = 'none';
+      // draw set parameter to false to return `HTMLCanvasElement`
+      drawing = calculator.drawCanvas(false, layout);
+      // assign to container
+      container = drawing as HTMLCanvasElement;
+      break;
+
+    case 'base64-image':
+      // console.log('Calculation result format : "base64-image"');
+
+      // since its downloadable, set the file properties
+      fileExtension = 'jpeg';
+      filename = `${title}.${fileExtension}`;
+      // draw
+      drawing = calculator.drawCanvas(true, layout);
+      // assign to container
+      container = imageContainer;
+      // set download link
+      setDownloadLink(filename, drawing as string);
+      break;
+
+    case 'base64-pdf':
+      // console.log('Calculation result format : "base64-pdf"');
+
+      // since its downloadable, set the file properties
+      fileExtension = 'pdf';
+      filename = `${title}.${fileExtension}`;
+      // draw
+      drawing = calculator.drawPdf(true, layout) as string;
+      // show the pdf in a frame, an `<img/>` can't display it
+      setDownloadLink(filename, drawing);
+      imageContainer.style.display = 'none';
+      container = document.createElement('iframe');
+      container.src = drawing;
+      container.title = title;
+      container.style.width = '100%';
+      container.style.height = '80vh';
+      break;
+
+    case 'base64-dxf':
+      // console.log('Calculation result format : "base64-dxf"');
+
+      // since its downloadable, set the file properties
+      fileExtension = 'dxf';
+      filename = `${title}.${fileExtension}`;
+      // a DXF can't be displayed, preview the same layout as svg and download the cut lines
+      drawing = calculator.drawSvg(true, layout);
+      container = imageContainer;
+      setDownloadLink(filename, calculator.drawDxf(true, layout));
+      imageContainer.src = drawing as string;
+      break;
+  }
+  // console.log('input :', calculator.input);
+
+  /* Add result to the container, the SVG and canvas elements in a zoomable viewer */
+  if (container instanceof SVGSVGElement || container instanceof HTMLCanvasElement) {
+    new LayoutViewerClass(drawingContainer).show(container);
+  } else {
+    drawingContainer.appendChild(container);
+  }
+}
+
+/**
+ *  Lists every arrangement of the calculator, see `calculator.alternatives()`, with the calculated layout in place of its own arrangement,
+ * so the highlighted thumbnail and the main view are the same layout. A mixed-size job has a single arrangement, its calculation.
+ * 
+ * @param {CalculatorLayoutClass} calculator - The calculator to compare the arrangements of.
+ * @param {ILayoutResult} calculation - The calculated layout, from `calculator.calculate()`.
+ * @returns {ILayoutResult[]} The layouts, the best one first.
+ */
+function getAlternatives(calculator: CalculatorLayoutClass, calculation: ILayoutResult): ILayoutResult[] {
+  if (calculator instanceof CalculatorMixedLayoutClass) {
+    return [calculation];
+  }
+  const { method, placement } = calculation.strategy ?? {};
+  return calculator.alternatives().map((layout) => layout.strategy?.method === method && layout.strategy?.placement === placement ? calculation : layout);
+}
+
+/**
+ *  Shows a thumbnail of every arrangement (every cutting method and remainder placement) with its total and waste,
+ * the best one is highlighted. Clicking a thumbnail promotes its layout to the `#drawing` view and the download link.
+ * 
+ * @param {CalculatorLayoutClass} calculator - The calculator drawing the thumbnails.
+ * @param {ILayoutResult[]} alternatives - The arrangements to compare, see `getAlternatives()`.
+ * @param {ILayoutResult} shown - The layout of the `#drawing` view, its thumbnail is selected when it isn't the best one.
+ * @param {('svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf')} returnedFormat - The format of the promoted layout.
+ */
+function showComparison(calculator: CalculatorLayoutClass, alternatives: ILayoutResult[], shown: ILayoutResult, returnedFormat: 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf') {
+  comparisonContainer.replaceChildren();
+
+  alternatives.forEach((layout, index) => {
+    const waste = Number((100 - (layout.statistics?.utilisation ?? 0)).toFixed(2));
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.className = index === 0 ? 'comparison-item best' : 'comparison-item';
+    if (index > 0 && layout === shown) {
+      item.classList.add('selected');
+    }
+
+    const thumbnail = document.createElement('img');
+    thumbnail.src = calculator.drawSvg(true, layout) as string;
+    thumbnail.alt = `${layout.strategy?.method} layout`;
+
+    const caption = document.createElement('span');
+    const placement = layout.strategy?.placement ? ` / ${layout.strategy.placement}` : '';
+    caption.textContent = `${layout.strategy?.method ?? 'mixed'}${placement}\ntotal ${layout.total} · waste ${waste}%`;
+
+    item.append(thumbnail, caption);
+    item.addEventListener('click', () => {
+      comparisonContainer.querySelector('.selected')?.classList.remove('selected');
+      item.classList.add('selected');
+      showLayout(calculator, layout, returnedFormat);
+    });
+    comparisonContainer.appendChild(item);
+  });
+}
+
+/**
+ *  Finds the form field of an input path named by a `LayoutError`.
+ * The first item of a mixed-size job is the target of the form, the other items are written in `extra-targets`.
+ * 
+ * @param {string} field - The input path, eq. `target.width` or `targets[1].size.height`.
+ * @returns {string | undefined} The name of the form field, `undefined` when the form has no field for it.
+ */
+function errorFieldName(field: string): string | undefined {
+  const item = /^targets\[(\d+)\]\.size\.(\w+)$/.exec(field);
+  if (item) {
+    return item[1] === '0' ? ERROR_FIELDS[`target.${item[2]}`] : 'extra-targets';
+  }
+  return field.startsWith('targets') ? 'extra-targets' : ERROR_FIELDS[field];
+}
+
+/**
+ *  Shows an error of the calculation inline, next to the form field it names.
+ * An error without a field, or with a field the form doesn't have, is shown above the buttons.
+ * 
+ * @param {unknown} error - The error thrown by the calculator.
+ */
+function showFieldError(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof LayoutError && error.field ? errorFieldName(error.field) : undefined;
+  const input = name ? calculationForm.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement | null : null;
+  const wrapper = input?.closest('.input-wrapper');
+  if (!input || !wrapper) {
+    formError.textContent = message;
+    return;
+  }
+
+  input.setAttribute('aria-invalid', 'true');
+  const note = document.createElement('small');
+  note.className = 'field-error';
+  note.id = `${input.id}-error`;
+  note.textContent = message;
+  input.setAttribute('aria-describedby', note.id);
+  wrapper.appendChild(note);
+}
+
+/**
+ *  Shows what to change when the target doesn't fit: rotating it, a smaller margin or a larger sheet.
+ * Clicking a suggestion writes it into the form and recalculates.
+ * 
+ * @param {ILayoutInput} formValue - The form value that doesn't fit, see `getFormData()`.
+ * @param {('svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf')} returnedFormat - Returned format of the recalculation.
+ */
+function showSuggestions(formValue: ILayoutInput, returnedFormat: 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf') {
+  const analysis = new LayoutAnalysisClass(formValue).analyze();
+  /** the analysis only looks at the target, an additional size of a mixed-size job is not its business **/
+  if (analysis.fits) {
+    return;
+  }
+
+  const unit = formValue.unit ?? 'cm';
+  const margin = formValue.margin ?? { width: 0, height: 0 };
+  const suggestions: [string, Record<string, string | number>][] = [];
+  if (analysis.rotated.fits) {
+    const { width, height, grain } = analysis.rotated.target;
+    suggestions.push([`Rotate the target to ${width} x ${height} ${unit} (${analysis.rotated.total} fit)`,
+      { 'target-width': width, 'target-height': height, 'target-grain': grain ?? '' }]);
+  }
+  if (analysis.margin && (analysis.margin.width < margin.width || analysis.margin.height < margin.height)) {
+    const width = Math.min(margin.width, analysis.margin.width);
+    const height = Math.min(margin.height, analysis.margin.height);
+    suggestions.push([`Reduce the margin to ${width} x ${height} ${unit}`, { 'margin-width': width, 'margin-height': height }]);
+  }
+  if (analysis.stock) {
+    const { width, height, utilisation } = analysis.stock;
+    suggestions.push([`Use a ${width} x ${height} ${unit} sheet (${utilisation}% used)`, { 'source-width': width, 'source-height': height }]);
+  }
+
+  suggestionList.replaceChildren(...suggestions.map(([text, values]) => {
+    const item = document.createElement('li');
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = text;
+    button.addEventListener('click', () => {
+      Object.entries(values).forEach(([name, value]) => {
+        const field = calculationForm.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement | null;
+        if (field) {
+          field.value = String(value);
+        }
+      });
+      /* the new size is a custom size */
+      if ('source-width' in values) {
+        sourcePresetSelect.value = '';
+      }
+      if ('target-width' in values) {
+        targetPresetSelect.value = '';
+      }
+      calculate(returnedFormat);
+    });
+    item.appendChild(button);
+    return item;
+  }));
+}
+
+/**
+ *  Removes the errors shown by `showFieldError()` and the suggestions shown by `showSuggestions()`.
+ */
+function clearFieldErrors() {
+  formError.textContent = '';
+  suggestionList.replaceChildren();
+  calculationForm.querySelectorAll('.input-wrapper .field-error').forEach((note) => note.remove());
+  calculationForm.querySelectorAll('[aria-invalid]').forEach((input) => {
+    input.removeAttribute('aria-invalid');
+    input.removeAttribute('aria-describedby');
+  });
+}
+
+/**
+ *  Triggered when the calculate button is clicked, or when the form changes. This function clears the console, reads the values from the form,
  * creates an instance of the CalculatorLayoutClass, calls the calculate method and logs the result, calls the draw
  * method and assigns the result to the src attribute of the svg-container element.
+ * While the sizes are the same, only the drawing options changed: the layout, the arrangements and the plans of the last calculation are redrawn,
+ * with the promoted arrangement and the piece marks kept.
+ * A refused value is shown next to its form field, see `showFieldError()`, with suggestions when the target doesn't fit, see `showSuggestions()`.
  * 
- * @param {('svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image')} returnedFormat - Returned format you want to create.
+ * @param {('svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf')} returnedFormat - Returned format you want to create.
  * @defaultValue 'base64-svg'
  */
-function calculate(returnedFormat: 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image') {
+function calculate(returnedFormat: 'svg-element' | 'base64-svg' | 'canvas-element' | 'base64-image' | 'base64-pdf' | 'base64-dxf') {
   console.clear();
-  let drawing: string | SVGSVGElement | HTMLCanvasElement,
-    container: HTMLCanvasElement | HTMLImageElement | SVGSVGElement,
-    fileExtension: 'jpeg' | 'svg', filename: string = '';
+  clearFieldErrors();
 
   try {
     /** Getting form data **/
     const formValue = getFormData();
     /**Log the form value**/
-    console.log(`Input Data (cm): \nSource : ${formValue.source.width} x ${formValue.source.height}\nTarget : ${formValue.target.width} x ${formValue.target.height}\nMargin : ${formValue.margin?.width} x ${formValue.margin?.height}`);
-    /** Run the `CalculatorLayoutClass` **/
-    formValue.useInline = false;
-    const calculator = new CalculatorLayoutClass(formValue['source'], formValue['target'], formValue['margin'], formValue['useInline']);
-    /** Set the `CalculatorLayoutClass` Config **/
-    calculator.config = setConfig();
-    /** Calculate the layout **/
-    const calculation = calculator.calculate();
+    console.log(`Input Data (${formValue.unit}): \nSource : ${formValue.source.width} x ${formValue.source.height}\nTarget : ${formValue.target.width} x ${formValue.target.height}\nMargin : ${formValue.margin?.width} x ${formValue.margin?.height}`);
+    /** Run the `CalculatorLayoutClass`, or the `CalculatorMixedLayoutClass` when additional sizes are given **/
+    const calculator = createCalculator(formValue);
+    /** Calculate the layout, unless the sizes are the ones already calculated **/
+    const key = JSON.stringify(calculator.input);
+    const solved = solvedJob?.key === key;
+    if (!solved) {
+      const calculation = calculator.calculate();
+      solvedJob = { key, calculation, alternatives: getAlternatives(calculator, calculation), plans: new Map() };
+    }
+    const { calculation, alternatives, plans } = solvedJob!;
     /** Log the result **/
-    console.log(`Total Plotting (unit): \nMain   : ${calculation.main.length}\nRemain : ${calculation.remain?.length || 0}\nTotal  : ${calculation.total}`);
-    /** Set the filename **/
-    const size = calculator.input;
-    const title = `Layout_Source_${size.source.width}x${size.source.height}_Target_${size.target.width}x${size.target.height}_Result_${calculation.total}`;
-
-    // **Check and clear existing child nodes**
-    while (drawingContainer.firstChild) {
-      drawingContainer.removeChild(drawingContainer.firstChild);
+    const remainCount = (calculation.remain?.length || 0) + (calculation.remainSecondary?.length || 0) + (calculation.remainCorner?.length || 0);
+    console.log(`Total Plotting (unit): \nMain   : ${calculation.main.length}\nRemain : ${remainCount}\nTotal  : ${calculation.total}`);
+    /** Log the winning strategy and the other candidates **/
+    console.log(`Strategy : ${calculation.strategy?.method} (remain: ${calculation.strategy?.placement ?? 'none'})`);
+    calculation.candidates?.forEach((candidate) => {
+      console.log(` - ${candidate.method} / ${candidate.placement} : ${candidate.total}`);
+    });
+    /** Log the waste and yield of the sheet **/
+    if (calculation.statistics) {
+      const stats = calculation.statistics;
+      console.log(`Statistics (${formValue.unit}²): \nUtilisation : ${stats.utilisation}%\nUsed   : ${stats.usedArea}\nWaste  : ${stats.wasteArea} (margin ${stats.marginArea}, bleed ${stats.bleedArea}, kerf ${stats.kerfArea}, edge ${stats.edgeArea}, offcuts ${stats.offcutArea})`);
+      stats.offcuts.forEach((offcut) => console.log(` - offcut ${offcut.width} x ${offcut.height} at (${offcut.x}, ${offcut.y})`));
     }
-
-    /** Check the returned format from the calculator **/
-    switch (returnedFormat) {
-      case 'svg-element':
-        // console.log('Calculation result format : "svg-element"');
-
-        // since `svg-element` not downloadable, hide the download link 
-        downloadLink.style.display = 'none';
-        // draw set parameter to false to return `SVGSVGElement`
-        drawing = calculator.drawSvg(false);
-        // assign to container
-        container = drawing as SVGSVGElement;
-        break;
-
-      case 'base64-svg':
-        // console.log('Calculation result format : "base64-svg"');
-
-        // since its downloadable, set the file properties
-        fileExtension = 'svg';
-        filename = `${title}.${fileExtension}`;
-        // draw
-        drawing = calculator.drawSvg();
-        // assign to container
-        container = imageContainer as HTMLImageElement;
-        // set download link
-        setDownloadLink(filename, drawing as string);
-        break;
-
-      case 'canvas-element':
-        // console.log('Calculation result format : "canvas-element"');
-
-        // hide download link
-        downloadLink.style.display = 'none';
-        // draw set parameter to false to return `HTMLCanvasElement`
-        drawing = calculator.drawCanvas(false);
-        // assign to container
-        container = drawing as HTMLCanvasElement;
-        break;
-
-      case 'base64-image':
-        // console.log('Calculation result format : "base64-image"');
-
-        // since its downloadable, set the file properties
-        fileExtension = 'jpeg';
-        filename = `${title}.${fileExtension}`;
-        // draw
-        drawing = calculator.drawCanvas();
-        // assign to container
-        container = imageContainer;
-        // set download link
-        setDownloadLink(filename, drawing as string);
-        break;
+    /** Log the cutting instructions **/
+    if (cutLinesCheckbox.checked) {
+      console.log(calculator.cutInstructions(calculation));
     }
-    // console.log('input :', calculator.input);
+    /** Log what the paper grain rule cost **/
+    if (calculation.grain) {
+      console.log(`Grain : ${calculation.grain.lost} lost (${calculation.grain.unconstrained} when rotating freely)`);
+    }
+    /** Log how many of each size fit in a mixed-size job **/
+    (calculation.items as ILayoutItemResult[] | undefined)?.forEach((item) => {
+      console.log(` - ${item.label} : ${item.placed}${item.quantity === undefined ? '' : ` / ${item.quantity}`}`);
+    });
+    /** Log the sheets needed for the print run **/
+    const printRun = getPrintRun();
+    if (printRun) {
+      const planKey = `${printRun.quantity}/${printRun.spoilage}`;
+      const plan = plans.get(planKey) ?? new CalculatorPlanClass(calculator, printRun.quantity, printRun.spoilage).plan();
+      plans.set(planKey, plan);
+      console.log(`Print Run: \nRequired : ${plan.required} (${plan.quantity} + ${plan.spoilage}%)\nSheets   : ${plan.sheets} x ${plan.piecesPerSheet}\nLast     : ${plan.lastSheetPieces}\nSurplus  : ${plan.surplus}`);
+    }
+    /** Keep the job in the URL, to share the exact layout **/
+    history.replaceState(null, '', `#job=${LayoutJobClass.encode(LayoutJobClass.from(calculator))}`);
 
-    /* Add result to the container */
-    drawingContainer.appendChild(container);
+    /** Keep the promoted arrangement while the sizes are the same **/
+    const layout = solved && drawnLayout && alternatives.includes(drawnLayout) ? drawnLayout : calculation;
 
-    /* Add event listeners to `Reset Button` to clear childNodes  */
-    resetButton.addEventListener('click', (e) => {
-      e.preventDefault();
-      console.log('Resetting Calculation!');
-      // **Check and clear existing child nodes**
-      while (drawingContainer.firstChild) {
-        drawingContainer.removeChild(drawingContainer.firstChild);
-      }
+    /** Compare every arrangement, the best one is highlighted **/
+    showComparison(calculator, alternatives, layout, returnedFormat);
 
-      calculator.reset();
-      setDefaultFormValue();
-    });
+    /** Draw the layout **/
+    showLayout(calculator, layout, returnedFormat);
+    currentCalculator = calculator;
 
   } catch (error) {
     console.error(error);
-    alert(error); // also show alert to the user
+    showFieldError(error); // also show the error next to its field
+    /** suggest what to change when the target doesn't fit **/
+    if ((error instanceof LayoutDrawingError ? error.cause : error) instanceof LayoutFitError) {
+      showSuggestions(getFormData(), returnedFormat);
+    }
   }
 }
 
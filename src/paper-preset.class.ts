@@ -0,0 +1,210 @@
+import { CalculatorLayoutClass } from "./calculator-layout.class";
+import { IPaperPreset, ISquareSize, LayoutUnit, PaperPresetCategory } from "./calculator-layout.interface";
+import { LayoutValidationError } from "./layout-error.class";
+
+/**
+ * The ISO 216 A and B series and the ISO 269 C series, from size `0` to `10`, in `mm`.
+ */
+const ISO_SERIES: Record<'A' | 'B' | 'C', [number, number][]> = {
+  A: [[841, 1189], [594, 841], [420, 594], [297, 420], [210, 297], [148, 210], [105, 148], [74, 105], [52, 74], [37, 52], [26, 37]],
+  B: [[1000, 1414], [707, 1000], [500, 707], [353, 500], [250, 353], [176, 250], [125, 176], [88, 125], [62, 88], [44, 62], [31, 44]],
+  C: [[917, 1297], [648, 917], [458, 648], [324, 458], [229, 324], [162, 229], [114, 162], [81, 114], [57, 81], [40, 57], [28, 40]]
+};
+
+/**
+ * The units a preset can be saved in.
+ */
+const PRESET_UNITS: readonly LayoutUnit[] = ['mm', 'cm', 'in', 'pt'];
+
+/**
+ * The built-in presets: the ISO series, the North American sizes, common press sheets and common finished products.
+ */
+export const PAPER_PRESETS: readonly IPaperPreset[] = [
+  ...(Object.keys(ISO_SERIES) as ('A' | 'B' | 'C')[]).flatMap((series) => ISO_SERIES[series].map(([width, height], size) => ({
+    name: `${series}${size}`,
+    category: `iso-${series.toLowerCase()}` as PaperPresetCategory,
+    width,
+    height,
+    unit: 'mm' as LayoutUnit
+  }))),
+  { name: 'Letter', category: 'us', width: 8.5, height: 11, unit: 'in' },
+  { name: 'Legal', category: 'us', width: 8.5, height: 14, unit: 'in' },
+  { name: 'Tabloid', category: 'us', width: 11, height: 17, unit: 'in' },
+  { name: 'Half Letter', category: 'us', width: 5.5, height: 8.5, unit: 'in' },
+  { name: 'Press 50 x 70', category: 'press', width: 50, height: 70, unit: 'cm' },
+  { name: 'Press 61 x 86', category: 'press', width: 61, height: 86, unit: 'cm' },
+  { name: 'Press 64 x 90', category: 'press', width: 64, height: 90, unit: 'cm' },
+  { name: 'Press 65 x 100', category: 'press', width: 65, height: 100, unit: 'cm' },
+  { name: 'Press 70 x 100', category: 'press', width: 70, height: 100, unit: 'cm' },
+  { name: 'Press 72 x 102', category: 'press', width: 72, height: 102, unit: 'cm' },
+  { name: 'Press 79 x 109', category: 'press', width: 79, height: 109, unit: 'cm' },
+  { name: 'Board 122 x 244', category: 'press', width: 122, height: 244, unit: 'cm' },
+  { name: 'Business card (EU)', category: 'finished', width: 85, height: 55, unit: 'mm' },
+  { name: 'Business card (US)', category: 'finished', width: 3.5, height: 2, unit: 'in' },
+  { name: 'A6 postcard', category: 'finished', width: 105, height: 148, unit: 'mm' },
+  { name: 'A5 flyer', category: 'finished', width: 148, height: 210, unit: 'mm' },
+  { name: 'A4 flyer', category: 'finished', width: 210, height: 297, unit: 'mm' },
+  { name: 'DL flyer', category: 'finished', width: 99, height: 210, unit: 'mm' },
+  { name: 'DL envelope', category: 'finished', width: 220, height: 110, unit: 'mm' }
+];
+
+/**
+ * The storage key of the saved stock list.
+ */
+const STORAGE_KEY = 'layout-calculator.stock';
+
+/**
+ * **Version 1.0**
+ * @class
+ * The paper size library: the {@link PAPER_PRESETS built-in presets} and the stock saved by the user.
+ *
+ * **How it works:**
+ * - Every preset keeps the unit it is defined in, {@link size} converts it to the unit of the calculator.
+ * - The saved stock is kept as JSON in the given storage, the browser `localStorage` by default, under `layout-calculator.stock`.
+ *   Without a storage it is only kept by the instance.
+ *
+ * @example
+ * ```ts
+ *
+ *  const presets = new PaperPresetClass();
+ *  presets.save({ name: 'House stock 45 x 64', width: 45, height: 64, unit: 'cm' });
+ *  const source = presets.size('Press 65 x 100', 'cm'); // { width: 65, height: 100 }
+ *  const target = presets.size('A4', 'cm'); // { width: 21, height: 29.7 }
+ *  const calculator = new CalculatorLayoutClass(source, target);
+ *
+ * ```
+ */
+export class PaperPresetClass {
+  private _custom: IPaperPreset[];
+
+  /**
+   * @param {Pick<Storage, 'getItem' | 'setItem'> | null} [_storage] - Where the saved stock is kept. Defaults to the browser `localStorage`, when there is one.
+   */
+  constructor(
+    private _storage: Pick<Storage, 'getItem' | 'setItem'> | null = typeof localStorage === 'undefined' ? null : localStorage
+  ) {
+    this._custom = this._load();
+  }
+
+  /**
+   * @public
+   *
+   * Lists the presets, the built-in ones then the saved stock.
+   * @param {PaperPresetCategory} [category] - Only list the presets of this family.
+   * @returns {IPaperPreset[]} The presets.
+   */
+  public list(category?: PaperPresetCategory): IPaperPreset[] {
+    return [...PAPER_PRESETS, ...this._custom].filter((preset) => !category || preset.category === category);
+  }
+
+  /**
+   * @public
+   *
+   * Finds a preset by its name, the saved stock first so it can shadow a built-in name.
+   * @param {string} name - The name of the preset.
+   * @returns {IPaperPreset | undefined} The preset, `undefined` when there is none by that name.
+   */
+  public find(name: string): IPaperPreset | undefined {
+    return this._custom.find((preset) => preset.name === name) ?? PAPER_PRESETS.find((preset) => preset.name === name);
+  }
+
+  /**
+   * @public
+   *
+   * Gets the size of a preset in a unit, rounded to 4 decimals.
+   * @param {string | IPaperPreset} preset - The preset or its name.
+   * @param {LayoutUnit} unit - The unit to convert to.
+   * @returns {ISquareSize} The size of the preset.
+   * @throws {LayoutValidationError} Throws an `error` on `preset` if there is no preset by that name.
+   */
+  public size(preset: string | IPaperPreset, unit: LayoutUnit): ISquareSize {
+    const found = typeof preset === 'string' ? this.find(preset) : preset;
+    if (!found) {
+      throw new LayoutValidationError(`Unknown paper preset "${preset}"`, 'preset', 'invalid-value', { preset });
+    }
+    const convert = (value: number) => Number(CalculatorLayoutClass.convert(value, found.unit, unit).toFixed(4));
+    return { width: convert(found.width), height: convert(found.height) };
+  }
+
+  /**
+   * @public
+   *
+   * Lists the stock saved by the user.
+   * @returns {IPaperPreset[]} The saved stock, in the order it was saved.
+   */
+  public custom(): IPaperPreset[] {
+    return [...this._custom];
+  }
+
+  /**
+   * @public
+   *
+   * Saves a stock size, replacing the saved one with the same name.
+   * @param {Omit<IPaperPreset, 'category'>} preset - The stock size, its category is `custom`.
+   * @returns {IPaperPreset} The saved preset.
+   * @throws {LayoutValidationError} Throws an `error` on `name` if the name is empty, on `width` or `height` if it is not a positive number,
+   * or on `unit` if the unit is not `mm`, `cm`, `in` or `pt`.
+   */
+  public save(preset: Omit<IPaperPreset, 'category'>): IPaperPreset {
+    const name = preset.name?.trim();
+    if (!name) {
+      throw new LayoutValidationError("Paper preset name is required", 'name', 'required');
+    }
+    if (!(preset.width > 0) || !(preset.height > 0)) {
+      throw new LayoutValidationError(`Paper preset "${name}" must have a positive width and height`, preset.width > 0 ? 'height' : 'width', 'not-positive', {
+        width: preset.width,
+        height: preset.height
+      });
+    }
+    if (!PRESET_UNITS.includes(preset.unit)) {
+      throw new LayoutValidationError("Unit must be one of 'mm', 'cm', 'in' or 'pt'.", 'unit', 'invalid-value', { unit: preset.unit });
+    }
+
+    const saved: IPaperPreset = { name, category: 'custom', width: preset.width, height: preset.height, unit: preset.unit };
+    this._custom = [...this._custom.filter((item) => item.name !== name), saved];
+    this._store();
+    return saved;
+  }
+
+  /**
+   * @public
+   *
+   * Removes a saved stock size, the built-in presets can't be removed.
+   * @param {string} name - The name of the saved stock.
+   * @returns {boolean} `true` when a saved stock was removed.
+   */
+  public remove(name: string): boolean {
+    const count = this._custom.length;
+    this._custom = this._custom.filter((preset) => preset.name !== name);
+    this._store();
+    return this._custom.length < count;
+  }
+
+  /**
+   *
+   *
+   * Reads the saved stock from the storage, entries that are not valid presets are skipped.
+   * @returns {IPaperPreset[]} The saved stock.
+   */
+  private _load(): IPaperPreset[] {
+    try {
+      const saved = JSON.parse(this._storage?.getItem(STORAGE_KEY) ?? '[]');
+      return (Array.isArray(saved) ? saved : [])
+        .filter((preset) => typeof preset?.name === 'string' && preset.width > 0 && preset.height > 0
+          && PRESET_UNITS.includes(preset.unit))
+        .map((preset) => ({ name: preset.name, category: 'custom', width: preset.width, height: preset.height, unit: preset.unit }));
+    } catch {
+      /** a broken entry is dropped, it is overwritten on the next save **/
+      return [];
+    }
+  }
+
+  /**
+   *
+   *
+   * Writes the saved stock to the storage.
+   */
+  private _store(): void {
+    this._storage?.setItem(STORAGE_KEY, JSON.stringify(this._custom));
+  }
+}
@@ -0,0 +1,443 @@
+import { ColorValidatorClass } from "./color-validator.class";
+import { ILayoutCanvasContext, IRectPlotConfig } from "./calculator-layout.interface";
+
+/**
+ * The widths of the printable ASCII characters (` ` to `~`) of the Helvetica font, in thousandths of the font size.
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+/**
+ * @interface IPdfContextState
+ * The drawing state kept by `save()` and brought back by `restore()`.
+ * @property {string | CanvasGradient | CanvasPattern} fillStyle - The fill color.
+ * @property {string | CanvasGradient | CanvasPattern} strokeStyle - The stroke color.
+ * @property {number} lineWidth - The width of the strokes.
+ * @property {string} font - The font.
+ * @property {CanvasTextAlign} textAlign - The horizontal alignment of the texts.
+ * @property {CanvasTextBaseline} textBaseline - The vertical alignment of the texts.
+ * @property {number[]} lineDash - The dash pattern of the strokes.
+ * @property {{ x: number; y: number }} origin - The origin moved by `translate()`.
+ * @property {boolean} clipped - `true` when a clip was set since the `save()`, the PDF graphics state is restored then.
+ */
+interface IPdfContextState {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  lineDash: number[];
+  origin: { x: number; y: number; };
+  clipped: boolean;
+}
+
+/**
+ * **Version 1.0**
+ * @class
+ * A 2D context writing a single page vector PDF, used by {@link CalculatorLayoutClass.drawPdf} so the PDF is drawn
+ * by the same plotting as the canvas.
+ *
+ * **How it works:**
+ * - One pixel of the context is one PDF point, the page is sized by its `canvas`.
+ * - Every path becomes vector PDF operators, colors with an alpha use a transparency graphics state.
+ * - Text is written in Helvetica, aligned with its character widths.
+ * - The y axis is flipped once, so the coordinates are the ones of a canvas (origin top left).
+ *
+ * @example
+ * ```ts
+ *
+ *  const context = new PdfContextClass();
+ *  context.canvas.width = 595;
+ *  context.canvas.height = 842;
+ *  context.fillStyle = 'lightgreen';
+ *  context.fillRect(10, 10, 100, 50);
+ *
+ *  const pdf = context.toPdf({ title: 'A4' }); // binary string, one character per byte
+ *
+ * ```
+ */
+export class PdfContextClass implements ILayoutCanvasContext {
+
+  /**
+   * @property {{ width: number; height: number }} canvas - The page size, in points.
+   */
+  public canvas: { width: number; height: number; } = { width: 0, height: 0 };
+  /**
+   * @property {string | CanvasGradient | CanvasPattern} fillStyle - The fill color, gradients and patterns are painted black.
+   */
+  public fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  /**
+   * @property {string | CanvasGradient | CanvasPattern} strokeStyle - The stroke color, gradients and patterns are painted black.
+   */
+  public strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  /**
+   * @property {number} lineWidth - The width of the strokes, in points.
+   */
+  public lineWidth: number = 1;
+  /**
+   * @property {string} font - The font, only its pixel size is used, eq. `4.5px sans-serif`.
+   */
+  public font: string = '10px sans-serif';
+  /**
+   * @property {CanvasTextAlign} textAlign - The horizontal alignment of the texts.
+   */
+  public textAlign: CanvasTextAlign = 'start';
+  /**
+   * @property {CanvasTextBaseline} textBaseline - The vertical alignment of the texts.
+   */
+  public textBaseline: CanvasTextBaseline = 'alphabetic';
+
+  /**
+   * @property {number[]} _lineDash - The dash pattern of the strokes, empty for solid lines.
+   */
+  private _lineDash: number[] = [];
+  /**
+   * @property {{ x: number; y: number }} _origin - The origin moved by `translate()`, added to every coordinate.
+   */
+  private _origin: { x: number; y: number; } = { x: 0, y: 0 };
+  /**
+   * @property {string[]} _path - The operators of the current path.
+   */
+  private _path: string[] = [];
+  /**
+   * @property {string[]} _content - The operators of the page content.
+   */
+  private _content: string[] = [];
+  /**
+   * @property {IPdfContextState[]} _states - The saved drawing states.
+   */
+  private _states: IPdfContextState[] = [];
+  /**
+   * @property {Map<string, string>} _alphas - The transparency graphics states in use, eq. `ca 0.35` to `GS1`.
+   */
+  private _alphas: Map<string, string> = new Map();
+
+  /**
+   * @public
+   *
+   * Starts a new path.
+   */
+  public beginPath(): void {
+    this._path = [];
+  }
+
+  /**
+   * @public
+   *
+   * Adds a rectangle to the current path.
+   */
+  public rect(x: number, y: number, width: number, height: number): void {
+    this._path.push(`${this._n(x + this._origin.x)} ${this._n(y + this._origin.y)} ${this._n(width)} ${this._n(height)} re`);
+  }
+
+  /**
+   * @public
+   *
+   * Starts a new sub-path at a point.
+   */
+  public moveTo(x: number, y: number): void {
+    this._path.push(`${this._n(x + this._origin.x)} ${this._n(y + this._origin.y)} m`);
+  }
+
+  /**
+   * @public
+   *
+   * Adds a straight line to the current sub-path.
+   */
+  public lineTo(x: number, y: number): void {
+    this._path.push(`${this._n(x + this._origin.x)} ${this._n(y + this._origin.y)} l`);
+  }
+
+  /**
+   * @public
+   *
+   * Adds a circular arc to the current path, as cubic Bézier curves of at most 90° each.
+   * Like a canvas, the arc is joined to the current sub-path by a straight line.
+   */
+  public arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise: boolean = false): void {
+    let sweep = endAngle - startAngle;
+    if (counterclockwise ? sweep > 0 : sweep < 0) {
+      sweep = (sweep % (2 * Math.PI)) + (counterclockwise ? -2 * Math.PI : 2 * Math.PI);
+    }
+    sweep = Math.max(-2 * Math.PI, Math.min(2 * Math.PI, sweep));
+
+    const point = (angle: number) => ({ x: x + this._origin.x + (radius * Math.cos(angle)), y: y + this._origin.y + (radius * Math.sin(angle)) });
+    const start = point(startAngle);
+    this._path.push(`${this._n(start.x)} ${this._n(start.y)} ${this._path.length > 0 ? 'l' : 'm'}`);
+
+    const segments = Math.max(Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9), 1);
+    const step = sweep / segments;
+    /** the length of the control handles of a unit arc **/
+    const handle = (4 / 3) * Math.tan(step / 4) * radius;
+    for (let i = 0; i < segments; i++) {
+      const from = startAngle + (i * step);
+      const to = from + step;
+      const p0 = point(from);
+      const p3 = point(to);
+      const c1 = { x: p0.x - (handle * Math.sin(from)), y: p0.y + (handle * Math.cos(from)) };
+      const c2 = { x: p3.x + (handle * Math.sin(to)), y: p3.y - (handle * Math.cos(to)) };
+      this._path.push(`${this._n(c1.x)} ${this._n(c1.y)} ${this._n(c2.x)} ${this._n(c2.y)} ${this._n(p3.x)} ${this._n(p3.y)} c`);
+    }
+  }
+
+  /**
+   * @public
+   *
+   * Fills the current path with the `fillStyle`.
+   */
+  public fill(): void {
+    if (this._path.length > 0) {
+      this._content.push(...this._paint(this.fillStyle, 'fill'), ...this._path, 'f');
+    }
+  }
+
+  /**
+   * @public
+   *
+   * Strokes the current path with the `strokeStyle`, the `lineWidth` and the line dash.
+   */
+  public stroke(): void {
+    if (this._path.length > 0) {
+      this._content.push(...this._paint(this.strokeStyle, 'stroke'), ...this._strokeStyle(), ...this._path, 'S');
+    }
+  }
+
+  /**
+   * @public
+   *
+   * Fills a rectangle with the `fillStyle`, without touching the current path.
+   */
+  public fillRect(x: number, y: number, width: number, height: number): void {
+    this._content.push(...this._paint(this.fillStyle, 'fill'), `${this._n(x + this._origin.x)} ${this._n(y + this._origin.y)} ${this._n(width)} ${this._n(height)} re`, 'f');
+  }
+
+  /**
+   * @public
+   *
+   * Clips the next drawings to the current path, until the matching `restore()`.
+   */
+  public clip(): void {
+    /** the PDF clip can only be undone by restoring the graphics state, so it is saved first **/
+    const state = this._states[this._states.length - 1];
+    if (state && !state.clipped) {
+      this._content.push('q');
+      state.clipped = true;
+    }
+    this._content.push(...this._path, 'W n');
+  }
+
+  /**
+   * @public
+   *
+   * Moves the origin of the coordinates, until the next `restore()`.
+   */
+  public translate(x: number, y: number): void {
+    this._origin = { x: this._origin.x + x, y: this._origin.y + y };
+  }
+
+  /**
+   * @public
+   *
+   * Sets the dash pattern of the strokes, an empty list draws solid lines.
+   */
+  public setLineDash(segments: number[]): void {
+    this._lineDash = [...segments];
+  }
+
+  /**
+   * @public
+   *
+   * Writes a text with the `fillStyle`, the size of the `font`, the `textAlign` and the `textBaseline`.
+   */
+  public fillText(text: string, x: number, y: number): void {
+    const size = this._fontSize();
+    const width = this._textWidth(text, size);
+    const left = this.textAlign === 'center' ? x - (width / 2)
+      : this.textAlign === 'right' || this.textAlign === 'end' ? x - width
+        : x;
+    const baseline = this.textBaseline === 'middle' ? y + (size * 0.35)
+      : this.textBaseline === 'top' || this.textBaseline === 'hanging' ? y + (size * 0.75)
+        : this.textBaseline === 'bottom' || this.textBaseline === 'ideographic' ? y - (size * 0.2)
+          : y;
+
+    /** flip the text back upright **/
+    this._content.push(
+      ...this._paint(this.fillStyle, 'fill'),
+      'BT',
+      `/F1 ${this._n(size)} Tf`,
+      `1 0 0 -1 ${this._n(left + this._origin.x)} ${this._n(baseline + this._origin.y)} Tm`,
+      `(${this._escape(text)}) Tj`,
+      'ET'
+    );
+  }
+
+  /**
+   * @public
+   *
+   * Saves the drawing state.
+   */
+  public save(): void {
+    this._states.push({
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      font: this.font,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+      lineDash: this._lineDash,
+      origin: this._origin,
+      clipped: false
+    });
+  }
+
+  /**
+   * @public
+   *
+   * Brings back the last saved drawing state, and removes the clips set since.
+   */
+  public restore(): void {
+    const state = this._states.pop();
+    if (!state) {
+      return;
+    }
+    if (state.clipped) {
+      this._content.push('Q');
+    }
+    this.fillStyle = state.fillStyle;
+    this.strokeStyle = state.strokeStyle;
+    this.lineWidth = state.lineWidth;
+    this.font = state.font;
+    this.textAlign = state.textAlign;
+    this.textBaseline = state.textBaseline;
+    this._lineDash = state.lineDash;
+    this._origin = state.origin;
+  }
+
+  /**
+   * @public
+   *
+   * Writes the drawing as a single page PDF document.
+   * @param {{ title?: string; trimBox?: IRectPlotConfig }} [options={}] - The document title and the trimmed area of the page, in canvas coordinates.
+   * @returns {string} The PDF document as a binary string, one character per byte.
+   */
+  public toPdf(options: { title?: string; trimBox?: IRectPlotConfig; } = {}): string {
+    const { width, height } = this.canvas;
+
+    /** close the clips left open by unbalanced `save()` calls **/
+    const content = [
+      `1 0 0 -1 0 ${this._n(height)} cm`,
+      ...this._content,
+      ...this._states.filter((state) => state.clipped).map(() => 'Q')
+    ].join('\n');
+
+    const graphicsStates = Array.from(this._alphas)
+      .map(([alpha, name]) => `/${name} << /Type /ExtGState /${alpha} >>`)
+      .join(' ');
+    const trimBox = options.trimBox
+      ? ` /TrimBox [${this._n(options.trimBox.x ?? 0)} ${this._n(height - (options.trimBox.y ?? 0) - options.trimBox.height)} ${this._n((options.trimBox.x ?? 0) + options.trimBox.width)} ${this._n(height - (options.trimBox.y ?? 0))}]`
+      : '';
+
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this._n(width)} ${this._n(height)}]${trimBox} ` +
+      `/Resources << /Font << /F1 5 0 R >> /ExtGState << ${graphicsStates} >> >> /Contents 4 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      `<< /Title (${this._escape(options.title ?? '')}) /Producer (Layout Calculator) >>`
+    ];
+
+    /** every character is one byte, so the string length is the byte offset **/
+    let pdf = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets = objects.map((object, i) => {
+      const offset = pdf.length;
+      pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return pdf;
+  }
+
+  /**
+   *
+   *
+   * Gets the operators setting a paint color and its alpha.
+   * @param {string | CanvasGradient | CanvasPattern} style - The fill or stroke style, gradients and patterns are painted black.
+   * @param {'fill' | 'stroke'} target - The painting operation.
+   * @returns {string[]} The color and graphics state operators.
+   */
+  private _paint(style: string | CanvasGradient | CanvasPattern, target: 'fill' | 'stroke'): string[] {
+    const color = (typeof style === 'string' ? ColorValidatorClass.parse(style) : null) ?? { r: 0, g: 0, b: 0, a: 1 };
+    const alpha = `${target === 'fill' ? 'ca' : 'CA'} ${this._n(color.a)}`;
+    if (!this._alphas.has(alpha)) {
+      this._alphas.set(alpha, `GS${this._alphas.size + 1}`);
+    }
+    const rgb = [color.r, color.g, color.b].map((channel) => this._n(channel / 255)).join(' ');
+    return [`/${this._alphas.get(alpha)} gs`, `${rgb} ${target === 'fill' ? 'rg' : 'RG'}`];
+  }
+
+  /**
+   *
+   *
+   * Gets the operators setting the line width and the dash pattern of a stroke.
+   * @returns {string[]} The line width and dash operators.
+   */
+  private _strokeStyle(): string[] {
+    return [`${this._n(this.lineWidth)} w`, `[${this._lineDash.map((dash) => this._n(dash)).join(' ')}] 0 d`];
+  }
+
+  /**
+   *
+   *
+   * Reads the font size of the `font`, eq. `4.5` for `4.5px sans-serif`.
+   * @returns {number} The font size, in points.
+   */
+  private _fontSize(): number {
+    const match = /(\d*\.?\d+)px/.exec(this.font);
+    return match ? parseFloat(match[1]) : 10;
+  }
+
+  /**
+   *
+   *
+   * Measures a text written in Helvetica.
+   * @param {string} text - The text to measure.
+   * @param {number} size - The font size.
+   * @returns {number} The width of the text.
+   */
+  private _textWidth(text: string, size: number): number {
+    return Array.from(text).reduce((width, char) => width + (HELVETICA_WIDTHS[char.charCodeAt(0) - 32] ?? 556), 0) * size / 1000;
+  }
+
+  /**
+   *
+   *
+   * Escapes a text for a PDF string, characters outside of Latin-1 are replaced by `?`.
+   * @param {string} text - The text to escape.
+   * @returns {string} The escaped text.
+   */
+  private _escape(text: string): string {
+    return text.replace(/[^\x20-\xff]/g, '?').replace(/[\\()]/g, '\\$&');
+  }
+
+  /**
+   *
+   *
+   * Formats a number for the PDF operators, with at most 3 decimals.
+   * @param {number} value - The number to format.
+   * @returns {string} The formatted number.
+   */
+  private _n(value: number): string {
+    return `${Number(value.toFixed(3))}`;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * The namespace of every SVG element.
+ */
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * **Version 1.0**
+ * @class
+ * A minimal SVG node, used by {@link CalculatorLayoutClass} to build its drawings without a `document`.
+ *
+ * The same tree is either serialized to a plain SVG string, eq. in Node, a web worker or on a backend,
+ * or turned into real DOM elements in the browser.
+ *
+ * @example
+ * ```ts
+ *
+ *  const svg = new SvgNodeClass('svg', { viewBox: '0 0 100 50' });
+ *  const rect = new SvgNodeClass('rect', { x: 0, y: 0, width: 100, height: 50, fill: 'lightgreen' });
+ *  svg.appendChild(rect);
+ *
+ *  svg.toString(); // '<svg viewBox="0 0 100 50"><rect x="0" y="0" width="100" height="50" fill="lightgreen"/></svg>'
+ *  svg.toElement(); // SVGElement, browser only
+ *
+ * ```
+ */
+export class SvgNodeClass {
+
+  /**
+   * @property {Map<string, string>} _attributes - The attributes of the node, in insertion order.
+   */
+  private _attributes: Map<string, string> = new Map();
+  /**
+   * @property {SvgNodeClass[]} children - The child nodes, in drawing order.
+   */
+  public children: SvgNodeClass[] = [];
+  /**
+   * @property {string} textContent - The text of the node, eq. the label of a `<text/>` node.
+   */
+  public textContent: string = '';
+
+  /**
+   * @param {string} name - The tag name of the node, eq. `rect`.
+   * @param {Record<string, string | number>} [attributes={}] - The initial attributes of the node.
+   */
+  constructor(
+    public readonly name: string,
+    attributes: Record<string, string | number> = {},
+  ) {
+    Object.keys(attributes).forEach((key) => this.setAttribute(key, attributes[key]));
+  }
+
+  /**
+   * @public
+   *
+   * Sets an attribute of the node, replacing the previous value.
+   * @param {string} name - The name of the attribute.
+   * @param {string | number} value - The value of the attribute.
+   */
+  public setAttribute(name: string, value: string | number): void {
+    this._attributes.set(name, `${value}`);
+  }
+
+  /**
+   * @public
+   *
+   * Gets an attribute of the node.
+   * @param {string} name - The name of the attribute.
+   * @returns {string | null} The value of the attribute, or `null` when it is not set.
+   */
+  public getAttribute(name: string): string | null {
+    return this._attributes.get(name) ?? null;
+  }
+
+  /**
+   * @public
+   *
+   * Gets the first child node.
+   * @returns {SvgNodeClass | null} The first child node, or `null` when the node has no children.
+   */
+  public get firstChild(): SvgNodeClass | null {
+    return this.children[0] ?? null;
+  }
+
+  /**
+   * @public
+   *
+   * Adds a node after the last child node.
+   * @param {SvgNodeClass} node - The node to add.
+   * @returns {SvgNodeClass} The added node.
+   */
+  public appendChild(node: SvgNodeClass): SvgNodeClass {
+    this.children.push(node);
+    return node;
+  }
+
+  /**
+   * @public
+   *
+   * Adds a node before a child node, or after the last child node when the reference is `null`.
+   * @param {SvgNodeClass} node - The node to add.
+   * @param {SvgNodeClass | null} reference - The child node to add the node before.
+   * @returns {SvgNodeClass} The added node.
+   */
+  public insertBefore(node: SvgNodeClass, reference: SvgNodeClass | null): SvgNodeClass {
+    const index = reference ? this.children.indexOf(reference) : -1;
+    if (index < 0) {
+      this.children.push(node);
+    } else {
+      this.children.splice(index, 0, node);
+    }
+    return node;
+  }
+
+  /**
+   * @public
+   *
+   * Serializes the node and its children to an SVG markup string.
+   * @returns {string} The SVG markup.
+   */
+  public toString(): string {
+    const attributes = Array.from(this._attributes)
+      .map(([name, value]) => ` ${name}="${SvgNodeClass._escape(value).replace(/"/g, '&quot;')}"`)
+      .join('');
+
+    if (this.children.length === 0 && this.textContent === '') {
+      return `<${this.name}${attributes}/>`;
+    }
+    const content = SvgNodeClass._escape(this.textContent) + this.children.map((child) => child.toString()).join('');
+    return `<${this.name}${attributes}>${content}</${this.name}>`;
+  }
+
+  /**
+   * @public
+   *
+   * Creates the DOM elements of the node and its children, browser only.
+   * @param {Document} [ownerDocument=document] - The document creating the elements.
+   * @returns {SVGElement} The element of the node.
+   */
+  public toElement(ownerDocument: Document = document): SVGElement {
+    const element = ownerDocument.createElementNS(SVG_NAMESPACE, this.name) as SVGElement;
+    this._attributes.forEach((value, name) => element.setAttribute(name, value));
+    if (this.textContent !== '') {
+      element.textContent = this.textContent;
+    }
+    this.children.forEach((child) => element.appendChild(child.toElement(ownerDocument)));
+    return element;
+  }
+
+  /**
+   *
+   *
+   * Escapes the markup characters of a text.
+   * @param {string} text - The text to escape.
+   * @returns {string} The escaped text.
+   */
+  private static _escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}